@@ -4,6 +4,11 @@ import { Layout } from './components/Layout';
 import { Dashboard } from './pages/Dashboard';
 import { Projects } from './pages/Projects';
 import { ProjectDetail } from './pages/ProjectDetail';
+import { MemoryGraph } from './pages/MemoryGraph';
+import { MemoryDuplicates } from './pages/MemoryDuplicates';
+import { MemoryDecay } from './pages/MemoryDecay';
+import { SearchEvaluation } from './pages/SearchEvaluation';
+import { MemoryDetail } from './pages/MemoryDetail';
 import { Memories } from './pages/Memories';
 import { Search } from './pages/Search';
 import { Jobs } from './pages/Jobs';
@@ -41,6 +46,11 @@ function App() {
               <Route path="search" element={<Search />} />
               <Route path="projects" element={<Projects />} />
               <Route path="projects/:projectId" element={<ProjectDetail />} />
+              <Route path="projects/:projectId/graph" element={<MemoryGraph />} />
+              <Route path="projects/:projectId/duplicates" element={<MemoryDuplicates />} />
+              <Route path="projects/:projectId/decay" element={<MemoryDecay />} />
+              <Route path="projects/:projectId/evaluation" element={<SearchEvaluation />} />
+              <Route path="projects/:projectId/memories/:memoryId" element={<MemoryDetail />} />
               <Route path="memories" element={<Memories />} />
               <Route path="jobs" element={<Jobs />} />
               <Route path="mcp" element={<McpTester />} />
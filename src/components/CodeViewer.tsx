@@ -0,0 +1,45 @@
+import { useMemo } from 'react';
+import { highlightLines, resolveLanguage } from '../lib/highlight';
+import styles from './CodeViewer.module.css';
+
+interface CodeViewerProps {
+  code: string;
+  language?: string;
+  // Used to infer the language from the extension when `language` is missing
+  filePath?: string;
+  // Line number of the first line (chunks start part-way through a file)
+  lineStart?: number;
+}
+
+export function CodeViewer({ code, language, filePath, lineStart = 1 }: CodeViewerProps) {
+  const lines = useMemo(
+    () => highlightLines(code.replace(/\n$/, ''), resolveLanguage(language, filePath)),
+    [code, language, filePath]
+  );
+
+  // Size the gutter for the largest line number so columns stay aligned
+  const gutterWidth = `${String(lineStart + lines.length - 1).length + 1}ch`;
+
+  return (
+    <div className={styles.viewer}>
+      <pre className={styles.code}>
+        {lines.map((tokens, i) => (
+          <div key={i} className={styles.line}>
+            <span className={styles.lineNumber} style={{ width: gutterWidth }}>
+              {lineStart + i}
+            </span>
+            <code className={styles.lineContent}>
+              {tokens.map((token, j) =>
+                token.kind === 'plain' ? token.text : (
+                  <span key={j} className={styles[token.kind]}>
+                    {token.text}
+                  </span>
+                )
+              )}
+            </code>
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { estimateTokens, fitToBudget, formatPack, itemLabel, lineRange } from '../lib/contextPack';
+import type { PackFormat, PackItem } from '../lib/contextPack';
+import { downloadBlob } from '../lib/files';
+import { useContextPack } from '../stores/contextPack';
+import { useToast } from './ToastContext';
+import styles from './ContextPackTray.module.css';
+
+const FORMATS: Array<{ value: PackFormat; label: string }> = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'xml', label: 'XML' },
+];
+
+function formatTokens(tokens: number) {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+}
+
+// Collected memories, reorderable and trimmable, exported as one prompt block
+export function ContextPackTray() {
+  const items = useContextPack((s) => s.items);
+  const budget = useContextPack((s) => s.budget);
+  const format = useContextPack((s) => s.format);
+  const removeItem = useContextPack((s) => s.removeItem);
+  const moveItem = useContextPack((s) => s.moveItem);
+  const updateContent = useContextPack((s) => s.updateContent);
+  const setItems = useContextPack((s) => s.setItems);
+  const clear = useContextPack((s) => s.clear);
+  const setBudget = useContextPack((s) => s.setBudget);
+  const setFormat = useContextPack((s) => s.setFormat);
+  const { showToast } = useToast();
+
+  const [open, setOpen] = useState(false);
+  const [preview, setPreview] = useState(false);
+  const [editing, setEditing] = useState<{ key: string; content: string } | null>(null);
+
+  if (items.length === 0) return null;
+
+  const output = formatPack(items, format);
+  const tokens = estimateTokens(output);
+  const overBudget = tokens > budget;
+  const usage = Math.min(100, (tokens / budget) * 100);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(output);
+      showToast('Context pack copied to clipboard', 'success');
+    } catch {
+      showToast('Failed to copy context pack', 'error');
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([output], { type: format === 'xml' ? 'application/xml' : 'text/markdown' });
+    downloadBlob(blob, `context-pack.${format === 'xml' ? 'xml' : 'md'}`);
+  };
+
+  const handleFit = () => {
+    const fitted = fitToBudget(items, budget, format);
+    const dropped = items.length - fitted.length;
+    setItems(fitted);
+    showToast(
+      dropped > 0 ? `Trimmed to budget, ${dropped} ${dropped === 1 ? 'memory' : 'memories'} removed` : 'Trimmed to budget',
+      'info'
+    );
+  };
+
+  const handleClear = () => {
+    if (!confirm(`Remove all ${items.length} memories from the context pack?`)) return;
+    clear();
+    setOpen(false);
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    updateContent(editing.key, editing.content);
+    setEditing(null);
+  };
+
+  const renderItem = (item: PackItem, index: number) => {
+    const range = lineRange(item);
+    const isEditing = editing?.key === item.key;
+    return (
+      <li key={item.key} className={styles.item}>
+        <div className={styles.itemHeader}>
+          <div className={styles.itemText}>
+            <span className={styles.itemTitle}>{itemLabel(item)}</span>
+            <span className={styles.itemMeta}>
+              {item.file_path && `${item.file_path}${range ? `:${range}` : ''} · `}
+              {item.projectName && `${item.projectName} · `}~{formatTokens(estimateTokens(item.content))} tokens
+              {item.trimmed && ' · trimmed'}
+            </span>
+          </div>
+          <div className={styles.itemActions}>
+            <button onClick={() => moveItem(item.key, -1)} disabled={index === 0} title="Move up">
+              ▲
+            </button>
+            <button onClick={() => moveItem(item.key, 1)} disabled={index === items.length - 1} title="Move down">
+              ▼
+            </button>
+            <button
+              onClick={() => setEditing(isEditing ? null : { key: item.key, content: item.content })}
+              className={isEditing ? styles.active : ''}
+              title="Trim content"
+            >
+              ✎
+            </button>
+            <button onClick={() => removeItem(item.key)} className={styles.remove} title="Remove from pack">
+              ×
+            </button>
+          </div>
+        </div>
+        {isEditing && (
+          <div className={styles.editor}>
+            <textarea
+              className={styles.textarea}
+              value={editing.content}
+              onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+              rows={8}
+              spellCheck={false}
+            />
+            <div className={styles.editorActions}>
+              <span className={styles.hint}>~{formatTokens(estimateTokens(editing.content))} tokens</span>
+              <button className={styles.textBtn} onClick={() => setEditing(null)}>
+                Cancel
+              </button>
+              <button className={styles.textBtn} onClick={saveEdit}>
+                Save
+              </button>
+            </div>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className={styles.tray}>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className={styles.panel}
+            initial={{ opacity: 0, y: 12 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 12 }}
+            transition={{ duration: 0.2 }}
+          >
+            <div className={styles.panelHeader}>
+              <span className={styles.panelTitle}>Context pack</span>
+              <button className={styles.textBtn} onClick={handleClear}>
+                Clear
+              </button>
+            </div>
+
+            <div className={styles.budget}>
+              <div className={styles.budgetBar}>
+                <div
+                  className={`${styles.budgetFill} ${overBudget ? styles.over : ''}`}
+                  style={{ width: `${usage}%` }}
+                />
+              </div>
+              <div className={styles.budgetRow}>
+                <span className={overBudget ? styles.overText : undefined}>
+                  ~{formatTokens(tokens)} / {formatTokens(budget)} tokens
+                </span>
+                <label className={styles.budgetLabel}>
+                  Budget
+                  <input
+                    type="number"
+                    className={styles.budgetInput}
+                    min={100}
+                    step={500}
+                    value={budget}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (value > 0) setBudget(value);
+                    }}
+                  />
+                </label>
+              </div>
+              {overBudget && (
+                <button className={styles.fitBtn} onClick={handleFit}>
+                  Trim to fit budget
+                </button>
+              )}
+            </div>
+
+            <ol className={styles.list}>{items.map(renderItem)}</ol>
+
+            {preview && <pre className={styles.preview}>{output}</pre>}
+
+            <div className={styles.footer}>
+              <div className={styles.formats}>
+                {FORMATS.map((f) => (
+                  <button
+                    key={f.value}
+                    className={`${styles.formatBtn} ${format === f.value ? styles.active : ''}`}
+                    onClick={() => setFormat(f.value)}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+              <button className={styles.textBtn} onClick={() => setPreview(!preview)}>
+                {preview ? 'Hide preview' : 'Preview'}
+              </button>
+              <button className={styles.secondaryBtn} onClick={handleDownload}>
+                Download
+              </button>
+              <button className={styles.primaryBtn} onClick={handleCopy}>
+                Copy
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <button className={`${styles.toggle} ${overBudget ? styles.over : ''}`} onClick={() => setOpen(!open)}>
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M21 16V8a2 2 0 00-1-1.73l-7-4a2 2 0 00-2 0l-7 4A2 2 0 003 8v8a2 2 0 001 1.73l7 4a2 2 0 002 0l7-4A2 2 0 0021 16z" />
+        </svg>
+        Context pack · {items.length} · ~{formatTokens(tokens)}
+      </button>
+    </div>
+  );
+}
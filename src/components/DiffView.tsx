@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import { diffLines, toSideBySide } from '../lib/diff';
+import styles from './DiffView.module.css';
+
+interface DiffViewProps {
+  left: string;
+  right: string;
+  leftLabel?: string;
+  rightLabel?: string;
+}
+
+export function DiffView({ left, right, leftLabel, rightLabel }: DiffViewProps) {
+  const lines = useMemo(() => diffLines(left, right), [left, right]);
+  const rows = useMemo(() => toSideBySide(lines), [lines]);
+
+  const added = lines.filter((l) => l.kind === 'added').length;
+  const removed = lines.filter((l) => l.kind === 'removed').length;
+
+  return (
+    <div className={styles.diff}>
+      <div className={styles.header}>
+        <span className={styles.label}>{leftLabel}</span>
+        <span className={styles.label}>{rightLabel}</span>
+        <span className={styles.stats}>
+          <span className={styles.addedStat}>+{added}</span>
+          <span className={styles.removedStat}>−{removed}</span>
+        </span>
+      </div>
+      {added === 0 && removed === 0 ? (
+        <p className={styles.identical}>Contents are identical</p>
+      ) : (
+        <div className={styles.rows}>
+          {rows.map((row, i) => (
+            <div key={i} className={styles.row}>
+              <pre
+                className={`${styles.cell} ${
+                  row.kind === 'changed' || row.kind === 'removed' ? styles.removed : ''
+                } ${row.left === undefined ? styles.empty : ''}`}
+              >
+                {row.left}
+              </pre>
+              <pre
+                className={`${styles.cell} ${
+                  row.kind === 'changed' || row.kind === 'added' ? styles.added : ''
+                } ${row.right === undefined ? styles.empty : ''}`}
+              >
+                {row.right}
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
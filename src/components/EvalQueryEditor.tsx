@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { api } from '../lib/api';
+import type { SearchResult } from '../lib/api';
+import { newEvalId } from '../lib/evaluation';
+import type { EvalQuery } from '../lib/evaluation';
+import { Modal } from './ui';
+import styles from './EvalQueryEditor.module.css';
+
+interface EvalQueryEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  // Query being edited; a new one is created when absent.
+  // Remount (via `key`) to edit a different query.
+  query?: EvalQuery | null;
+  onSave: (query: EvalQuery) => void;
+}
+
+const GRADES = [1, 2, 3];
+const CANDIDATE_LIMIT = 20;
+
+function memoryLabel(result: SearchResult) {
+  return result.memory.title || result.memory.file_path || result.memory.id.slice(0, 12);
+}
+
+// Edit a query and judge which memories are relevant to it
+export function EvalQueryEditor({ isOpen, onClose, projectId, query, onSave }: EvalQueryEditorProps) {
+  const [text, setText] = useState(query?.query ?? '');
+  const [relevant, setRelevant] = useState<Record<string, number>>(query?.relevant ?? {});
+  const [newId, setNewId] = useState('');
+  const [candidates, setCandidates] = useState<SearchResult[] | null>(null);
+  const [finding, setFinding] = useState(false);
+  const [findError, setFindError] = useState<string | null>(null);
+
+  const setGrade = (id: string, grade: number | null) => {
+    const next = { ...relevant };
+    if (grade === null) delete next[id];
+    else next[id] = grade;
+    setRelevant(next);
+  };
+
+  const handleAddId = () => {
+    const id = newId.trim();
+    if (!id) return;
+    setGrade(id, relevant[id] ?? 1);
+    setNewId('');
+  };
+
+  const handleFind = async () => {
+    setFinding(true);
+    setFindError(null);
+    try {
+      const data = await api.searchMemories(projectId, text.trim(), { limit: CANDIDATE_LIMIT });
+      setCandidates(data.results);
+    } catch (err) {
+      setFindError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setFinding(false);
+    }
+  };
+
+  const handleSave = () => {
+    onSave({ id: query?.id ?? newEvalId(), query: text.trim(), relevant });
+    onClose();
+  };
+
+  const titles = new Map(candidates?.map((c) => [c.memory.id, memoryLabel(c)]));
+  const judged = Object.entries(relevant);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={query ? 'Edit Query' : 'Add Query'}
+      footer={
+        <div className={styles.actions}>
+          <button className={styles.cancelBtn} onClick={onClose}>
+            Cancel
+          </button>
+          <button className={styles.submitBtn} onClick={handleSave} disabled={!text.trim() || judged.length === 0}>
+            Save
+          </button>
+        </div>
+      }
+    >
+      <div className={styles.body}>
+        <label className={styles.label} htmlFor="eval-query">
+          Query
+        </label>
+        <div className={styles.queryRow}>
+          <input
+            id="eval-query"
+            className={styles.input}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="What an agent would search for"
+            autoFocus
+          />
+          <button className={styles.secondaryBtn} onClick={handleFind} disabled={!text.trim() || finding}>
+            {finding ? 'Searching...' : 'Find candidates'}
+          </button>
+        </div>
+
+        <span className={styles.label}>Relevant memories ({judged.length})</span>
+        {judged.length === 0 ? (
+          <p className={styles.hint}>Add memory ids below, or mark candidates from a search.</p>
+        ) : (
+          <ul className={styles.judgedList}>
+            {judged.map(([id, grade]) => (
+              <li key={id} className={styles.judged}>
+                <span className={styles.judgedId} title={id}>
+                  {titles.get(id) ?? id}
+                </span>
+                <select
+                  className={styles.gradeSelect}
+                  value={grade}
+                  onChange={(e) => setGrade(id, Number(e.target.value))}
+                  aria-label="Relevance grade"
+                >
+                  {GRADES.map((g) => (
+                    <option key={g} value={g}>
+                      grade {g}
+                    </option>
+                  ))}
+                </select>
+                <button className={styles.removeBtn} onClick={() => setGrade(id, null)} title="Not relevant">
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className={styles.queryRow}>
+          <input
+            className={styles.input}
+            value={newId}
+            onChange={(e) => setNewId(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAddId();
+              }
+            }}
+            placeholder="Memory id"
+          />
+          <button className={styles.secondaryBtn} onClick={handleAddId} disabled={!newId.trim()}>
+            Add
+          </button>
+        </div>
+
+        {findError && <p className={styles.error}>{findError}</p>}
+        {candidates && (
+          <>
+            <span className={styles.label}>Current top {candidates.length} for this query</span>
+            <ul className={styles.candidates}>
+              {candidates.map((candidate, i) => {
+                const id = candidate.memory.id;
+                const isRelevant = relevant[id] !== undefined;
+                return (
+                  <li key={id}>
+                    <button
+                      className={`${styles.candidate} ${isRelevant ? styles.marked : ''}`}
+                      onClick={() => setGrade(id, isRelevant ? null : 1)}
+                    >
+                      <span className={styles.candidateRank}>{i + 1}</span>
+                      <span className={styles.candidateTitle}>{memoryLabel(candidate)}</span>
+                      <span className={styles.candidateMark}>{isRelevant ? 'Relevant' : 'Mark relevant'}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -7,6 +7,7 @@ import { useAuth } from '../stores/auth';
 import { useProject } from '../stores/project';
 import { useSSEStore } from '../stores/sse';
 import { ProjectSelector } from './ui/ProjectSelector';
+import { SavedViews } from './SavedViews';
 import styles from './Layout.module.css';
 
 const navItems = [
@@ -370,6 +371,7 @@ export function Layout() {
             </div>
           );
         })}
+        {isAuthenticated && <SavedViews />}
       </nav>
 
       {/* Main Content */}
@@ -0,0 +1,230 @@
+import { useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
+import ReactMarkdown from 'react-markdown';
+import styles from './MarkdownEditor.module.css';
+
+type EditorMode = 'write' | 'split' | 'preview';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Forwarded to the textarea so the editor works inside FormData-based forms
+  id?: string;
+  name?: string;
+  placeholder?: string;
+  required?: boolean;
+  rows?: number;
+}
+
+interface Edit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export function MarkdownEditor({
+  value,
+  onChange,
+  id,
+  name,
+  placeholder,
+  required,
+  rows = 14,
+}: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mode, setMode] = useState<EditorMode>('split');
+
+  const apply = (edit: (value: string, start: number, end: number) => Edit) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const result = edit(value, textarea.selectionStart, textarea.selectionEnd);
+    onChange(result.value);
+
+    // Restore the selection once React has written the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'b') {
+      e.preventDefault();
+      apply(wrapSelection('**', '**', 'bold text'));
+    } else if (key === 'i') {
+      e.preventDefault();
+      apply(wrapSelection('_', '_', 'italic text'));
+    } else if (key === 'k') {
+      e.preventDefault();
+      apply(wrapSelection('[', '](https://)', 'link text'));
+    } else if (key === 'e') {
+      e.preventDefault();
+      apply(wrapSelection('`', '`', 'code'));
+    }
+  };
+
+  // The browser focuses the first invalid field right after this event and
+  // cannot while it is hidden, so show it again before that happens
+  const handleInvalid = () => {
+    if (mode === 'preview') flushSync(() => setMode('write'));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const text = e.clipboardData.getData('text/plain');
+    const textarea = e.currentTarget;
+    if (!looksLikeCode(text) || isInsideFence(value, textarea.selectionStart)) return;
+
+    e.preventDefault();
+    apply(insertCodeBlock(text));
+  };
+
+  const tools: { label: string; title: string; edit: (value: string, start: number, end: number) => Edit }[] = [
+    { label: 'B', title: 'Bold (Ctrl+B)', edit: wrapSelection('**', '**', 'bold text') },
+    { label: 'I', title: 'Italic (Ctrl+I)', edit: wrapSelection('_', '_', 'italic text') },
+    { label: 'H', title: 'Heading', edit: prefixLines('## ') },
+    { label: '•', title: 'Bulleted list', edit: prefixLines('- ') },
+    { label: '1.', title: 'Numbered list', edit: prefixLines('1. ') },
+    { label: '❝', title: 'Quote', edit: prefixLines('> ') },
+    { label: '<>', title: 'Inline code (Ctrl+E)', edit: wrapSelection('`', '`', 'code') },
+    { label: '{ }', title: 'Code block', edit: (v, s, e) => insertCodeBlock(v.slice(s, e) || 'code')(v, s, e) },
+    { label: '🔗', title: 'Link (Ctrl+K)', edit: wrapSelection('[', '](https://)', 'link text') },
+  ];
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.toolbar}>
+        <div className={styles.tools}>
+          {tools.map((tool) => (
+            <button
+              key={tool.title}
+              type="button"
+              className={styles.toolBtn}
+              title={tool.title}
+              onClick={() => apply(tool.edit)}
+              disabled={mode === 'preview'}
+            >
+              {tool.label}
+            </button>
+          ))}
+        </div>
+        <div className={styles.modes}>
+          {(['write', 'split', 'preview'] as EditorMode[]).map((m) => (
+            <button
+              key={m}
+              type="button"
+              className={`${styles.modeBtn} ${mode === m ? styles.active : ''}`}
+              onClick={() => setMode(m)}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`${styles.panes} ${mode === 'split' ? styles.split : ''}`}>
+        {/* Kept mounted in preview mode so the form still submits its value */}
+        <textarea
+          ref={textareaRef}
+          id={id}
+          name={name}
+          className={`${styles.textarea} ${mode === 'preview' ? styles.hidden : ''}`}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          placeholder={placeholder}
+          required={required}
+          onInvalid={handleInvalid}
+          rows={rows}
+          spellCheck
+        />
+        {mode !== 'write' && (
+          <div className={styles.preview}>
+            {value.trim() ? (
+              <ReactMarkdown>{value}</ReactMarkdown>
+            ) : (
+              <p className={styles.previewEmpty}>Nothing to preview</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className={styles.hint}>
+        Markdown supported. Pasted code is wrapped in a code block automatically.
+      </div>
+    </div>
+  );
+}
+
+function wrapSelection(before: string, after: string, placeholder: string) {
+  return (value: string, start: number, end: number): Edit => {
+    const selected = value.slice(start, end) || placeholder;
+    return {
+      value: value.slice(0, start) + before + selected + after + value.slice(end),
+      selectionStart: start + before.length,
+      selectionEnd: start + before.length + selected.length,
+    };
+  };
+}
+
+// Toggle a prefix on every line touched by the selection
+function prefixLines(prefix: string) {
+  return (value: string, start: number, end: number): Edit => {
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = value.indexOf('\n', end);
+    const blockEnd = lineEnd === -1 ? value.length : lineEnd;
+    const lines = value.slice(lineStart, blockEnd).split('\n');
+
+    const remove = lines.every((line) => line.startsWith(prefix));
+    const block = lines
+      .map((line) => (remove ? line.slice(prefix.length) : prefix + line))
+      .join('\n');
+
+    return {
+      value: value.slice(0, lineStart) + block + value.slice(blockEnd),
+      selectionStart: lineStart,
+      selectionEnd: lineStart + block.length,
+    };
+  };
+}
+
+function insertCodeBlock(code: string) {
+  return (value: string, start: number, end: number): Edit => {
+    const before = value.slice(0, start);
+    const after = value.slice(end);
+    // Fences must start and end on their own lines
+    const lead = before === '' || before.endsWith('\n') ? '' : '\n';
+    const trail = after.startsWith('\n') ? '' : '\n';
+    const body = code.replace(/\n+$/, '');
+    const block = `${lead}\`\`\`\n${body}\n\`\`\`${trail}`;
+
+    const codeStart = start + lead.length + 4;
+    return {
+      value: before + block + after,
+      selectionStart: codeStart,
+      selectionEnd: codeStart + body.length,
+    };
+  };
+}
+
+function isInsideFence(value: string, position: number) {
+  const fences = value.slice(0, position).match(/^[ \t]*(```|~~~)/gm);
+  return (fences?.length ?? 0) % 2 === 1;
+}
+
+const CODE_LINE = /[;{}()[\]=]\s*$|^\s*(import|export|def|class|fn|func|function|const|let|var|return|if|for|while|#include|package|public|private)\b/;
+
+// Heuristic: several lines that are indented or read like statements
+function looksLikeCode(text: string) {
+  if (text.includes('```')) return false;
+
+  const lines = text.split('\n').filter((line) => line.trim());
+  if (lines.length < 3) return false;
+
+  const codeLike = lines.filter((line) => CODE_LINE.test(line) || /^(\t| {2,})\S/.test(line)).length;
+  return codeLike / lines.length >= 0.6;
+}
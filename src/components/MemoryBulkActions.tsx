@@ -0,0 +1,338 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { api } from '../lib/api';
+import type { Memory, RegenerateMetadataRequest } from '../lib/api';
+import { runBatch } from '../lib/batch';
+import type { BatchFailure, BatchProgress } from '../lib/batch';
+import { downloadBlob } from '../lib/files';
+import { Modal } from './ui';
+import { MemoryRelocate } from './MemoryRelocate';
+import styles from './MemoryBulkActions.module.css';
+
+type BulkAction = 'add-tags' | 'remove-tags' | 'author' | 'regenerate' | 'delete';
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  'add-tags': 'Add tags',
+  'remove-tags': 'Remove tags',
+  author: 'Set author',
+  regenerate: 'Regenerate metadata',
+  delete: 'Delete',
+};
+
+interface BulkReport {
+  action: BulkAction;
+  succeeded: number;
+  skipped: number;
+  failed: BatchFailure<Memory>[];
+  // Set when the whole action failed rather than individual memories
+  error?: string;
+}
+
+interface MemoryBulkActionsProps {
+  projectId: string;
+  selected: Memory[];
+  // Total number of memories matching the current filters
+  totalMatching: number;
+  // The current filters, used instead of ids when every matching memory is selected
+  filters?: Omit<RegenerateMetadataRequest, 'memory_ids'>;
+  canEdit: boolean;
+  selectingAll: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  // Called once a bulk action finishes with the memories it changed
+  onApplied: (changes: { updated: Memory[]; deletedIds: string[] }) => void;
+}
+
+function parseTags(input: string): string[] {
+  return input.split(',').map((t) => t.trim()).filter(Boolean);
+}
+
+export function MemoryBulkActions({
+  projectId,
+  selected,
+  totalMatching,
+  filters,
+  canEdit,
+  selectingAll,
+  onSelectAll,
+  onClear,
+  onApplied,
+}: MemoryBulkActionsProps) {
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [value, setValue] = useState('');
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [report, setReport] = useState<BulkReport | null>(null);
+  const [relocateOpen, setRelocateOpen] = useState(false);
+  const [movedIds, setMovedIds] = useState<string[]>([]);
+
+  const running = progress !== null && report === null;
+
+  const openAction = (next: BulkAction) => {
+    setAction(next);
+    setValue('');
+    setProgress(null);
+    setReport(null);
+  };
+
+  const closeModal = () => {
+    if (running) return;
+    setAction(null);
+    setProgress(null);
+    setReport(null);
+  };
+
+  // Work out the update for a memory, or null if it is already in the desired state
+  const buildUpdate = (memory: Memory): { tags?: string[]; author?: string } | null => {
+    const current = memory.tags || [];
+    switch (action) {
+      case 'add-tags': {
+        const missing = parseTags(value).filter((t) => !current.includes(t));
+        return missing.length > 0 ? { tags: [...current, ...missing] } : null;
+      }
+      case 'remove-tags': {
+        const remove = parseTags(value);
+        const remaining = current.filter((t) => !remove.includes(t));
+        return remaining.length !== current.length ? { tags: remaining } : null;
+      }
+      case 'author':
+        return memory.author !== value.trim() ? { author: value.trim() } : null;
+      default:
+        return null;
+    }
+  };
+
+  const handleRun = async () => {
+    if (!action) return;
+
+    if (action === 'regenerate') {
+      // A single job covers the whole set; filters keep large selections out of the request
+      setProgress({ done: 0, total: 1 });
+      const request = filters && selected.length >= totalMatching ? filters : { memory_ids: selected.map((m) => m.id) };
+      try {
+        await api.regenerateMemoryMetadata(projectId, request);
+        setReport({ action, succeeded: selected.length, skipped: 0, failed: [] });
+      } catch (err) {
+        setReport({
+          action,
+          succeeded: 0,
+          skipped: 0,
+          failed: [],
+          error: err instanceof Error ? err.message : 'Failed to queue regeneration',
+        });
+      }
+      return;
+    }
+
+    if (action === 'delete') {
+      const result = await runBatch(
+        selected,
+        (memory) => api.deleteMemory(projectId, memory.id),
+        { onProgress: setProgress }
+      );
+      setReport({ action, succeeded: result.succeeded.length, skipped: 0, failed: result.failed });
+      onApplied({ updated: [], deletedIds: result.succeeded.map((s) => s.item.id) });
+      return;
+    }
+
+    // The selection holds memories as they were when checked, and tags are
+    // written back whole, so read each one again to keep changes made since
+    const result = await runBatch(
+      selected,
+      async (memory): Promise<Memory | null> => {
+        const latest = (await api.getMemoryContext(projectId, memory.id, 1))?.memory ?? memory;
+        const update = buildUpdate(latest);
+        if (!update) return null;
+        const updated = await api.updateMemory(projectId, memory.id, update);
+        // Fall back to a local merge if the API returns an empty body
+        return updated?.id ? updated : { ...latest, ...update };
+      },
+      { onProgress: setProgress }
+    );
+    const updated = result.succeeded.map((s) => s.result).filter((m): m is Memory => m !== null);
+    setReport({
+      action,
+      succeeded: updated.length,
+      skipped: result.succeeded.length - updated.length,
+      failed: result.failed,
+    });
+    onApplied({ updated, deletedIds: [] });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(selected, null, 2)], { type: 'application/json' });
+    const date = new Date().toISOString().split('T')[0];
+    downloadBlob(blob, `memories-${projectId}-${date}.json`);
+  };
+
+  const needsValue = action === 'add-tags' || action === 'remove-tags' || action === 'author';
+  const canRun = action !== null && !running && (!needsValue || value.trim().length > 0);
+
+  return (
+    <>
+      <motion.div
+        className={styles.bar}
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.2 }}
+      >
+        <div className={styles.selection}>
+          <span className={styles.count}>
+            <strong>{selected.length}</strong> selected
+          </span>
+          {selected.length < totalMatching && (
+            <button className={styles.linkBtn} onClick={onSelectAll} disabled={selectingAll}>
+              {selectingAll ? 'Selecting...' : `Select all ${totalMatching} matching`}
+            </button>
+          )}
+          <button className={styles.linkBtn} onClick={onClear}>
+            Clear
+          </button>
+        </div>
+        <div className={styles.actions}>
+          {canEdit && (
+            <>
+              <button className={styles.actionBtn} onClick={() => openAction('add-tags')}>
+                Add tags
+              </button>
+              <button className={styles.actionBtn} onClick={() => openAction('remove-tags')}>
+                Remove tags
+              </button>
+              <button className={styles.actionBtn} onClick={() => openAction('author')}>
+                Set author
+              </button>
+              <button className={styles.actionBtn} onClick={() => setRelocateOpen(true)}>
+                Copy / Move
+              </button>
+              <button className={styles.actionBtn} onClick={() => openAction('regenerate')}>
+                Regenerate metadata
+              </button>
+            </>
+          )}
+          <button className={styles.actionBtn} onClick={handleExport}>
+            Export
+          </button>
+          {canEdit && (
+            <button className={`${styles.actionBtn} ${styles.danger}`} onClick={() => openAction('delete')}>
+              Delete
+            </button>
+          )}
+        </div>
+      </motion.div>
+
+      <Modal
+        isOpen={action !== null}
+        onClose={closeModal}
+        title={action ? `${ACTION_LABELS[action]} · ${selected.length} memories` : ''}
+        footer={
+          <div className={styles.modalActions}>
+            <button className={styles.cancelBtn} onClick={closeModal} disabled={running}>
+              {report ? 'Close' : 'Cancel'}
+            </button>
+            {!report && (
+              <button
+                className={`${styles.submitBtn} ${action === 'delete' ? styles.dangerSubmit : ''}`}
+                onClick={handleRun}
+                disabled={!canRun}
+              >
+                {running ? 'Working...' : action ? ACTION_LABELS[action] : ''}
+              </button>
+            )}
+          </div>
+        }
+      >
+        <div className={styles.modalBody}>
+          {!progress && action === 'delete' && (
+            <p className={styles.warning}>
+              Permanently delete {selected.length} memories? This cannot be undone.
+            </p>
+          )}
+          {!progress && action === 'regenerate' && (
+            <p className={styles.note}>
+              Queue a job to re-extract keywords and context for {selected.length} memories. Manual edits to them will
+              be replaced.
+            </p>
+          )}
+          {!progress && (action === 'add-tags' || action === 'remove-tags') && (
+            <input
+              type="text"
+              className={styles.input}
+              placeholder="tag1, tag2, tag3 (comma-separated)"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              autoFocus
+            />
+          )}
+          {!progress && action === 'author' && (
+            <input
+              type="text"
+              className={styles.input}
+              placeholder="Author name"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              autoFocus
+            />
+          )}
+
+          {progress && (
+            <div className={styles.progress}>
+              <div className={styles.progressBar}>
+                <div
+                  className={styles.progressFill}
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }}
+                />
+              </div>
+              <span className={styles.progressText}>
+                {progress.done} / {progress.total}
+              </span>
+            </div>
+          )}
+
+          {report?.error && <p className={styles.warning}>{report.error}</p>}
+          {report && !report.error && report.action === 'regenerate' && (
+            <p className={styles.reportSummary}>
+              <span className={styles.ok}>Regeneration queued for {report.succeeded} memories.</span>{' '}
+              <Link to="/jobs" className={styles.reportLink}>
+                View jobs
+              </Link>
+            </p>
+          )}
+          {report && !report.error && report.action !== 'regenerate' && (
+            <div className={styles.report}>
+              <p className={styles.reportSummary}>
+                <span className={styles.ok}>{report.succeeded} succeeded</span>
+                {report.skipped > 0 && <span> · {report.skipped} already up to date</span>}
+                {report.failed.length > 0 && <span className={styles.fail}> · {report.failed.length} failed</span>}
+              </p>
+              {report.failed.length > 0 && (
+                <ul className={styles.failureList}>
+                  {report.failed.map(({ item, error }) => (
+                    <li key={item.id} className={styles.failureItem}>
+                      <span className={styles.failureTitle}>
+                        {item.title || item.file_path || item.id.slice(0, 12)}
+                      </span>
+                      <span className={styles.failureError}>{error}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </Modal>
+
+      <MemoryRelocate
+        isOpen={relocateOpen}
+        onClose={() => {
+          setRelocateOpen(false);
+          // Dropping moved memories from the selection can unmount this bar, so wait until the summary is closed
+          if (movedIds.length > 0) onApplied({ updated: [], deletedIds: movedIds });
+          setMovedIds([]);
+        }}
+        projectId={projectId}
+        memories={selected}
+        onDone={(result) => setMovedIds(result.deleted)}
+      />
+    </>
+  );
+}
@@ -1,9 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import ReactMarkdown from 'react-markdown';
 import { api } from '../lib/api';
 import type { Memory, MemoryContext } from '../lib/api';
+import { downloadBlob } from '../lib/files';
+import { memoryPath, shareableUrl } from '../lib/memoryView';
+import { useFileMemories } from '../hooks/useFileMemories';
+import { useAuth } from '../stores/auth';
+import { useRevisions } from '../stores/revisions';
 import { Modal } from './ui';
+import { useToast } from './ToastContext';
+import { CodeViewer } from './CodeViewer';
+import { MemoryLinkEditor } from './MemoryLinkEditor';
+import { MemoryHistory } from './MemoryHistory';
+import { MemoryMetadataEditor } from './MemoryMetadataEditor';
 import styles from './MemoryDetailModal.module.css';
 
 interface MemoryDetailModalProps {
@@ -22,6 +32,31 @@ interface MemoryDetailModalProps {
   selectedTags?: string[];
 }
 
+// Every loaded version is journalled so it can be diffed or restored later
+function journalContext(projectId: string, context: MemoryContext) {
+  if (context?.memory) useRevisions.getState().record(projectId, context.memory);
+}
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleDateString('en-GB', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// Strip content after the first --- line (removes related content lists)
+function stripTrailingMetadata(content: string) {
+  const lines = content.split('\n');
+  const hrIndex = lines.findIndex((line) => line.trim() === '---');
+  if (hrIndex > 0) {
+    return lines.slice(0, hrIndex).join('\n').trim();
+  }
+  return content;
+}
+
 export function MemoryDetailModal({
   isOpen,
   onClose,
@@ -31,10 +66,13 @@ export function MemoryDetailModal({
   selectedTags = [],
 }: MemoryDetailModalProps) {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const isAdmin = user?.roles?.includes('admin') ?? false;
   const [context, setContext] = useState<MemoryContext | null>(null);
   const [loading, setLoading] = useState(false);
-  const [downloading, setDownloading] = useState(false);
   const [currentMemory, setCurrentMemory] = useState<Memory | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
 
   // Load memory context when memory changes
   useEffect(() => {
@@ -50,7 +88,10 @@ export function MemoryDetailModal({
 
     api
       .getMemoryContext(projectId, memory.id)
-      .then(setContext)
+      .then((next) => {
+        setContext(next);
+        journalContext(projectId, next);
+      })
       .catch((err) => console.error('Failed to load memory context:', err))
       .finally(() => setLoading(false));
   }, [isOpen, memory?.id, projectId]);
@@ -64,6 +105,7 @@ export function MemoryDetailModal({
       if (newContext?.memory) {
         setCurrentMemory(newContext.memory);
         setContext(newContext);
+        journalContext(projectId, newContext);
       }
     } catch (err) {
       console.error('Failed to load related memory:', err);
@@ -72,50 +114,30 @@ export function MemoryDetailModal({
     }
   };
 
-  const formatDate = (dateStr: string) => {
-    return new Date(dateStr).toLocaleDateString('en-GB', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  };
-
-  // Strip content after the first --- line (removes related content lists)
-  const stripTrailingMetadata = (content: string) => {
-    const lines = content.split('\n');
-    const hrIndex = lines.findIndex((line) => line.trim() === '---');
-    if (hrIndex > 0) {
-      return lines.slice(0, hrIndex).join('\n').trim();
-    }
-    return content;
+  // Reload context after links change so the related list stays in sync
+  const refreshContext = () => {
+    const id = currentMemory?.id;
+    if (!projectId || !id) return;
+    api
+      .getMemoryContext(projectId, id)
+      .then((next) => {
+        setContext(next);
+        journalContext(projectId, next);
+      })
+      .catch((err) => console.error('Failed to reload memory context:', err));
   };
 
   // Use context.memory (has full data including tags) when available,
   // otherwise fall back to currentMemory or the original prop
   const displayMemory = context?.memory || currentMemory || memory;
 
-  // Download the original source file
-  const handleDownload = async () => {
-    if (!projectId || !displayMemory?.id || !displayMemory?.file_path) return;
-
-    setDownloading(true);
+  const handleCopyLink = async () => {
+    if (!projectId || !displayMemory) return;
     try {
-      const { blob, filename } = await api.downloadSourceFile(projectId, displayMemory.id);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    } catch (err) {
-      console.error('Failed to download source file:', err);
-      // Could add a toast notification here
-    } finally {
-      setDownloading(false);
+      await navigator.clipboard.writeText(shareableUrl(memoryPath(projectId, displayMemory.id)));
+      showToast('Link copied to clipboard', 'success');
+    } catch {
+      showToast('Failed to copy link', 'error');
     }
   };
 
@@ -127,61 +149,32 @@ export function MemoryDetailModal({
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={modalTitle} wide>
       <div className={styles.content}>
-        {/* Header row - file path, source, and date */}
-        <div className={styles.headerRow}>
-          <div className={styles.headerLeft}>
-            {displayMemory.file_path && (
-              <div className={styles.filePath}>
+        <MemoryContent
+          projectId={projectId}
+          memory={displayMemory}
+          fullContent={context?.memory?.content}
+          loading={loading}
+          onNavigate={handleNavigateToRelated}
+          actions={
+            projectId && (
+              <>
+                <button className={styles.headerAction} onClick={handleCopyLink} title="Copy a link to this memory">
+                  Copy link
+                </button>
                 <button
-                  className={styles.downloadButton}
-                  onClick={handleDownload}
-                  title="Download source file"
-                  disabled={downloading || !projectId}
+                  className={styles.headerAction}
+                  onClick={() => {
+                    onClose();
+                    navigate(memoryPath(projectId, displayMemory.id));
+                  }}
+                  title="Open as a full page"
                 >
-                  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
-                    <polyline points="7 10 12 15 17 10" />
-                    <line x1="12" y1="15" x2="12" y2="3" />
-                  </svg>
-                  <code>{displayMemory.file_path}</code>
+                  Open
                 </button>
-                {displayMemory.line_start != null && (
-                  <span className={styles.lineRange}>
-                    {displayMemory.line_end != null && displayMemory.line_end !== displayMemory.line_start
-                      ? `lines ${displayMemory.line_start}–${displayMemory.line_end}`
-                      : `line ${displayMemory.line_start}`}
-                  </span>
-                )}
-                {displayMemory.language && <span className={styles.language}>{displayMemory.language}</span>}
-              </div>
-            )}
-            {displayMemory.source && (
-              <span className={styles.source}>{displayMemory.source}</span>
-            )}
-          </div>
-          <span className={styles.date}>{formatDate(displayMemory.created_at)}</span>
-        </div>
-
-        {/* Main content */}
-        <div className={styles.mainContent}>
-          {loading ? (
-            <div className={styles.loading}>Loading...</div>
-          ) : context?.memory?.content ? (
-            <div className={styles.markdown}>
-              <ReactMarkdown>{stripTrailingMetadata(context.memory.content)}</ReactMarkdown>
-            </div>
-          ) : displayMemory.context ? (
-            <div className={styles.markdown}>
-              <ReactMarkdown>{stripTrailingMetadata(displayMemory.context)}</ReactMarkdown>
-            </div>
-          ) : displayMemory.content ? (
-            <div className={styles.markdown}>
-              <ReactMarkdown>{stripTrailingMetadata(displayMemory.content)}</ReactMarkdown>
-            </div>
-          ) : (
-            <p className={styles.noContent}>No content available</p>
-          )}
-        </div>
+              </>
+            )
+          }
+        />
 
         {/* Score info (only show for search results on the original memory) */}
         {scoreInfo && currentMemory?.id === memory?.id && (
@@ -211,17 +204,17 @@ export function MemoryDetailModal({
           </div>
         )}
 
-        {/* Keywords */}
-        {displayMemory.keywords && displayMemory.keywords.length > 0 && (
+        {/* Agentic metadata */}
+        {projectId && context?.memory && (
           <div className={styles.section}>
-            <span className={styles.sectionLabel}>Keywords</span>
-            <div className={styles.keywords}>
-              {displayMemory.keywords.map((keyword, i) => (
-                <span key={i} className={styles.keyword}>
-                  {keyword}
-                </span>
-              ))}
-            </div>
+            <span className={styles.sectionLabel}>Keywords &amp; Context</span>
+            <MemoryMetadataEditor
+              key={context.memory.id}
+              projectId={projectId}
+              memory={context.memory}
+              canEdit={isAdmin}
+              onChange={refreshContext}
+            />
           </div>
         )}
 
@@ -310,6 +303,53 @@ export function MemoryDetailModal({
           </div>
         )}
 
+        {/* Editable links */}
+        {projectId && (
+          <div className={styles.section}>
+            <span className={styles.sectionLabel}>Links</span>
+            <MemoryLinkEditor
+              key={displayMemory.id}
+              projectId={projectId}
+              memoryId={displayMemory.id}
+              titles={Object.fromEntries([
+                ...(context?.related || []).map((r) => [r.id, r.title]),
+                ...(context?.similar || []).map((r) => [r.id, r.title]),
+              ])}
+              canEdit={isAdmin}
+              onNavigate={handleNavigateToRelated}
+              onChange={refreshContext}
+            />
+          </div>
+        )}
+
+        {/* Revision history */}
+        {projectId && context?.memory && (
+          <div className={styles.section}>
+            <button className={styles.sectionToggle} onClick={() => setShowHistory(!showHistory)}>
+              <svg
+                className={showHistory ? styles.toggleOpen : ''}
+                width="10"
+                height="10"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M9 18l6-6-6-6" />
+              </svg>
+              History
+            </button>
+            {showHistory && (
+              <MemoryHistory
+                projectId={projectId}
+                memory={context.memory}
+                canEdit={isAdmin}
+                onRestored={refreshContext}
+              />
+            )}
+          </div>
+        )}
+
         {/* Legacy links (if no context loaded) */}
         {!context && displayMemory.links && displayMemory.links.length > 0 && (
           <div className={styles.section}>
@@ -347,3 +387,187 @@ export function MemoryDetailModal({
     </Modal>
   );
 }
+
+interface MemoryContentProps {
+  projectId: string | null;
+  memory: Memory;
+  // Full content from the memory context, when loaded
+  fullContent?: string;
+  loading?: boolean;
+  // Let the content grow instead of scrolling inside a fixed height
+  expanded?: boolean;
+  onNavigate: (memoryId: string) => void;
+  // Extra controls shown at the end of the header row
+  actions?: React.ReactNode;
+}
+
+// Chunks of one file in line order
+function fileChunks(memories: Memory[], filePath?: string) {
+  return memories
+    .filter((m) => m.file_path === filePath)
+    .sort((a, b) => (a.line_start ?? 0) - (b.line_start ?? 0));
+}
+
+// File location header and content of a memory, shared with the full-page view
+export function MemoryContent({
+  projectId,
+  memory,
+  fullContent,
+  loading = false,
+  expanded = false,
+  onNavigate,
+  actions,
+}: MemoryContentProps) {
+  const [downloading, setDownloading] = useState(false);
+
+  // File chunks are shown as code, except for Markdown documents
+  const isMarkdownFile = /^(markdown|md|mdx)$/i.test(memory.language || '') || /\.mdx?$/i.test(memory.file_path || '');
+  const codeContent = memory.source === 'file' && !isMarkdownFile
+    ? fullContent || memory.content
+    : undefined;
+
+  // Other chunks of the same file, in line order, for previous/next navigation.
+  // The server cannot list memories by file path, so this only uses a file
+  // listing another view (the file tree) already loaded and never fetches one.
+  const { data: fileMemories } = useFileMemories(
+    memory.source === 'file' && memory.file_path ? projectId : null,
+    { cachedOnly: true }
+  );
+  const siblingChunks = useMemo(
+    () => (fileMemories && memory.file_path ? fileChunks(fileMemories, memory.file_path) : []),
+    [fileMemories, memory.file_path]
+  );
+  const chunkIndex = siblingChunks.findIndex((m) => m.id === memory.id);
+  const hasChunkNav = chunkIndex >= 0 && siblingChunks.length > 1;
+  const prevChunk = chunkIndex > 0 ? siblingChunks[chunkIndex - 1] : null;
+  const nextChunk = hasChunkNav && chunkIndex < siblingChunks.length - 1 ? siblingChunks[chunkIndex + 1] : null;
+
+  // Download the original source file
+  const handleDownload = async () => {
+    if (!projectId || !memory.file_path) return;
+
+    setDownloading(true);
+    try {
+      const { blob, filename } = await api.downloadSourceFile(projectId, memory.id);
+      downloadBlob(blob, filename);
+    } catch (err) {
+      console.error('Failed to download source file:', err);
+      // Could add a toast notification here
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <>
+      <div className={styles.headerRow}>
+        <div className={styles.headerLeft}>
+          {memory.file_path && (
+            <div className={styles.filePath}>
+              <button
+                className={styles.downloadButton}
+                onClick={handleDownload}
+                title="Download source file"
+                disabled={downloading || !projectId}
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                  <polyline points="7 10 12 15 17 10" />
+                  <line x1="12" y1="15" x2="12" y2="3" />
+                </svg>
+                <code>{memory.file_path}</code>
+              </button>
+              {memory.line_start != null && (
+                <span className={styles.lineRange}>
+                  {memory.line_end != null && memory.line_end !== memory.line_start
+                    ? `lines ${memory.line_start}–${memory.line_end}`
+                    : `line ${memory.line_start}`}
+                </span>
+              )}
+              {memory.language && <span className={styles.language}>{memory.language}</span>}
+            </div>
+          )}
+          {memory.source && (
+            <span className={styles.source}>{memory.source}</span>
+          )}
+        </div>
+        <div className={styles.headerRight}>
+          {memory.created_at && (
+            <span className={styles.date}>{formatDate(memory.created_at)}</span>
+          )}
+          {actions}
+        </div>
+      </div>
+
+      {/* Main content */}
+      <div className={`${styles.mainContent} ${codeContent ? styles.codeContent : ''} ${expanded ? styles.expanded : ''}`}>
+        {loading ? (
+          <div className={styles.loading}>Loading...</div>
+        ) : codeContent ? (
+          <div className={styles.codeSection}>
+            <div className={styles.chunkNav}>
+              <div className={styles.chunkNavButtons}>
+                {hasChunkNav && (
+                  <>
+                    <button
+                      className={styles.chunkNavBtn}
+                      onClick={() => prevChunk && onNavigate(prevChunk.id)}
+                      disabled={!prevChunk}
+                      title="Previous chunk"
+                    >
+                      <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M15 18l-6-6 6-6" />
+                      </svg>
+                      Prev
+                    </button>
+                    <span className={styles.chunkPosition}>
+                      Chunk {chunkIndex + 1} of {siblingChunks.length}
+                    </span>
+                    <button
+                      className={styles.chunkNavBtn}
+                      onClick={() => nextChunk && onNavigate(nextChunk.id)}
+                      disabled={!nextChunk}
+                      title="Next chunk"
+                    >
+                      Next
+                      <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M9 18l6-6-6-6" />
+                      </svg>
+                    </button>
+                  </>
+                )}
+              </div>
+              <button
+                className={styles.chunkNavBtn}
+                onClick={handleDownload}
+                disabled={downloading || !projectId}
+              >
+                {downloading ? 'Downloading...' : 'Download full source'}
+              </button>
+            </div>
+            <CodeViewer
+              code={codeContent}
+              language={memory.language}
+              filePath={memory.file_path}
+              lineStart={memory.line_start ?? 1}
+            />
+          </div>
+        ) : fullContent ? (
+          <div className={styles.markdown}>
+            <ReactMarkdown>{stripTrailingMetadata(fullContent)}</ReactMarkdown>
+          </div>
+        ) : memory.context ? (
+          <div className={styles.markdown}>
+            <ReactMarkdown>{stripTrailingMetadata(memory.context)}</ReactMarkdown>
+          </div>
+        ) : memory.content ? (
+          <div className={styles.markdown}>
+            <ReactMarkdown>{stripTrailingMetadata(memory.content)}</ReactMarkdown>
+          </div>
+        ) : (
+          <p className={styles.noContent}>No content available</p>
+        )}
+      </div>
+    </>
+  );
+}
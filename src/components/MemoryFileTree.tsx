@@ -0,0 +1,251 @@
+import { useMemo, useState } from 'react';
+import useSWR from 'swr';
+import { api } from '../lib/api';
+import type { Memory } from '../lib/api';
+import { useFileMemories } from '../hooks/useFileMemories';
+import { buildFileTree, buildChunkSegments } from '../lib/fileTree';
+import type { DirEntry, FileEntry } from '../lib/fileTree';
+import { EmptyState } from './ui';
+import styles from './MemoryFileTree.module.css';
+
+interface TreeDirProps {
+  dir: DirEntry;
+  depth: number;
+  expanded: Set<string>;
+  selectedPath: string | null;
+  onToggle: (path: string) => void;
+  onSelectFile: (file: FileEntry) => void;
+}
+
+function TreeDir({ dir, depth, expanded, selectedPath, onToggle, onSelectFile }: TreeDirProps) {
+  return (
+    <ul className={styles.treeList}>
+      {dir.dirs.map((child) => {
+        const isOpen = expanded.has(child.path);
+        return (
+          <li key={child.path}>
+            <button
+              className={styles.treeRow}
+              style={{ paddingLeft: `${depth * 0.875 + 0.5}rem` }}
+              onClick={() => onToggle(child.path)}
+            >
+              <svg
+                className={`${styles.chevron} ${isOpen ? styles.open : ''}`}
+                width="10"
+                height="10"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M9 18l6-6-6-6" />
+              </svg>
+              <svg className={styles.folderIcon} width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+              </svg>
+              <span className={styles.treeName}>{child.name}</span>
+              <span className={styles.treeCount}>{child.count}</span>
+            </button>
+            {isOpen && (
+              <TreeDir
+                dir={child}
+                depth={depth + 1}
+                expanded={expanded}
+                selectedPath={selectedPath}
+                onToggle={onToggle}
+                onSelectFile={onSelectFile}
+              />
+            )}
+          </li>
+        );
+      })}
+      {dir.files.map((file) => (
+        <li key={file.path}>
+          <button
+            className={`${styles.treeRow} ${selectedPath === file.path ? styles.selected : ''}`}
+            style={{ paddingLeft: `${depth * 0.875 + 1.375}rem` }}
+            onClick={() => onSelectFile(file)}
+          >
+            <svg className={styles.fileIcon} width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8z" />
+              <path d="M14 2v6h6" />
+            </svg>
+            <span className={styles.treeName}>{file.name}</span>
+            <span className={styles.treeCount}>{file.memories.length}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface MemoryFileTreeProps {
+  projectId: string;
+  onSelectMemory: (memory: Memory) => void;
+}
+
+export function MemoryFileTree({ projectId, onSelectMemory }: MemoryFileTreeProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  const { data: project } = useSWR(`project-${projectId}`, () => api.getProject(projectId));
+
+  const { data: fileMemories, isLoading, error, progress } = useFileMemories(projectId);
+
+  const tree = useMemo(() => buildFileTree(fileMemories || []), [fileMemories]);
+
+  // Look the file up in the current tree so refreshed data is picked up
+  const selectedFile = useMemo(() => {
+    if (!selectedPath) return null;
+    let dir: DirEntry | undefined = tree;
+    const parts = selectedPath.split('/');
+    for (const part of parts.slice(0, -1)) {
+      dir = dir?.dirs.find((d) => d.name === part);
+    }
+    return dir?.files.find((f) => f.path === selectedPath) ?? null;
+  }, [tree, selectedPath]);
+
+  const chunks = useMemo(
+    () => (selectedFile ? buildChunkSegments(selectedFile.memories) : null),
+    [selectedFile]
+  );
+
+  const toggleDir = (path: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className={styles.loading}>
+        {progress ? `Loading file memories ${progress.loaded} / ${progress.total}...` : 'Loading file memories...'}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className={styles.error}>{error instanceof Error ? error.message : 'Failed to load file memories'}</div>;
+  }
+
+  if (tree.count === 0) {
+    return (
+      <EmptyState
+        icon={
+          <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+            <path d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+          </svg>
+        }
+        title="No indexed files"
+        description="This project has no file memories yet. Run an index to populate the tree."
+      />
+    );
+  }
+
+  const gapCount = chunks ? chunks.segments.filter((s) => s.kind === 'gap').length : 0;
+
+  return (
+    <div className={styles.container}>
+      {/* Tree */}
+      <div className={styles.treePane}>
+        <div className={styles.paneHeader}>
+          <span className={styles.paneTitle}>Files</span>
+          <span className={styles.paneMeta}>{tree.count} memories</span>
+        </div>
+        <div className={styles.treeScroll}>
+          <TreeDir
+            dir={tree}
+            depth={0}
+            expanded={expanded}
+            selectedPath={selectedPath}
+            onToggle={toggleDir}
+            onSelectFile={(file) => setSelectedPath(file.path)}
+          />
+        </div>
+      </div>
+
+      {/* File detail */}
+      <div className={styles.filePane}>
+        {!selectedFile || !chunks ? (
+          <div className={styles.filePlaceholder}>
+            <p>Select a file to see its chunks in line order.</p>
+            {project && (
+              <div className={styles.globs}>
+                <div className={styles.globGroup}>
+                  <span className={styles.globLabel}>Include</span>
+                  {(project.include?.length ? project.include : ['**/*']).map((glob) => (
+                    <code key={glob} className={styles.glob}>{glob}</code>
+                  ))}
+                </div>
+                {project.exclude && project.exclude.length > 0 && (
+                  <div className={styles.globGroup}>
+                    <span className={styles.globLabel}>Exclude</span>
+                    {project.exclude.map((glob) => (
+                      <code key={glob} className={`${styles.glob} ${styles.excluded}`}>{glob}</code>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className={styles.paneHeader}>
+              <span className={styles.filePath}>{selectedFile.path}</span>
+              <span className={styles.paneMeta}>
+                {selectedFile.language && <span className={styles.language}>{selectedFile.language}</span>}
+                {selectedFile.memories.length} chunks
+                {chunks.segments.length > 0 && ` · ${chunks.coveredLines} lines indexed`}
+                {gapCount > 0 && <span className={styles.gapCount}> · {gapCount} gaps</span>}
+              </span>
+            </div>
+            <div className={styles.chunkList}>
+              {chunks.segments.map((segment) =>
+                segment.kind === 'gap' ? (
+                  <div key={`gap-${segment.start}`} className={styles.gapRow}>
+                    <span className={styles.lineRange}>
+                      L{segment.start}–{segment.end}
+                    </span>
+                    <span>
+                      {segment.end - segment.start + 1} lines not indexed
+                    </span>
+                  </div>
+                ) : (
+                  <button
+                    key={segment.memory.id}
+                    className={styles.chunkRow}
+                    onClick={() => onSelectMemory(segment.memory)}
+                  >
+                    <span className={styles.lineRange}>
+                      L{segment.start}–{segment.end}
+                    </span>
+                    <span className={styles.chunkTitle}>
+                      {segment.memory.title || segment.memory.id.slice(0, 12)}
+                    </span>
+                    {segment.memory.content && (
+                      <span className={styles.chunkPreview}>
+                        {segment.memory.content.slice(0, 160)}
+                      </span>
+                    )}
+                  </button>
+                )
+              )}
+              {chunks.unranged.map((memory) => (
+                <button key={memory.id} className={styles.chunkRow} onClick={() => onSelectMemory(memory)}>
+                  <span className={styles.lineRange}>Whole file</span>
+                  <span className={styles.chunkTitle}>{memory.title || memory.id.slice(0, 12)}</span>
+                  {memory.content && (
+                    <span className={styles.chunkPreview}>{memory.content.slice(0, 160)}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import type { Memory } from '../lib/api';
+import {
+  useRevisions,
+  revisionHash,
+  revisionKey,
+  updateMemoryWithHistory,
+  MAX_MEMORIES,
+  MAX_REVISIONS_PER_MEMORY,
+} from '../stores/revisions';
+import type { MemoryRevision } from '../stores/revisions';
+import { useToast } from './ToastContext';
+import { DiffView } from './DiffView';
+import styles from './MemoryHistory.module.css';
+
+const EMPTY: MemoryRevision[] = [];
+
+interface MemoryHistoryProps {
+  projectId: string;
+  memory: Memory;
+  canEdit?: boolean;
+  // Called after a revision has been restored
+  onRestored?: () => void;
+}
+
+export function MemoryHistory({ projectId, memory, canEdit = false, onRestored }: MemoryHistoryProps) {
+  const { showToast } = useToast();
+  const revisions = useRevisions((s) => s.revisions[revisionKey(projectId, memory.id)] ?? EMPTY);
+  const [left, setLeft] = useState<string | null>(null);
+  const [right, setRight] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  const currentHash = revisionHash(memory);
+
+  // Compare the previous version with the newest one unless the user picked others
+  const leftRevision = revisions.find((r) => r.hash === left) ?? revisions[1];
+  const rightRevision = revisions.find((r) => r.hash === right) ?? revisions[0];
+
+  const handleRestore = async (revision: MemoryRevision) => {
+    if (!confirm(`Restore the version from ${formatTime(revision)}? The current content will be replaced.`)) return;
+
+    setRestoring(revision.hash);
+    try {
+      await updateMemoryWithHistory(projectId, memory, {
+        content: revision.content,
+        title: revision.title,
+      });
+      showToast('Revision restored', 'success');
+      setLeft(null);
+      setRight(null);
+      onRestored?.();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to restore revision', 'error');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  // The server keeps no history, so say plainly what this can and cannot undo
+  const scopeNote = (
+    <p className={styles.note}>
+      History is kept only in this browser, for up to {MAX_REVISIONS_PER_MEMORY} versions of the{' '}
+      {MAX_MEMORIES} most recently changed memories. An overwrite by an agent or another browser can only be
+      undone if this browser saw the earlier version first.
+    </p>
+  );
+
+  if (revisions.length === 0) {
+    return (
+      <div className={styles.history}>
+        <p className={styles.empty}>No versions recorded yet.</p>
+        {scopeNote}
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.history}>
+      {scopeNote}
+
+      <div className={styles.revisionList}>
+        <div className={`${styles.revisionRow} ${styles.headerRow}`}>
+          <span title="Left side of the diff">A</span>
+          <span title="Right side of the diff">B</span>
+          <span>Version</span>
+          <span>Author</span>
+          <span>Updated</span>
+          <span />
+        </div>
+        {revisions.map((revision) => {
+          const isCurrent = revision.hash === currentHash;
+          return (
+            <div key={revision.hash} className={`${styles.revisionRow} ${isCurrent ? styles.current : ''}`}>
+              <input
+                type="radio"
+                name={`history-a-${memory.id}`}
+                checked={leftRevision?.hash === revision.hash}
+                onChange={() => setLeft(revision.hash)}
+              />
+              <input
+                type="radio"
+                name={`history-b-${memory.id}`}
+                checked={rightRevision?.hash === revision.hash}
+                onChange={() => setRight(revision.hash)}
+              />
+              <span className={styles.hash}>
+                {revision.hash.replace(/^local-/, '').slice(0, 8)}
+                {isCurrent && <span className={styles.currentBadge}>current</span>}
+              </span>
+              <span className={styles.author}>{revision.author || '—'}</span>
+              <span className={styles.time}>{formatTime(revision)}</span>
+              <span className={styles.actions}>
+                {canEdit && !isCurrent && (
+                  <button
+                    className={styles.restoreBtn}
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoring !== null}
+                  >
+                    {restoring === revision.hash ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {leftRevision && rightRevision && leftRevision !== rightRevision && (
+        <DiffView
+          left={leftRevision.content}
+          right={rightRevision.content}
+          leftLabel={`A · ${formatTime(leftRevision)}`}
+          rightLabel={`B · ${formatTime(rightRevision)}`}
+        />
+      )}
+    </div>
+  );
+}
+
+function formatTime(revision: MemoryRevision) {
+  return new Date(revision.updated_at || revision.recorded_at).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
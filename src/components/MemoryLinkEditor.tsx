@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import useSWR, { mutate } from 'swr';
+import { api } from '../lib/api';
+import type { Memory, MemoryLink, MemoryLinkType } from '../lib/api';
+import { useToast } from './ToastContext';
+import { MemoryPicker } from './MemoryPicker';
+import styles from './MemoryLinkEditor.module.css';
+
+const LINK_TYPES: MemoryLinkType[] = ['related', 'references', 'depends_on', 'modifies'];
+const LINK_TYPE_LABELS: Record<MemoryLinkType, string> = {
+  related: 'Related',
+  references: 'References',
+  depends_on: 'Depends on',
+  modifies: 'Modifies',
+};
+
+interface MemoryLinkEditorProps {
+  projectId: string;
+  memoryId: string;
+  // Known titles for linked memories (e.g. from the loaded context)
+  titles?: Record<string, string | undefined>;
+  canEdit?: boolean;
+  onNavigate?: (memoryId: string) => void;
+  // Called after any link is created, changed or deleted
+  onChange?: () => void;
+}
+
+export function MemoryLinkEditor({
+  projectId,
+  memoryId,
+  titles = {},
+  canEdit = false,
+  onNavigate,
+  onChange,
+}: MemoryLinkEditorProps) {
+  const { showToast } = useToast();
+  const linksKey = `memory-links-${projectId}-${memoryId}`;
+  const { data: links, isLoading } = useSWR<MemoryLink[]>(linksKey, () =>
+    api.listMemoryLinks(projectId, memoryId)
+  );
+
+  const [target, setTarget] = useState<Memory | null>(null);
+  const [newType, setNewType] = useState<MemoryLinkType>('references');
+  const [newContext, setNewContext] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [busyLinkId, setBusyLinkId] = useState<string | null>(null);
+  const [editingContext, setEditingContext] = useState<{ id: string; value: string } | null>(null);
+
+  // Only outgoing links are editable from this memory
+  const outgoing = (links || []).filter((l) => l.source_id === memoryId);
+
+  const refresh = () => {
+    mutate(linksKey);
+    onChange?.();
+  };
+
+  // Reports an existing link with the same target and type, other than `except`
+  const isDuplicateLink = (targetId: string, linkType: MemoryLinkType, except?: MemoryLink) => {
+    const duplicate = outgoing.some((l) => l !== except && l.target_id === targetId && l.link_type === linkType);
+    if (duplicate) showToast('This link already exists', 'error');
+    return duplicate;
+  };
+
+  const handleAdd = async () => {
+    if (!target || isDuplicateLink(target.id, newType)) return;
+
+    setSaving(true);
+    try {
+      await api.createMemoryLink(projectId, memoryId, {
+        target_id: target.id,
+        link_type: newType,
+        context: newContext.trim() || undefined,
+      });
+      showToast('Link created', 'success');
+      setTarget(null);
+      setNewContext('');
+      refresh();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to create link', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The links API has no update endpoint, so changes are applied by replacing
+  // the link. A new type is created before the original is removed; a context
+  // edit keeps the same source, target and type, so the original has to go first
+  // and is put back if the replacement cannot be created.
+  const replaceLink = async (link: MemoryLink, changes: { link_type?: MemoryLinkType; context?: string }) => {
+    const replacement = {
+      target_id: link.target_id,
+      link_type: changes.link_type ?? link.link_type,
+      context: (changes.context ?? link.context)?.trim() || undefined,
+    };
+    if (isDuplicateLink(replacement.target_id, replacement.link_type, link)) return;
+
+    setBusyLinkId(link.id);
+    try {
+      if (replacement.link_type !== link.link_type) {
+        await api.createMemoryLink(projectId, memoryId, replacement);
+        await api.deleteMemoryLink(projectId, memoryId, link.id);
+      } else {
+        await api.deleteMemoryLink(projectId, memoryId, link.id);
+        try {
+          await api.createMemoryLink(projectId, memoryId, replacement);
+        } catch (err) {
+          await api
+            .createMemoryLink(projectId, memoryId, {
+              target_id: link.target_id,
+              link_type: link.link_type,
+              context: link.context,
+            })
+            .catch(() => showToast('The original link could not be restored', 'error'));
+          throw err;
+        }
+      }
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update link', 'error');
+    } finally {
+      setBusyLinkId(null);
+      refresh();
+    }
+  };
+
+  const handleDelete = async (link: MemoryLink) => {
+    if (!confirm('Delete this link?')) return;
+
+    setBusyLinkId(link.id);
+    try {
+      await api.deleteMemoryLink(projectId, memoryId, link.id);
+      showToast('Link deleted', 'success');
+      refresh();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to delete link', 'error');
+    } finally {
+      setBusyLinkId(null);
+    }
+  };
+
+  const commitContext = (link: MemoryLink) => {
+    if (!editingContext || editingContext.id !== link.id) return;
+    const value = editingContext.value.trim();
+    setEditingContext(null);
+    if (value !== (link.context || '')) {
+      replaceLink(link, { context: value });
+    }
+  };
+
+  const targetLabel = (id: string) => titles[id] || id.slice(0, 12);
+
+  if (!canEdit && outgoing.length === 0) return null;
+
+  return (
+    <div className={styles.editor}>
+      {isLoading ? (
+        <div className={styles.empty}>Loading links...</div>
+      ) : outgoing.length === 0 ? (
+        <div className={styles.empty}>No links yet</div>
+      ) : (
+        <div className={styles.linkList}>
+          {outgoing.map((link) => {
+            const busy = busyLinkId === link.id;
+            const isEditingContext = editingContext?.id === link.id;
+            return (
+              <div key={link.id} className={`${styles.linkRow} ${busy ? styles.busy : ''}`}>
+                <div className={styles.linkMain}>
+                  <button
+                    type="button"
+                    className={styles.linkTarget}
+                    onClick={() => onNavigate?.(link.target_id)}
+                    title={link.target_id}
+                  >
+                    {targetLabel(link.target_id)}
+                  </button>
+                  {canEdit ? (
+                    <select
+                      className={styles.typeSelect}
+                      value={link.link_type}
+                      disabled={busy}
+                      onChange={(e) => replaceLink(link, { link_type: e.target.value as MemoryLinkType })}
+                    >
+                      {LINK_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {LINK_TYPE_LABELS[type]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className={styles.typeLabel}>{LINK_TYPE_LABELS[link.link_type] || link.link_type}</span>
+                  )}
+                  {canEdit && (
+                    <button
+                      type="button"
+                      className={styles.deleteBtn}
+                      onClick={() => handleDelete(link)}
+                      disabled={busy}
+                      title="Delete link"
+                    >
+                      <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M18 6L6 18M6 6l12 12" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+                {canEdit && isEditingContext ? (
+                  <input
+                    type="text"
+                    className={styles.contextInput}
+                    value={editingContext.value}
+                    autoFocus
+                    placeholder="Why does this link exist?"
+                    onChange={(e) => setEditingContext({ id: link.id, value: e.target.value })}
+                    onBlur={() => commitContext(link)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitContext(link);
+                      if (e.key === 'Escape') {
+                        e.stopPropagation();
+                        setEditingContext(null);
+                      }
+                    }}
+                  />
+                ) : canEdit ? (
+                  <button
+                    type="button"
+                    className={`${styles.linkContext} ${!link.context ? styles.placeholder : ''}`}
+                    onClick={() => setEditingContext({ id: link.id, value: link.context || '' })}
+                    disabled={busy}
+                  >
+                    {link.context || 'Add context...'}
+                  </button>
+                ) : (
+                  link.context && <span className={styles.linkContextText}>{link.context}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canEdit && (
+        <div className={styles.addForm}>
+          {target ? (
+            <div className={styles.selectedTarget}>
+              <span className={styles.selectedTitle}>
+                {target.title || target.file_path || target.id.slice(0, 12)}
+              </span>
+              <button type="button" className={styles.clearTargetBtn} onClick={() => setTarget(null)}>
+                Change
+              </button>
+            </div>
+          ) : (
+            <MemoryPicker projectId={projectId} onSelect={setTarget} excludeIds={[memoryId]} />
+          )}
+          <div className={styles.addRow}>
+            <select
+              className={styles.typeSelect}
+              value={newType}
+              onChange={(e) => setNewType(e.target.value as MemoryLinkType)}
+            >
+              {LINK_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {LINK_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              className={styles.contextInput}
+              placeholder="Context (optional)"
+              value={newContext}
+              onChange={(e) => setNewContext(e.target.value)}
+            />
+            <button
+              type="button"
+              className={styles.addBtn}
+              onClick={handleAdd}
+              disabled={!target || saving}
+            >
+              {saving ? 'Linking...' : 'Add Link'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
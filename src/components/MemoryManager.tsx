@@ -1,12 +1,18 @@
 import { useState } from 'react';
-import useSWR, { mutate } from 'swr';
 import { api } from '../lib/api';
 import type { Memory } from '../lib/api';
 import { useToast } from './ToastContext';
 import { useAuth } from '../stores/auth';
-import { Modal, SourceBadge } from './ui';
+import { updateMemoryWithHistory } from '../stores/revisions';
+import { Modal, SourceBadge, VirtualList } from './ui';
+import { useMemoryPages } from '../hooks/useMemoryPages';
+import { MarkdownEditor } from './MarkdownEditor';
+import { MEMORY_TEMPLATES, mergeTemplateTags } from '../lib/templates';
 import styles from './ProjectMemberManager.module.css';
 
+// Fixed row height of the virtualized list, card plus gap
+const ROW_HEIGHT = 124;
+
 interface MemoryManagerProps {
   projectId: string;
 }
@@ -24,28 +30,32 @@ export function MemoryManager({ projectId }: MemoryManagerProps) {
 
   const [formData, setFormData] = useState({
     title: '',
+    content: '',
     tags: '',
     author: '',
   });
 
   const [editFormData, setEditFormData] = useState({
     title: '',
+    content: '',
     tags: '',
     author: '',
   });
 
-  // Fetch memories
-  const { data: memoriesData, isLoading } = useSWR(
-    projectId ? `admin/memories/${projectId}` : null,
-    () => projectId ? api.listMemories(projectId, { limit: 50 }) : Promise.resolve({ memories: [], total: 0 })
-  );
-
-  const memories = memoriesData?.memories || [];
+  // Fetch memories a page at a time as the list scrolls
+  const memoryPages = useMemoryPages(projectId, {});
+  const total = memoryPages.total;
 
-  const filteredMemories = memories.filter(m =>
-    m.title?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    m.author?.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  // Search narrows the memories loaded so far
+  const query = searchQuery.trim().toLowerCase();
+  const filteredMemories = query
+    ? memoryPages.loaded().filter(m =>
+      m.title?.toLowerCase().includes(query) ||
+      m.author?.toLowerCase().includes(query)
+    )
+    : null;
+  const count = filteredMemories ? filteredMemories.length : total ?? 0;
+  const memoryAt = (index: number) => filteredMemories ? filteredMemories[index] : memoryPages.get(index);
 
   const handleCreate = async () => {
     if (!formData.title.trim()) {
@@ -57,14 +67,15 @@ export function MemoryManager({ projectId }: MemoryManagerProps) {
     try {
       await api.createMemory(projectId, {
         title: formData.title,
+        content: formData.content,
         author: formData.author || undefined,
         tags: formData.tags ? formData.tags.split(',').map(t => t.trim()).filter(Boolean) : undefined,
         source: 'manual',
       });
       showToast('Memory created successfully', 'success');
-      setFormData({ title: '', tags: '', author: '' });
+      setFormData({ title: '', content: '', tags: '', author: '' });
       setIsCreateOpen(false);
-      mutate(`admin/memories/${projectId}`);
+      memoryPages.refresh();
     } catch (err) {
       showToast(err instanceof Error ? err.message : 'Failed to create memory', 'error');
     } finally {
@@ -80,15 +91,17 @@ export function MemoryManager({ projectId }: MemoryManagerProps) {
 
     setIsUpdating(true);
     try {
-      await api.updateMemory(projectId, selectedMemory.id, {
+      await updateMemoryWithHistory(projectId, selectedMemory, {
         title: editFormData.title,
+        // Only send content when it changed so unchanged memories are not re-embedded
+        content: editFormData.content !== (selectedMemory.content || '') ? editFormData.content : undefined,
         author: editFormData.author || undefined,
         tags: editFormData.tags ? editFormData.tags.split(',').map(t => t.trim()).filter(Boolean) : undefined,
       });
       showToast('Memory updated successfully', 'success');
       setIsEditOpen(false);
       setSelectedMemory(null);
-      mutate(`admin/memories/${projectId}`);
+      memoryPages.refresh();
     } catch (err) {
       showToast(err instanceof Error ? err.message : 'Failed to update memory', 'error');
     } finally {
@@ -102,7 +115,7 @@ export function MemoryManager({ projectId }: MemoryManagerProps) {
     try {
       await api.deleteMemory(projectId, memoryId);
       showToast('Memory deleted successfully', 'success');
-      mutate(`admin/memories/${projectId}`);
+      memoryPages.refresh();
     } catch (err) {
       showToast(err instanceof Error ? err.message : 'Failed to delete memory', 'error');
     }
@@ -112,12 +125,94 @@ export function MemoryManager({ projectId }: MemoryManagerProps) {
     setSelectedMemory(memory);
     setEditFormData({
       title: memory.title || '',
+      content: memory.content || '',
       tags: memory.tags?.join(', ') || '',
       author: memory.author || '',
     });
     setIsEditOpen(true);
   };
 
+  const renderRow = (index: number) => {
+    const memory = memoryAt(index);
+    if (!memory) {
+      return (
+        <div style={{ height: 'calc(100% - 0.75rem)', border: '1px solid var(--border)', borderRadius: 'var(--radius-md)', backgroundColor: 'var(--surface)', opacity: 0.5 }} />
+      );
+    }
+    return (
+      <div
+        style={{
+          height: 'calc(100% - 0.75rem)',
+          boxSizing: 'border-box',
+          overflow: 'hidden',
+          padding: '1rem',
+          border: '1px solid var(--border)',
+          borderRadius: 'var(--radius-md)',
+          backgroundColor: 'var(--surface)',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}
+      >
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.25rem', alignItems: 'center' }}>
+            <SourceBadge source={memory.source} />
+            <h4 style={{ margin: 0, color: 'var(--text-primary)' }}>
+              {memory.title || 'Untitled'}
+            </h4>
+          </div>
+          <p style={{ margin: '0 0 0.5rem 0', color: 'var(--text-secondary)', fontSize: '0.9rem' }}>
+            Author: {memory.author || '(none)'} • Created: {new Date(memory.created_at).toLocaleDateString()}
+          </p>
+          {memory.tags && memory.tags.length > 0 && (
+            <div style={{ display: 'flex', gap: '0.25rem', flexWrap: 'wrap' }}>
+              {memory.tags.slice(0, 3).map((tag, i) => (
+                <span key={i} style={{ fontSize: '0.8rem', backgroundColor: 'var(--elevated)', padding: '0.2rem 0.5rem', borderRadius: 'var(--radius-sm)', color: 'var(--text-secondary)' }}>
+                  {tag}
+                </span>
+              ))}
+              {memory.tags.length > 3 && (
+                <span style={{ fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
+                  +{memory.tags.length - 3} more
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button
+            onClick={() => handleEdit(memory)}
+            style={{
+              padding: '0.4rem 0.8rem',
+              backgroundColor: 'var(--elevated)',
+              border: '1px solid var(--border)',
+              borderRadius: 'var(--radius-sm)',
+              cursor: 'pointer',
+              fontSize: '0.85rem',
+              color: 'var(--text-primary)',
+            }}
+          >
+            Edit
+          </button>
+          <button
+            onClick={() => handleDelete(memory.id)}
+            style={{
+              padding: '0.4rem 0.8rem',
+              backgroundColor: 'var(--status-error)',
+              color: 'white',
+              border: 'none',
+              borderRadius: 'var(--radius-sm)',
+              cursor: 'pointer',
+              fontSize: '0.85rem',
+            }}
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   if (!isAdmin) {
     return (
       <div className={styles.container}>
@@ -147,7 +242,7 @@ export function MemoryManager({ projectId }: MemoryManagerProps) {
         />
         <button
           onClick={() => {
-            setFormData({ title: '', tags: '', author: '' });
+            setFormData({ title: '', content: '', tags: '', author: '' });
             setIsCreateOpen(true);
           }}
           style={{
@@ -164,92 +259,73 @@ export function MemoryManager({ projectId }: MemoryManagerProps) {
         </button>
       </div>
 
-      {isLoading ? (
+      {memoryPages.error && total === null ? (
+        <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--status-error)' }}>
+          {memoryPages.error.message}
+        </div>
+      ) : total === null ? (
         <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--text-secondary)' }}>
           Loading memories...
         </div>
-      ) : filteredMemories.length === 0 ? (
+      ) : count === 0 ? (
         <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--text-secondary)' }}>
           No memories found
         </div>
       ) : (
-        <div style={{ display: 'grid', gap: '0.75rem' }}>
-          {filteredMemories.map((memory) => (
-            <div
-              key={memory.id}
+        <>
+          <VirtualList
+            key={filteredMemories ? 'search' : 'all'}
+            scrollKey={filteredMemories ? undefined : `admin-memories-${projectId}`}
+            count={count}
+            rowHeight={ROW_HEIGHT}
+            renderRow={renderRow}
+            onRangeChange={filteredMemories ? undefined : memoryPages.ensureRange}
+            className={styles.memoryList}
+          />
+          {filteredMemories && total !== null && (
+            <p style={{ marginTop: '0.5rem', fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
+              Searched {memoryPages.loaded().length.toLocaleString()} of {total.toLocaleString()} memories loaded so far; scroll the full list to load more.
+            </p>
+          )}
+        </>
+      )}
+
+      {/* Create Modal */}
+      <Modal isOpen={isCreateOpen} onClose={() => setIsCreateOpen(false)} title="Create Memory" wide>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500 }}>
+              Template
+            </label>
+            <select
+              value=""
+              onChange={(e) => {
+                const template = MEMORY_TEMPLATES.find((t) => t.id === e.target.value);
+                if (!template) return;
+                if (formData.content.trim() && !confirm('Replace the current content with this template?')) return;
+                setFormData({
+                  ...formData,
+                  title: formData.title.trim() ? formData.title : template.title,
+                  content: template.content,
+                  tags: mergeTemplateTags(formData.tags, template),
+                });
+              }}
               style={{
-                padding: '1rem',
+                width: '100%',
+                padding: '0.5rem',
                 border: '1px solid var(--border)',
                 borderRadius: 'var(--radius-md)',
-                backgroundColor: 'var(--surface)',
-                display: 'flex',
-                justifyContent: 'space-between',
-                alignItems: 'center',
+                backgroundColor: 'var(--elevated)',
+                color: 'var(--text-primary)',
+                boxSizing: 'border-box',
               }}
             >
-              <div style={{ flex: 1, minWidth: 0 }}>
-                <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.25rem', alignItems: 'center' }}>
-                  <SourceBadge source={memory.source} />
-                  <h4 style={{ margin: 0, color: 'var(--text-primary)' }}>
-                    {memory.title || 'Untitled'}
-                  </h4>
-                </div>
-                <p style={{ margin: '0 0 0.5rem 0', color: 'var(--text-secondary)', fontSize: '0.9rem' }}>
-                  Author: {memory.author || '(none)'} • Created: {new Date(memory.created_at).toLocaleDateString()}
-                </p>
-                {memory.tags && memory.tags.length > 0 && (
-                  <div style={{ display: 'flex', gap: '0.25rem', flexWrap: 'wrap' }}>
-                    {memory.tags.slice(0, 3).map((tag, i) => (
-                      <span key={i} style={{ fontSize: '0.8rem', backgroundColor: 'var(--elevated)', padding: '0.2rem 0.5rem', borderRadius: 'var(--radius-sm)', color: 'var(--text-secondary)' }}>
-                        {tag}
-                      </span>
-                    ))}
-                    {memory.tags.length > 3 && (
-                      <span style={{ fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
-                        +{memory.tags.length - 3} more
-                      </span>
-                    )}
-                  </div>
-                )}
-              </div>
-              <div style={{ display: 'flex', gap: '0.5rem' }}>
-                <button
-                  onClick={() => handleEdit(memory)}
-                  style={{
-                    padding: '0.4rem 0.8rem',
-                    backgroundColor: 'var(--elevated)',
-                    border: '1px solid var(--border)',
-                    borderRadius: 'var(--radius-sm)',
-                    cursor: 'pointer',
-                    fontSize: '0.85rem',
-                    color: 'var(--text-primary)',
-                  }}
-                >
-                  Edit
-                </button>
-                <button
-                  onClick={() => handleDelete(memory.id)}
-                  style={{
-                    padding: '0.4rem 0.8rem',
-                    backgroundColor: 'var(--status-error)',
-                    color: 'white',
-                    border: 'none',
-                    borderRadius: 'var(--radius-sm)',
-                    cursor: 'pointer',
-                    fontSize: '0.85rem',
-                  }}
-                >
-                  Delete
-                </button>
-              </div>
-            </div>
-          ))}
-        </div>
-      )}
-
-      {/* Create Modal */}
-      <Modal isOpen={isCreateOpen} onClose={() => setIsCreateOpen(false)} title="Create Memory">
-        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+              <option value="">Start from a template...</option>
+              {MEMORY_TEMPLATES.map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          </div>
           <div>
             <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500 }}>
               Title *
@@ -270,6 +346,16 @@ export function MemoryManager({ projectId }: MemoryManagerProps) {
               }}
             />
           </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500 }}>
+              Content
+            </label>
+            <MarkdownEditor
+              value={formData.content}
+              onChange={(content) => setFormData({ ...formData, content })}
+              placeholder="Memory content (Markdown)"
+            />
+          </div>
           <div>
             <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500 }}>
               Author
@@ -330,7 +416,7 @@ export function MemoryManager({ projectId }: MemoryManagerProps) {
       </Modal>
 
       {/* Edit Modal */}
-      <Modal isOpen={isEditOpen} onClose={() => setIsEditOpen(false)} title="Edit Memory">
+      <Modal isOpen={isEditOpen} onClose={() => setIsEditOpen(false)} title="Edit Memory" wide>
         {selectedMemory && (
           <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
             <div>
@@ -353,6 +439,18 @@ export function MemoryManager({ projectId }: MemoryManagerProps) {
                 }}
               />
             </div>
+            {selectedMemory.source !== 'file' && (
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500 }}>
+                  Content
+                </label>
+                <MarkdownEditor
+                  value={editFormData.content}
+                  onChange={(content) => setEditFormData({ ...editFormData, content })}
+                  placeholder="Memory content (Markdown)"
+                />
+              </div>
+            )}
             <div>
               <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500 }}>
                 Author
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../lib/api';
+import type { Memory } from '../lib/api';
+import { useToast } from './ToastContext';
+import styles from './MemoryMetadataEditor.module.css';
+
+interface MemoryMetadataEditorProps {
+  projectId: string;
+  memory: Memory;
+  canEdit?: boolean;
+  // Called after keywords or context are saved
+  onChange?: () => void;
+}
+
+function parseKeywords(input: string): string[] {
+  return [...new Set(input.split(',').map((k) => k.trim()).filter(Boolean))];
+}
+
+// Order-insensitive, in case the server sorts keywords
+function sameKeywords(a: string[], b: string[]) {
+  const set = new Set(a);
+  return set.size === new Set(b).size && b.every((k) => set.has(k));
+}
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function MemoryMetadataEditor({ projectId, memory, canEdit = false, onChange }: MemoryMetadataEditorProps) {
+  const { showToast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [keywords, setKeywords] = useState('');
+  const [context, setContext] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
+  const [queued, setQueued] = useState(false);
+
+  const startEditing = () => {
+    setKeywords((memory.keywords || []).join(', '));
+    setContext(memory.context || '');
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const update = { keywords: parseKeywords(keywords), context: context.trim() };
+      const saved = await api.updateMemory(projectId, memory.id, update);
+      // Older servers drop fields they do not know, so check they were kept
+      if (!sameKeywords(saved?.keywords || [], update.keywords) || (saved?.context || '') !== update.context) {
+        showToast('The server did not save keywords and context; it may not support editing them', 'error');
+        return;
+      }
+      showToast('Metadata updated', 'success');
+      setEditing(false);
+      onChange?.();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update metadata', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!confirm('Regenerate keywords and context? Manual edits to them will be replaced.')) return;
+    setRegenerating(true);
+    try {
+      await api.regenerateMemoryMetadata(projectId, { memory_ids: [memory.id] });
+      setQueued(true);
+      showToast('Regeneration queued', 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to queue regeneration', 'error');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const hasKeywords = memory.keywords && memory.keywords.length > 0;
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.header}>
+        <span className={styles.generated}>
+          {memory.metadata_generated_at
+            ? `Generated ${formatDate(memory.metadata_generated_at)}`
+            : 'Generation time not reported by the server'}
+        </span>
+        {canEdit && !editing && (
+          <div className={styles.headerActions}>
+            <button className={styles.actionBtn} onClick={startEditing}>
+              Edit
+            </button>
+            <button className={styles.actionBtn} onClick={handleRegenerate} disabled={regenerating}>
+              {regenerating ? 'Queuing...' : 'Regenerate'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {queued && (
+        <p className={styles.notice}>
+          Regeneration queued; new values appear once the job finishes. <Link to="/jobs">View jobs</Link>
+        </p>
+      )}
+
+      {editing ? (
+        <div className={styles.form}>
+          <label className={styles.label} htmlFor={`keywords-${memory.id}`}>
+            Keywords
+          </label>
+          <input
+            id={`keywords-${memory.id}`}
+            className={styles.input}
+            value={keywords}
+            onChange={(e) => setKeywords(e.target.value)}
+            placeholder="keyword1, keyword2 (comma-separated)"
+            autoFocus
+          />
+          <label className={styles.label} htmlFor={`context-${memory.id}`}>
+            Context
+          </label>
+          <textarea
+            id={`context-${memory.id}`}
+            className={styles.textarea}
+            value={context}
+            onChange={(e) => setContext(e.target.value)}
+            placeholder="What this memory is about and where it applies"
+            rows={4}
+          />
+          <div className={styles.formActions}>
+            <button className={styles.cancelBtn} onClick={() => setEditing(false)} disabled={saving}>
+              Cancel
+            </button>
+            <button className={styles.saveBtn} onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {hasKeywords ? (
+            <div className={styles.keywords}>
+              {memory.keywords!.map((keyword, i) => (
+                <span key={i} className={styles.keyword}>
+                  {keyword}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className={styles.empty}>No keywords</p>
+          )}
+          {memory.context ? <p className={styles.context}>{memory.context}</p> : <p className={styles.empty}>No context</p>}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { api } from '../lib/api';
+import type { Memory } from '../lib/api';
+import { SourceBadge } from './ui';
+import styles from './MemoryPicker.module.css';
+
+interface MemoryPickerProps {
+  projectId: string;
+  onSelect: (memory: Memory) => void;
+  // Memory IDs that cannot be picked (e.g. the memory being edited)
+  excludeIds?: string[];
+  placeholder?: string;
+}
+
+export function MemoryPicker({
+  projectId,
+  onSelect,
+  excludeIds = [],
+  placeholder = 'Search memories to link...',
+}: MemoryPickerProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Memory[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounce semantic search while the user types
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setSearching(true);
+      api
+        .searchMemories(projectId, trimmed, { limit: 8 })
+        .then((data) => {
+          if (!cancelled) {
+            setResults(data.results.map((r) => r.memory));
+            setError(null);
+          }
+        })
+        .catch((err) => {
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Search failed');
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, projectId]);
+
+  const visibleResults = results.filter((m) => !excludeIds.includes(m.id));
+
+  return (
+    <div className={styles.picker}>
+      <input
+        type="text"
+        className={styles.input}
+        placeholder={placeholder}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+      {query.trim() && (
+        <div className={styles.results}>
+          {searching ? (
+            <div className={styles.status}>Searching...</div>
+          ) : error ? (
+            <div className={styles.error}>{error}</div>
+          ) : visibleResults.length === 0 ? (
+            <div className={styles.status}>No matching memories</div>
+          ) : (
+            visibleResults.map((memory) => (
+              <button
+                key={memory.id}
+                type="button"
+                className={styles.result}
+                onClick={() => {
+                  onSelect(memory);
+                  setQuery('');
+                  setResults([]);
+                }}
+              >
+                <span className={styles.resultTitle}>
+                  {memory.title || memory.file_path || memory.id.slice(0, 12)}
+                </span>
+                <SourceBadge source={memory.source} />
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { Memory } from '../lib/api';
+import { relocateMemories } from '../lib/relocate';
+import type { RelocateMode, RelocateResult } from '../lib/relocate';
+import { memoryPath, memoryViewPath } from '../lib/memoryView';
+import { Modal, ProjectSelector } from './ui';
+import styles from './MemoryRelocate.module.css';
+
+interface MemoryRelocateProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  memories: Memory[];
+  initialMode?: RelocateMode;
+  // Called once the transfer finishes, while its summary is shown
+  onDone?: (result: RelocateResult) => void;
+}
+
+function memoryLabel(memory: Memory) {
+  return memory.title || memory.file_path || memory.id.slice(0, 12);
+}
+
+export function MemoryRelocate({ isOpen, onClose, projectId, memories, initialMode = 'copy', onDone }: MemoryRelocateProps) {
+  const [mode, setMode] = useState<RelocateMode>(initialMode);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [carryLinks, setCarryLinks] = useState(true);
+  const [progress, setProgress] = useState<{ phase: string; done: number; total: number } | null>(null);
+  const [result, setResult] = useState<RelocateResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const running = progress !== null;
+  const count = memories.length;
+  const noun = count === 1 ? 'memory' : 'memories';
+
+  const handleClose = () => {
+    if (running) return;
+    setMode(initialMode);
+    setTargetId(null);
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleRun = async () => {
+    if (!targetId || count === 0) return;
+    if (mode === 'move' && !confirm(`Move ${count} ${noun}? The originals are deleted once copied.`)) return;
+
+    setError(null);
+    setProgress({ phase: 'Starting', done: 0, total: count });
+    try {
+      const next = await relocateMemories(projectId, targetId, memories, {
+        mode,
+        carryLinks,
+        onProgress: (phase, { done, total }) => setProgress({ phase, done, total }),
+      });
+      setResult(next);
+      onDone?.(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transfer failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const problems = result
+    ? [
+        ...result.skipped.map((f) => ({ title: memoryLabel(f.item), error: f.error })),
+        ...result.failed.map((f) => ({ title: memoryLabel(f.item), error: f.error })),
+        ...result.kept.map((f) => ({ title: memoryLabel(f.item), error: f.error })),
+        ...result.linksFailed.map((message) => ({ title: 'Link', error: message })),
+      ]
+    : [];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={result ? 'Transfer summary' : `${mode === 'move' ? 'Move' : 'Copy'} ${count} ${noun} to another project`}
+      footer={
+        <div className={styles.modalActions}>
+          <button className={styles.cancelBtn} onClick={handleClose} disabled={running}>
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          {!result && (
+            <button className={styles.submitBtn} onClick={handleRun} disabled={running || !targetId || count === 0}>
+              {running ? 'Working...' : mode === 'move' ? 'Move' : 'Copy'}
+            </button>
+          )}
+        </div>
+      }
+    >
+      <div className={styles.body}>
+        {!result && (
+          <>
+            <div className={styles.modeToggle}>
+              {(['copy', 'move'] as const).map((m) => (
+                <button
+                  key={m}
+                  className={`${styles.modeBtn} ${mode === m ? styles.active : ''}`}
+                  onClick={() => setMode(m)}
+                  disabled={running}
+                >
+                  {m === 'copy' ? 'Copy' : 'Move'}
+                </button>
+              ))}
+            </div>
+
+            <div className={styles.field}>
+              <span className={styles.label}>Target project</span>
+              <ProjectSelector
+                value={targetId}
+                onChange={setTargetId}
+                placeholder="Choose a project..."
+                clearable={false}
+                excludeId={projectId}
+              />
+            </div>
+
+            <label className={styles.checkbox}>
+              <input
+                type="checkbox"
+                checked={carryLinks}
+                onChange={(e) => setCarryLinks(e.target.checked)}
+                disabled={running}
+              />
+              Carry links between the transferred memories
+            </label>
+
+            <p className={styles.hint}>
+              Title, tags, author and content are kept; the copies get new ids.
+              {mode === 'move' && ' Originals are deleted once copied, except where links could not be carried.'}
+              {memories.some((m) => m.source === 'file') && ' File memories are skipped; index the target project instead.'}
+            </p>
+          </>
+        )}
+
+        {progress && (
+          <div className={styles.progress}>
+            <div className={styles.progressBar}>
+              <div
+                className={styles.progressFill}
+                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <span className={styles.progressText}>
+              {progress.phase} {progress.done} / {progress.total}
+            </span>
+          </div>
+        )}
+
+        {error && <p className={styles.error}>{error}</p>}
+
+        {result && targetId && (
+          <div className={styles.report}>
+            <p className={styles.reportSummary}>
+              <span className={styles.ok}>
+                {result.created.length} {result.mode === 'move' ? 'copied' : 'created'}
+              </span>
+              {result.mode === 'move' && <span> · {result.deleted.length} originals deleted</span>}
+              {carryLinks && (
+                <span>
+                  {' '}· {result.linksCarried} links carried
+                  {result.linksDropped > 0 && `, ${result.linksDropped} left behind`}
+                </span>
+              )}
+              {problems.length > 0 && <span className={styles.fail}> · {problems.length} {problems.length === 1 ? 'issue' : 'issues'}</span>}
+            </p>
+            {problems.length > 0 && (
+              <ul className={styles.failureList}>
+                {problems.map((problem, i) => (
+                  <li key={i} className={styles.failureItem}>
+                    <span className={styles.failureTitle}>{problem.title}</span>
+                    <span className={styles.failureError}>{problem.error}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {result.created.length > 0 && (
+              <Link
+                className={styles.targetLink}
+                to={
+                  result.created.length === 1
+                    ? memoryPath(targetId, result.created[0].to.id)
+                    : memoryViewPath(targetId, '')
+                }
+                onClick={handleClose}
+              >
+                Open in target project
+              </Link>
+            )}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
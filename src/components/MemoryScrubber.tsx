@@ -0,0 +1,88 @@
+import { useRef, useState } from 'react';
+import type { SortField } from '../lib/memoryView';
+import styles from './MemoryScrubber.module.css';
+
+interface MemoryScrubberProps {
+  total: number;
+  // Index of the first visible memory
+  position: number;
+  sortBy: SortField;
+  // Where the memory at an index falls in the sort order, if it is loaded
+  labelAt: (index: number) => string | undefined;
+  onScrub: (index: number) => void;
+  // Jump to a YYYY-MM-DD date, or a title prefix when sorted by title
+  onJump: (target: string) => void;
+  jumping?: boolean;
+}
+
+export function MemoryScrubber({ total, position, sortBy, labelAt, onScrub, onJump, jumping = false }: MemoryScrubberProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [target, setTarget] = useState('');
+
+  const indexAt = (clientY: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (clientY - rect.top) / rect.height));
+    return Math.min(total - 1, Math.floor(fraction * total));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const index = indexAt(e.clientY);
+    setDragIndex(index);
+    onScrub(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragIndex === null) return;
+    const index = indexAt(e.clientY);
+    if (index === dragIndex) return;
+    setDragIndex(index);
+    onScrub(index);
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (target.trim()) onJump(target.trim());
+  };
+
+  const shown = dragIndex ?? position;
+  const thumbTop = total > 1 ? (shown / (total - 1)) * 100 : 0;
+  const label = labelAt(shown);
+
+  return (
+    <div className={styles.scrubber}>
+      <form className={styles.jump} onSubmit={handleSubmit}>
+        <input
+          type={sortBy === 'title' ? 'text' : 'date'}
+          className={styles.jumpInput}
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder={sortBy === 'title' ? 'Jump to title...' : undefined}
+          title={sortBy === 'title' ? 'Jump to the first title starting with this text' : 'Jump to a date'}
+        />
+        <button type="submit" className={styles.jumpBtn} disabled={jumping || !target.trim()}>
+          {jumping ? '...' : 'Go'}
+        </button>
+      </form>
+
+      <div
+        ref={trackRef}
+        className={`${styles.track} ${dragIndex !== null ? styles.dragging : ''}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragIndex(null)}
+        onPointerCancel={() => setDragIndex(null)}
+        title="Drag to scrub through the list"
+      >
+        <div className={styles.thumb} style={{ top: `${thumbTop}%` }}>
+          <span className={styles.thumbLabel}>{label ?? '…'}</span>
+        </div>
+      </div>
+
+      <span className={styles.position}>
+        {(shown + 1).toLocaleString()} / {total.toLocaleString()}
+      </span>
+    </div>
+  );
+}
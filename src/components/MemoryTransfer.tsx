@@ -0,0 +1,400 @@
+import { useState } from 'react';
+import { mutate } from 'swr';
+import { api } from '../lib/api';
+import type { Memory, MemoryLink, MemorySource, Project } from '../lib/api';
+import { runBatch } from '../lib/batch';
+import type { BatchFailure } from '../lib/batch';
+import { downloadBlob } from '../lib/files';
+import {
+  buildExportEntries,
+  toJsonl,
+  toMarkdownBundle,
+  parseImportFile,
+  sha256Hex,
+} from '../lib/transfer';
+import type { ExportFormat, ExportedMemory } from '../lib/transfer';
+import { useAuth } from '../stores/auth';
+import styles from './MemoryTransfer.module.css';
+
+type ImportStatus = 'new' | 'duplicate' | 'skipped';
+
+interface ImportRow {
+  entry: ExportedMemory;
+  status: ImportStatus;
+  // Existing memory with the same content (duplicates only)
+  existingId?: string;
+  reason?: string;
+}
+
+interface ImportReport {
+  created: number;
+  failed: BatchFailure<ExportedMemory>[];
+  linksCreated: number;
+  linksSkipped: number;
+  linksFailed: number;
+}
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  skipped: 'Skipped',
+};
+
+interface MemoryTransferProps {
+  project: Project;
+}
+
+export function MemoryTransfer({ project }: MemoryTransferProps) {
+  const { user } = useAuth();
+  const isAdmin = user?.roles?.includes('admin') ?? false;
+
+  // Export state
+  const [format, setFormat] = useState<ExportFormat>('jsonl');
+  const [exportSource, setExportSource] = useState<MemorySource | ''>('');
+  const [includeLinks, setIncludeLinks] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Import state
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [preparing, setPreparing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importProgress, setImportProgress] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setExportError(null);
+    try {
+      const memories = await api.listAllMemories(
+        project.id,
+        { source: exportSource || undefined, sort_by: 'created_at', sort_dir: 'asc' },
+        (loaded, total) => setExportStatus(`Loading memories ${loaded} / ${total}`)
+      );
+
+      const links: Record<string, MemoryLink[]> = {};
+      if (includeLinks && memories.length > 0) {
+        await runBatch(
+          memories,
+          async (memory) => {
+            links[memory.id] = (await api.listMemoryLinks(project.id, memory.id))
+              .filter((l) => l.source_id === memory.id);
+          },
+          { onProgress: ({ done, total }) => setExportStatus(`Loading links ${done} / ${total}`) }
+        );
+      }
+
+      const entries = buildExportEntries(memories, links);
+      const date = new Date().toISOString().split('T')[0];
+      if (format === 'jsonl') {
+        downloadBlob(new Blob([toJsonl(entries)], { type: 'application/x-ndjson' }), `${project.slug}-memories-${date}.jsonl`);
+      } else {
+        downloadBlob(new Blob([toMarkdownBundle(entries)], { type: 'text/markdown' }), `${project.slug}-memories-${date}.md`);
+      }
+      setExportStatus(`Exported ${entries.length} memories`);
+    } catch (err) {
+      setExportStatus(null);
+      setExportError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setRows(null);
+    setReport(null);
+    setImportError(null);
+    setPreparing(true);
+
+    try {
+      const entries = parseImportFile(file.name, await file.text());
+      if (entries.length === 0) throw new Error('No memories found in file');
+
+      // Existing content hashes across the whole project
+      const existing = await api.listAllMemories(project.id);
+      const existingByHash = new Map<string, string>();
+      for (const memory of existing) {
+        if (memory.content_hash) existingByHash.set(memory.content_hash, memory.id);
+      }
+
+      const seenInFile = new Set<string>();
+      const preview: ImportRow[] = [];
+      for (const entry of entries) {
+        if (entry.source !== 'manual') {
+          preview.push({ entry, status: 'skipped', reason: `${entry.source} memories are recreated by indexing` });
+          continue;
+        }
+        if (!entry.content?.trim()) {
+          preview.push({ entry, status: 'skipped', reason: 'No content' });
+          continue;
+        }
+        // Hash the content being imported: a content_hash in the front-matter goes
+        // stale as soon as the body is edited by hand
+        const hash = await sha256Hex(entry.content);
+        const key = hash ?? entry.content;
+        if (hash && existingByHash.has(hash)) {
+          preview.push({ entry, status: 'duplicate', existingId: existingByHash.get(hash) });
+        } else if (seenInFile.has(key)) {
+          preview.push({ entry, status: 'duplicate', reason: 'Repeated in file' });
+        } else {
+          preview.push({ entry, status: 'new' });
+        }
+        seenInFile.add(key);
+      }
+      setRows(preview);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!rows) return;
+    const toCreate = rows.filter((r) => r.status === 'new');
+    if (!confirm(`Import ${toCreate.length} memories into ${project.name}?`)) return;
+
+    setImporting(true);
+    setImportError(null);
+    try {
+      // Old id -> id in this project, so imported links can be re-pointed
+      const idMap = new Map<string, string>();
+      for (const row of rows) {
+        if (row.status === 'duplicate' && row.existingId) idMap.set(row.entry.id, row.existingId);
+      }
+
+      const created = await runBatch(
+        toCreate,
+        async ({ entry }) => {
+          const memory: Memory = await api.createMemory(project.id, {
+            title: entry.title,
+            content: entry.content,
+            tags: entry.tags,
+            author: entry.author,
+            source: 'manual',
+          });
+          if (memory?.id) idMap.set(entry.id, memory.id);
+          return memory;
+        },
+        {
+          concurrency: 2,
+          onProgress: ({ done, total }) => setImportProgress(`Creating memories ${done} / ${total}`),
+        }
+      );
+
+      // Recreate links from newly created memories whose targets are present here
+      const pendingLinks: Array<{ sourceId: string; targetId: string; link: NonNullable<ExportedMemory['links_out']>[number] }> = [];
+      let linksSkipped = 0;
+      for (const { item } of created.succeeded) {
+        const sourceId = idMap.get(item.entry.id);
+        for (const link of item.entry.links_out || []) {
+          const targetId = idMap.get(link.target_id);
+          if (sourceId && targetId) {
+            pendingLinks.push({ sourceId, targetId, link });
+          } else {
+            linksSkipped++;
+          }
+        }
+      }
+
+      const linkResult = await runBatch(
+        pendingLinks,
+        ({ sourceId, targetId, link }) =>
+          api.createMemoryLink(project.id, sourceId, {
+            target_id: targetId,
+            link_type: link.link_type,
+            context: link.context,
+          }),
+        { onProgress: ({ done, total }) => setImportProgress(`Creating links ${done} / ${total}`) }
+      );
+
+      setReport({
+        created: created.succeeded.length,
+        failed: created.failed.map((f) => ({ item: f.item.entry, error: f.error })),
+        linksCreated: linkResult.succeeded.length,
+        linksSkipped,
+        linksFailed: linkResult.failed.length,
+      });
+      setRows(null);
+      mutate(`project-status-${project.id}`);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setImporting(false);
+      setImportProgress(null);
+    }
+  };
+
+  const counts = rows
+    ? {
+        new: rows.filter((r) => r.status === 'new').length,
+        duplicate: rows.filter((r) => r.status === 'duplicate').length,
+        skipped: rows.filter((r) => r.status === 'skipped').length,
+      }
+    : null;
+
+  return (
+    <div className={styles.container}>
+      {/* Export */}
+      <div className={styles.card}>
+        <div className={styles.cardHeader}>
+          <span className={styles.cardTitle}>Export Memories</span>
+        </div>
+        <div className={styles.cardContent}>
+          <p className={styles.description}>
+            Download this project's memories as JSONL (full records plus links) or as a Markdown
+            bundle with YAML front-matter, for backups or migrating to another Fold instance.
+          </p>
+
+          <div className={styles.optionRow}>
+            <span className={styles.label}>Format</span>
+            <div className={styles.chips}>
+              <button
+                className={`${styles.chip} ${format === 'jsonl' ? styles.active : ''}`}
+                onClick={() => setFormat('jsonl')}
+              >
+                JSONL
+              </button>
+              <button
+                className={`${styles.chip} ${format === 'markdown' ? styles.active : ''}`}
+                onClick={() => setFormat('markdown')}
+              >
+                Markdown bundle
+              </button>
+            </div>
+          </div>
+
+          <div className={styles.optionRow}>
+            <span className={styles.label}>Source</span>
+            <select
+              className={styles.select}
+              value={exportSource}
+              onChange={(e) => setExportSource(e.target.value as MemorySource | '')}
+            >
+              <option value="">All memories</option>
+              <option value="manual">Manual only</option>
+              <option value="generated">Generated only</option>
+              <option value="file">File only</option>
+            </select>
+          </div>
+
+          <label className={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={includeLinks}
+              onChange={(e) => setIncludeLinks(e.target.checked)}
+            />
+            Include links (one extra request per memory)
+          </label>
+
+          {exportError && <div className={styles.error}>{exportError}</div>}
+
+          <div className={styles.actions}>
+            {exportStatus && <span className={styles.status}>{exportStatus}</span>}
+            <button className={styles.primaryBtn} onClick={handleExport} disabled={exporting}>
+              {exporting ? 'Exporting...' : 'Export'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Import */}
+      {isAdmin && (
+        <div className={styles.card}>
+          <div className={styles.cardHeader}>
+            <span className={styles.cardTitle}>Import Memories</span>
+          </div>
+          <div className={styles.cardContent}>
+            <p className={styles.description}>
+              Import a JSONL or Markdown bundle export. Manual memories are recreated with their links;
+              entries whose content already exists in this project are skipped.
+            </p>
+
+            <label className={styles.fileInput}>
+              <input
+                type="file"
+                accept=".jsonl,.ndjson,.md,.markdown"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+                disabled={preparing || importing}
+              />
+              <span>{fileName || 'Choose a file...'}</span>
+            </label>
+
+            {preparing && <span className={styles.status}>Reading file and checking for duplicates...</span>}
+            {importError && <div className={styles.error}>{importError}</div>}
+
+            {rows && counts && (
+              <>
+                <div className={styles.summary}>
+                  <span className={styles.summaryNew}>{counts.new} new</span>
+                  <span>{counts.duplicate} duplicate</span>
+                  <span>{counts.skipped} skipped</span>
+                </div>
+                {!globalThis.crypto?.subtle && (
+                  <p className={styles.description}>
+                    Content can only be compared with existing memories over HTTPS, so only repeats
+                    within the file are detected as duplicates.
+                  </p>
+                )}
+                <div className={styles.previewTable}>
+                  {rows.map((row, i) => (
+                    <div key={`${row.entry.id}-${i}`} className={styles.previewRow}>
+                      <span className={`${styles.statusBadge} ${styles[row.status]}`}>
+                        {STATUS_LABELS[row.status]}
+                      </span>
+                      <span className={styles.previewTitle}>
+                        {row.entry.title || row.entry.file_path || row.entry.id.slice(0, 12) || 'Untitled'}
+                      </span>
+                      <span className={styles.previewMeta}>
+                        {row.reason || (row.entry.tags || []).join(', ')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <div className={styles.actions}>
+                  {importProgress && <span className={styles.status}>{importProgress}</span>}
+                  <button
+                    className={styles.primaryBtn}
+                    onClick={handleImport}
+                    disabled={importing || counts.new === 0}
+                  >
+                    {importing ? 'Importing...' : `Import ${counts.new} memories`}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {report && (
+              <div className={styles.report}>
+                <p>
+                  <span className={styles.summaryNew}>{report.created} memories created</span>
+                  {' · '}
+                  {report.linksCreated} links created
+                  {report.linksSkipped > 0 && ` · ${report.linksSkipped} links skipped (target not imported)`}
+                  {report.linksFailed > 0 && ` · ${report.linksFailed} links failed`}
+                </p>
+                {report.failed.length > 0 && (
+                  <ul className={styles.failureList}>
+                    {report.failed.map(({ item, error }, i) => (
+                      <li key={`${item.id}-${i}`}>
+                        <strong>{item.title || item.id.slice(0, 12)}</strong>: {error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
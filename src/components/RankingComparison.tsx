@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { mutate } from 'swr';
+import { api } from '../lib/api';
+import type { AlgorithmConfig, SearchResult } from '../lib/api';
+import { rankMovements, topOverlap } from '../lib/ranking';
+import type { RankedResult } from '../lib/ranking';
+import { useToast } from './ToastContext';
+import styles from './RankingComparison.module.css';
+
+interface RankingComparisonProps {
+  projectId: string;
+  // Ranking with the project's own decay settings
+  defaults: SearchResult[];
+  defaultsConfig?: AlgorithmConfig;
+  // Ranking with the overrides from the advanced panel
+  overrides: SearchResult[];
+  overridesConfig: AlgorithmConfig;
+  onSelect: (result: SearchResult) => void;
+}
+
+const OVERLAP_DEPTH = 10;
+
+function describeConfig(config?: AlgorithmConfig) {
+  if (!config) return 'loading...';
+  return `recency ${Math.round(config.strength_weight * 100)}% · half-life ${config.decay_half_life_days}d`;
+}
+
+function Movement({ entry }: { entry: RankedResult }) {
+  if (entry.movement === null) return <span className={`${styles.movement} ${styles.new}`} title="Not in the other ranking">new</span>;
+  if (entry.movement === 0) return <span className={styles.movement} title="Same position">=</span>;
+  const up = entry.movement > 0;
+  return (
+    <span
+      className={`${styles.movement} ${up ? styles.up : styles.down}`}
+      title={`#${entry.otherRank} in the other ranking`}
+    >
+      {up ? '▲' : '▼'}
+      {Math.abs(entry.movement)}
+    </span>
+  );
+}
+
+function RankingColumn({
+  title,
+  subtitle,
+  entries,
+  onSelect,
+  action,
+}: {
+  title: string;
+  subtitle: string;
+  entries: RankedResult[];
+  onSelect: (result: SearchResult) => void;
+  action?: React.ReactNode;
+}) {
+  return (
+    <div className={styles.column}>
+      <div className={styles.columnHeader}>
+        <div>
+          <div className={styles.columnTitle}>{title}</div>
+          <div className={styles.columnSubtitle}>{subtitle}</div>
+        </div>
+        {action}
+      </div>
+      {entries.length === 0 ? (
+        <div className={styles.empty}>No results</div>
+      ) : (
+        <ol className={styles.list}>
+          {entries.map((entry) => (
+            <li key={entry.result.memory.id}>
+              <button className={styles.row} onClick={() => onSelect(entry.result)}>
+                <span className={styles.rank}>{entry.rank}</span>
+                <span className={styles.title}>
+                  {entry.result.memory.title || entry.result.memory.file_path || entry.result.memory.id.slice(0, 12)}
+                </span>
+                <span className={styles.score}>
+                  {((entry.result.combined_score ?? entry.result.similarity) * 100).toFixed(0)}%
+                </span>
+                <Movement entry={entry} />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+// Two rankings of one query side by side, with how far each hit moved
+export function RankingComparison({
+  projectId,
+  defaults,
+  defaultsConfig,
+  overrides,
+  overridesConfig,
+  onSelect,
+}: RankingComparisonProps) {
+  const { showToast } = useToast();
+  const [applying, setApplying] = useState(false);
+
+  const overlap = topOverlap(defaults, overrides, OVERLAP_DEPTH);
+  const depth = Math.min(OVERLAP_DEPTH, Math.max(defaults.length, overrides.length));
+  const alreadyDefaults =
+    defaultsConfig?.strength_weight === overridesConfig.strength_weight &&
+    defaultsConfig?.decay_half_life_days === overridesConfig.decay_half_life_days;
+
+  const handleApply = async () => {
+    if (!confirm(`Make ${describeConfig(overridesConfig)} the default ranking for this project?`)) return;
+    setApplying(true);
+    try {
+      await api.updateAlgorithmConfig(projectId, overridesConfig);
+      mutate(`algorithm-config-${projectId}`);
+      showToast('Project defaults updated', 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update project defaults', 'error');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className={styles.comparison}>
+      {depth > 0 && (
+        <p className={styles.summary}>
+          {overlap} of the top {depth} results are shared between the two rankings.
+        </p>
+      )}
+      <div className={styles.columns}>
+        <RankingColumn
+          title="Project defaults"
+          subtitle={describeConfig(defaultsConfig)}
+          entries={rankMovements(defaults, overrides)}
+          onSelect={onSelect}
+        />
+        <RankingColumn
+          title="Overrides"
+          subtitle={describeConfig(overridesConfig)}
+          entries={rankMovements(overrides, defaults)}
+          onSelect={onSelect}
+          action={
+            <button className={styles.applyBtn} onClick={handleApply} disabled={applying || alreadyDefaults}>
+              {applying ? 'Applying...' : alreadyDefaults ? 'Current defaults' : 'Apply as project defaults'}
+            </button>
+          }
+        />
+      </div>
+    </div>
+  );
+}
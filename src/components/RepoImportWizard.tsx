@@ -0,0 +1,466 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import useSWR from 'swr';
+import { api } from '../lib/api';
+import type { GitHubBranch, GitHubRepo } from '../lib/api';
+import { importRepo, importSlugs, listAllConnectionRepos, parsePatterns } from '../lib/repoImport';
+import type { ImportRow, ImportSettings, ImportStatus } from '../lib/repoImport';
+import { Modal } from './ui';
+import styles from './RepoImportWizard.module.css';
+
+interface RepoImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Existing group names, offered as suggestions
+  groups: string[];
+  // Called after projects were created so the list can refresh
+  onImported: () => void;
+}
+
+type Step = 'select' | 'configure' | 'import';
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  pending: 'Waiting',
+  creating: 'Creating project...',
+  webhook: 'Registering webhook...',
+  done: 'Created',
+  failed: 'Failed',
+};
+
+// Branch lists fetched per repository when its branch picker is opened
+type BranchState = GitHubBranch[] | 'loading' | 'error';
+
+// Create projects for many repositories of a connected GitHub account at once
+export function RepoImportWizard({ isOpen, onClose, groups, onImported }: RepoImportWizardProps) {
+  const [step, setStep] = useState<Step>('select');
+  const [connectionId, setConnectionId] = useState('');
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Map<number, GitHubRepo>>(new Map());
+  const [loadedCount, setLoadedCount] = useState(0);
+
+  // Shared settings
+  const [branchOverrides, setBranchOverrides] = useState<Record<number, string>>({});
+  const [slugOverrides, setSlugOverrides] = useState<Record<number, string>>({});
+  const [branches, setBranches] = useState<Record<number, BranchState>>({});
+  const [group, setGroup] = useState('');
+  const [includePatterns, setIncludePatterns] = useState('');
+  const [excludePatterns, setExcludePatterns] = useState('');
+  const [createWebhooks, setCreateWebhooks] = useState(true);
+
+  // Import
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const { data: connectionsData, isLoading: loadingConnections } = useSWR('connections', () => api.getConnections());
+  const connections = useMemo(
+    () => (connectionsData?.connections ?? []).filter((c) => c.provider === 'github'),
+    [connectionsData]
+  );
+  const activeConnectionId = connectionId || connections[0]?.id || '';
+
+  const {
+    data: repos,
+    error: reposError,
+    isLoading: loadingRepos,
+    mutate: reloadRepos,
+  } = useSWR(
+    activeConnectionId ? `connection-repos-${activeConnectionId}` : null,
+    () => listAllConnectionRepos(activeConnectionId, setLoadedCount),
+    { revalidateOnFocus: false }
+  );
+
+  const filteredRepos = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    if (!repos || !q) return repos ?? [];
+    return repos.filter(
+      (r) => r.full_name.toLowerCase().includes(q) || (r.description && r.description.toLowerCase().includes(q))
+    );
+  }, [repos, search]);
+
+  const selectedRepos = useMemo(() => [...selected.values()], [selected]);
+  const defaultSlugs = useMemo(() => importSlugs(selectedRepos), [selectedRepos]);
+  const allFilteredSelected = filteredRepos.length > 0 && filteredRepos.every((r) => selected.has(r.id));
+
+  const toggleRepo = (repo: GitHubRepo) => {
+    const next = new Map(selected);
+    if (next.has(repo.id)) next.delete(repo.id);
+    else next.set(repo.id, repo);
+    setSelected(next);
+  };
+
+  const toggleAllFiltered = () => {
+    const next = new Map(selected);
+    for (const repo of filteredRepos) {
+      if (allFilteredSelected) next.delete(repo.id);
+      else next.set(repo.id, repo);
+    }
+    setSelected(next);
+  };
+
+  const changeConnection = (id: string) => {
+    setConnectionId(id);
+    setSelected(new Map());
+    setBranches({});
+    setBranchOverrides({});
+    setLoadedCount(0);
+  };
+
+  const loadBranches = async (repo: GitHubRepo) => {
+    if (branches[repo.id] && branches[repo.id] !== 'error') return;
+    setBranches((prev) => ({ ...prev, [repo.id]: 'loading' }));
+    const [owner, name] = repo.full_name.split('/');
+    try {
+      const res = await api.getConnectionRepoBranches(activeConnectionId, owner, name);
+      setBranches((prev) => ({ ...prev, [repo.id]: res.branches }));
+    } catch {
+      setBranches((prev) => ({ ...prev, [repo.id]: 'error' }));
+    }
+  };
+
+  const settings = (): ImportSettings => ({
+    connectionId: activeConnectionId,
+    provider: 'github',
+    project_group: group.trim() || undefined,
+    include: parsePatterns(includePatterns),
+    exclude: parsePatterns(excludePatterns),
+    createWebhook: createWebhooks,
+  });
+
+  const updateRow = (repoId: number, patch: Partial<ImportRow>) =>
+    setRows((prev) => prev.map((r) => (r.repo.id === repoId ? { ...r, ...patch } : r)));
+
+  // Projects are created one after another; the server clones each repository
+  const runImport = async (queue: ImportRow[]) => {
+    setRunning(true);
+    const options = settings();
+    let created = 0;
+    for (const row of queue) {
+      try {
+        const result = await importRepo(row, options, (status) => updateRow(row.repo.id, { status }), row.project);
+        if (!row.project) created++;
+        updateRow(row.repo.id, { ...result, status: 'done', error: undefined });
+      } catch (err) {
+        updateRow(row.repo.id, {
+          status: 'failed',
+          error: err instanceof Error ? err.message : 'Failed to create project',
+        });
+      }
+    }
+    setRunning(false);
+    if (created > 0) onImported();
+  };
+
+  const handleStart = () => {
+    const queue: ImportRow[] = selectedRepos.map((repo) => ({
+      repo,
+      slug: slugOverrides[repo.id]?.trim() || defaultSlugs.get(repo.id)!,
+      branch: branchOverrides[repo.id] ?? repo.default_branch,
+      status: 'pending',
+    }));
+    setRows(queue);
+    setStep('import');
+    runImport(queue);
+  };
+
+  const retryable = (row: ImportRow) => row.status === 'failed' || (row.status === 'done' && !!row.webhookError);
+
+  const handleRetry = (retry: ImportRow[]) => {
+    const queue = retry.map((row) => ({ ...row, status: 'pending' as const, webhookError: undefined }));
+    setRows((prev) => prev.map((r) => queue.find((q) => q.repo.id === r.repo.id) ?? r));
+    runImport(queue);
+  };
+
+  const handleClose = () => {
+    if (running) return;
+    onClose();
+  };
+
+  const done = rows.filter((r) => r.status === 'done').length;
+  const failed = rows.filter(retryable);
+
+  const renderSelect = () => (
+    <div className={styles.body}>
+      {loadingConnections ? (
+        <p className={styles.hint}>Loading connected accounts...</p>
+      ) : connections.length === 0 ? (
+        <p className={styles.hint}>
+          No GitHub account is connected. Connect one under <Link to="/settings">Settings</Link>, then come back.
+        </p>
+      ) : (
+        <>
+          <div className={styles.row}>
+            {connections.length > 1 && (
+              <select
+                className={styles.input}
+                value={activeConnectionId}
+                onChange={(e) => changeConnection(e.target.value)}
+                aria-label="Connected account"
+              >
+                {connections.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.username}
+                  </option>
+                ))}
+              </select>
+            )}
+            <input
+              className={`${styles.input} ${styles.grow}`}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search repositories..."
+              autoFocus
+            />
+          </div>
+
+          {reposError ? (
+            <div className={styles.error}>
+              {reposError instanceof Error ? reposError.message : 'Failed to load repositories'}{' '}
+              <button className={styles.linkBtn} onClick={() => reloadRepos()}>
+                Retry
+              </button>
+            </div>
+          ) : loadingRepos ? (
+            <p className={styles.hint}>Loading repositories{loadedCount > 0 ? ` (${loadedCount} so far)` : ''}...</p>
+          ) : (
+            <>
+              <div className={styles.listHeader}>
+                <label className={styles.checkLabel}>
+                  <input type="checkbox" checked={allFilteredSelected} onChange={toggleAllFiltered} />
+                  {search ? `All ${filteredRepos.length} matching` : `All ${filteredRepos.length}`}
+                </label>
+                <span className={styles.hint}>{selected.size} selected</span>
+              </div>
+              <ul className={styles.repoList}>
+                {filteredRepos.map((repo) => (
+                  <li key={repo.id}>
+                    <label className={`${styles.repo} ${selected.has(repo.id) ? styles.checked : ''}`}>
+                      <input type="checkbox" checked={selected.has(repo.id)} onChange={() => toggleRepo(repo)} />
+                      <span className={styles.repoText}>
+                        <span className={styles.repoName}>
+                          {repo.full_name}
+                          {repo.private && <span className={styles.privateBadge}>private</span>}
+                        </span>
+                        {repo.description && <span className={styles.repoDescription}>{repo.description}</span>}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+                {filteredRepos.length === 0 && <li className={styles.hint}>No repositories match.</li>}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+
+  const renderConfigure = () => (
+    <div className={styles.body}>
+      <div className={styles.formGroup}>
+        <label className={styles.label} htmlFor="import-group">
+          Group
+        </label>
+        <input
+          id="import-group"
+          className={styles.input}
+          value={group}
+          onChange={(e) => setGroup(e.target.value)}
+          list="import-group-options"
+          placeholder="Optional"
+        />
+        <datalist id="import-group-options">
+          {groups.map((g) => (
+            <option key={g} value={g} />
+          ))}
+        </datalist>
+      </div>
+      <div className={styles.patterns}>
+        <div className={styles.formGroup}>
+          <label className={styles.label} htmlFor="import-include">
+            Include patterns
+          </label>
+          <textarea
+            id="import-include"
+            className={styles.textarea}
+            value={includePatterns}
+            onChange={(e) => setIncludePatterns(e.target.value)}
+            placeholder={'**/*  (default)\nOne glob per line'}
+            rows={3}
+          />
+        </div>
+        <div className={styles.formGroup}>
+          <label className={styles.label} htmlFor="import-exclude">
+            Exclude patterns
+          </label>
+          <textarea
+            id="import-exclude"
+            className={styles.textarea}
+            value={excludePatterns}
+            onChange={(e) => setExcludePatterns(e.target.value)}
+            placeholder={'vendor/**\nOne glob per line'}
+            rows={3}
+          />
+        </div>
+      </div>
+      <label className={styles.checkLabel}>
+        <input type="checkbox" checked={createWebhooks} onChange={(e) => setCreateWebhooks(e.target.checked)} />
+        Register a webhook for each project so pushes are indexed automatically
+      </label>
+
+      <span className={styles.label}>Repositories ({selectedRepos.length})</span>
+      <div className={styles.tableWrap}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Repository</th>
+              <th>Project slug</th>
+              <th>Branch</th>
+            </tr>
+          </thead>
+          <tbody>
+            {selectedRepos.map((repo) => {
+              const state = branches[repo.id];
+              const branch = branchOverrides[repo.id] ?? repo.default_branch;
+              return (
+                <tr key={repo.id}>
+                  <td className={styles.repoCell}>{repo.full_name}</td>
+                  <td>
+                    <input
+                      className={styles.cellInput}
+                      value={slugOverrides[repo.id] ?? defaultSlugs.get(repo.id)}
+                      onChange={(e) => setSlugOverrides({ ...slugOverrides, [repo.id]: e.target.value })}
+                      aria-label={`Slug for ${repo.full_name}`}
+                    />
+                  </td>
+                  <td>
+                    <select
+                      className={styles.cellInput}
+                      value={branch}
+                      onFocus={() => loadBranches(repo)}
+                      onMouseDown={() => loadBranches(repo)}
+                      onChange={(e) => setBranchOverrides({ ...branchOverrides, [repo.id]: e.target.value })}
+                      aria-label={`Branch for ${repo.full_name}`}
+                    >
+                      {Array.isArray(state) ? (
+                        state.map((b) => (
+                          <option key={b.name} value={b.name}>
+                            {b.name}
+                            {b.name === repo.default_branch ? ' (default)' : ''}
+                          </option>
+                        ))
+                      ) : (
+                        <option value={branch}>
+                          {branch}
+                          {state === 'loading' ? ' (loading...)' : state === 'error' ? ' (branches unavailable)' : ''}
+                        </option>
+                      )}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  const renderImport = () => (
+    <div className={styles.body}>
+      <p className={styles.hint}>
+        {running
+          ? `Importing ${rows.length} repositories one at a time...`
+          : `${done} of ${rows.length} imported${failed.length > 0 ? `, ${failed.length} need attention` : ''}.`}
+      </p>
+      <div className={styles.tableWrap}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Repository</th>
+              <th>Status</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.repo.id}>
+                <td className={styles.repoCell}>
+                  {row.repo.full_name}
+                  <span className={styles.slug}>{row.slug}</span>
+                </td>
+                <td>
+                  <span className={`${styles.status} ${styles[row.status]}`}>{STATUS_LABELS[row.status]}</span>
+                  {row.error && <span className={styles.rowError}>{row.error}</span>}
+                  {row.webhookError && <span className={styles.rowError}>Webhook: {row.webhookError}</span>}
+                </td>
+                <td className={styles.rowActions}>
+                  {!running && row.project && (
+                    <Link to={`/projects/${row.project.id}`} className={styles.linkBtn} onClick={onClose}>
+                      Open
+                    </Link>
+                  )}
+                  {!running && retryable(row) && (
+                    <button className={styles.linkBtn} onClick={() => handleRetry([row])}>
+                      Retry
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  const footer = (
+    <div className={styles.actions}>
+      {step === 'select' && (
+        <>
+          <button className={styles.cancelBtn} onClick={handleClose}>
+            Cancel
+          </button>
+          <button className={styles.submitBtn} onClick={() => setStep('configure')} disabled={selected.size === 0}>
+            Next: configure {selected.size > 0 ? selected.size : ''}
+          </button>
+        </>
+      )}
+      {step === 'configure' && (
+        <>
+          <button className={styles.cancelBtn} onClick={() => setStep('select')}>
+            Back
+          </button>
+          <button className={styles.submitBtn} onClick={handleStart}>
+            Import {selectedRepos.length} {selectedRepos.length === 1 ? 'repository' : 'repositories'}
+          </button>
+        </>
+      )}
+      {step === 'import' && (
+        <>
+          {!running && failed.length > 0 && (
+            <button className={styles.cancelBtn} onClick={() => handleRetry(failed)}>
+              Retry {failed.length} failed
+            </button>
+          )}
+          <button className={styles.submitBtn} onClick={handleClose} disabled={running}>
+            {running ? 'Importing...' : 'Done'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={
+        step === 'select' ? 'Import Repositories' : step === 'configure' ? 'Configure Import' : 'Importing Repositories'
+      }
+      footer={footer}
+      wide
+    >
+      {step === 'select' ? renderSelect() : step === 'configure' ? renderConfigure() : renderImport()}
+    </Modal>
+  );
+}
@@ -0,0 +1,72 @@
+import { Link, useLocation } from 'react-router-dom';
+import { useAuth } from '../stores/auth';
+import { useProject } from '../stores/project';
+import { useSavedViews } from '../stores/savedViews';
+import type { SavedView } from '../stores/savedViews';
+import { memoryViewPath, shareableUrl } from '../lib/memoryView';
+import { useToast } from './ToastContext';
+import styles from './SavedViews.module.css';
+
+const EMPTY: SavedView[] = [];
+
+// Sidebar list of the signed-in user's saved Memories views
+export function SavedViews() {
+  const location = useLocation();
+  const { showToast } = useToast();
+  const { user } = useAuth();
+  const selectedProjectId = useProject((s) => s.selectedProjectId);
+  const views = useSavedViews((s) => (user ? s.views[user.id] ?? EMPTY : EMPTY));
+  const removeView = useSavedViews((s) => s.removeView);
+
+  if (!user || views.length === 0) return null;
+
+  const isActive = (view: SavedView) =>
+    location.pathname === '/memories' &&
+    view.projectId === selectedProjectId &&
+    new URLSearchParams(location.search).toString() === view.query;
+
+  const handleCopy = async (view: SavedView) => {
+    try {
+      await navigator.clipboard.writeText(shareableUrl(memoryViewPath(view.projectId, view.query)));
+      showToast(`Link to "${view.name}" copied`, 'success');
+    } catch {
+      showToast('Failed to copy link', 'error');
+    }
+  };
+
+  const handleRemove = (view: SavedView) => {
+    if (!confirm(`Remove the saved view "${view.name}"?`)) return;
+    removeView(user.id, view.id);
+  };
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.label}>Saved Views</div>
+      {views.map((view) => (
+        <div key={view.id} className={`${styles.item} ${isActive(view) ? styles.active : ''}`}>
+          <Link
+            to={memoryViewPath(view.projectId, view.query)}
+            className={styles.link}
+            title={view.projectId === selectedProjectId ? view.name : `${view.name} (another project)`}
+          >
+            <svg className={styles.icon} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M19 21l-7-5-7 5V5a2 2 0 012-2h10a2 2 0 012 2z" />
+            </svg>
+            <span className={styles.name}>{view.name}</span>
+          </Link>
+          <button className={styles.actionBtn} onClick={() => handleCopy(view)} title="Copy link">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M10 13a5 5 0 007.54.54l3-3a5 5 0 00-7.07-7.07l-1.72 1.71" />
+              <path d="M14 11a5 5 0 00-7.54-.54l-3 3a5 5 0 007.07 7.07l1.71-1.71" />
+            </svg>
+          </button>
+          <button className={styles.actionBtn} onClick={() => handleRemove(view)} title="Remove view">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import useSWR from 'swr';
+import { Link } from 'react-router-dom';
+import { api } from '../lib/api';
+import type { AlgorithmConfig, SearchResult } from '../lib/api';
+import { explainScore, findNeighbourPath } from '../lib/scoreExplain';
+import { memoryPath } from '../lib/memoryView';
+import styles from './ScoreExplanation.module.css';
+
+interface ScoreExplanationProps {
+  projectId: string;
+  result: SearchResult;
+  rank: number;
+  // Decay overrides the search ran with; the project defaults apply otherwise
+  overrides: AlgorithmConfig | null;
+  // Direct hits of the same search, which a neighbour hit may hang off
+  anchors: SearchResult[];
+}
+
+function percent(value: number) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function memoryLabel(result: SearchResult) {
+  return result.memory.title || result.memory.file_path || result.memory.id.slice(0, 12);
+}
+
+// "Why this ranked here" breakdown for one search hit
+export function ScoreExplanation({ projectId, result, rank, overrides, anchors }: ScoreExplanationProps) {
+  // Shares its cache with the algorithm settings panel
+  const { data: projectConfig } = useSWR<AlgorithmConfig>(
+    overrides ? null : `algorithm-config-${projectId}`,
+    () => api.getAlgorithmConfig(projectId)
+  );
+  const config = overrides ?? projectConfig;
+
+  const { data: path, error: pathError, isLoading: tracing } = useSWR(
+    result.is_neighbour ? ['neighbour-path', projectId, result.memory.id, anchors.map((a) => a.memory.id).join(',')] : null,
+    () => findNeighbourPath(projectId, result.memory.id, anchors),
+    { revalidateOnFocus: false }
+  );
+
+  if (!config) return <div className={styles.panel}>Loading ranking settings...</div>;
+
+  const breakdown = explainScore(result, config);
+  const mismatch = Math.abs(breakdown.expected - breakdown.actual) > 0.01;
+  const total = breakdown.semanticPart + breakdown.strengthPart || 1;
+
+  return (
+    <div className={styles.panel} onClick={(e) => e.stopPropagation()}>
+      <div className={styles.header}>
+        <span>
+          Ranked <strong>#{rank}</strong> with a score of <strong>{percent(breakdown.actual)}</strong>
+        </span>
+        <span className={styles.config}>
+          {overrides ? 'Overrides' : 'Project defaults'}: recency {Math.round(config.strength_weight * 100)}%, half-life{' '}
+          {config.decay_half_life_days}d
+        </span>
+      </div>
+
+      <div className={styles.bar} title="Contribution to the combined score">
+        <div className={styles.semanticPart} style={{ width: `${(breakdown.semanticPart / total) * 100}%` }} />
+        <div className={styles.strengthPart} style={{ width: `${(breakdown.strengthPart / total) * 100}%` }} />
+      </div>
+      <div className={styles.legend}>
+        <span>
+          <span className={`${styles.swatch} ${styles.semanticSwatch}`} />
+          Semantic {percent(breakdown.semantic)} × {(1 - breakdown.weight).toFixed(2)} = {percent(breakdown.semanticPart)}
+        </span>
+        <span>
+          <span className={`${styles.swatch} ${styles.strengthSwatch}`} />
+          Strength {percent(breakdown.strength)}
+          {breakdown.strengthEstimated && ' (estimated)'} × {breakdown.weight.toFixed(2)} = {percent(breakdown.strengthPart)}
+        </span>
+      </div>
+
+      <dl className={styles.facts}>
+        <dt>Age</dt>
+        <dd>
+          {breakdown.ageDays < 1 ? 'under a day' : `${Math.round(breakdown.ageDays)} days`} since the last update
+        </dd>
+        <dt>Decay factor</dt>
+        <dd>
+          {breakdown.decayFactor.toFixed(3)} (0.5 ^ {Math.round(breakdown.ageDays)} / {config.decay_half_life_days})
+        </dd>
+        {mismatch && (
+          <>
+            <dt>Blend</dt>
+            <dd className={styles.warning}>
+              The parts add up to {percent(breakdown.expected)}, but the server ranked by {percent(breakdown.actual)}.
+              Strength may include access history, or the search used other settings.
+            </dd>
+          </>
+        )}
+      </dl>
+
+      {result.is_neighbour && (
+        <div className={styles.neighbour}>
+          <span className={styles.neighbourLabel}>Pulled in through links</span>
+          {tracing ? (
+            <span className={styles.muted}>Tracing links...</span>
+          ) : pathError ? (
+            <span className={styles.warning}>Could not read links: {pathError.message}</span>
+          ) : !path ? (
+            <span className={styles.muted}>No direct hit of this search is within two links.</span>
+          ) : (
+            <ol className={styles.path}>
+              <li>
+                <Link to={memoryPath(projectId, path.anchor.memory.id)}>{memoryLabel(path.anchor)}</Link>
+                <span className={styles.muted}> (direct hit, {percent(path.anchor.combined_score ?? path.anchor.similarity)})</span>
+              </li>
+              {path.steps.map((step) => (
+                <li key={step.link.id}>
+                  <span className={styles.linkType} title={step.link.context}>
+                    {step.link.source_id === step.fromId ? '→' : '←'} {step.link.link_type}
+                  </span>{' '}
+                  {step.toId === result.memory.id ? (
+                    <span>this memory</span>
+                  ) : (
+                    <Link to={memoryPath(projectId, step.toId)}>{step.toId.slice(0, 12)}</Link>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
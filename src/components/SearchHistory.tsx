@@ -0,0 +1,99 @@
+import type { SavedSearch, SearchRecord } from '../stores/searchHistory';
+import styles from './SearchHistory.module.css';
+
+interface SearchHistoryProps {
+  saved: SavedSearch[];
+  recent: SearchRecord[];
+  onRun: (record: SearchRecord, saved?: SavedSearch) => void;
+  onSave: (record: SearchRecord) => void;
+  onRemoveSaved: (saved: SavedSearch) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+function formatTime(dateStr: string) {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// Source, scope and decay overrides of a search, in short
+function describeOptions(record: SearchRecord) {
+  const parts: string[] = [];
+  if (record.scope === 'all') parts.push('all projects');
+  if (record.scope === 'group') parts.push(`group ${record.group}`);
+  if (record.source) parts.push(record.source);
+  if (record.strength_weight !== undefined) {
+    parts.push(`recency ${Math.round(record.strength_weight * 100)}% / ${record.decay_half_life_days}d`);
+  }
+  if (record.include_neighbours) parts.push('with neighbours');
+  return parts.join(' · ');
+}
+
+// Saved and recent searches for the current project or scope
+export function SearchHistory({ saved, recent, onRun, onSave, onRemoveSaved, onClear, disabled }: SearchHistoryProps) {
+  if (saved.length === 0 && recent.length === 0) {
+    return <div className={styles.empty}>Searches you run here are remembered in this browser.</div>;
+  }
+
+  return (
+    <div className={styles.panel}>
+      {saved.length > 0 && (
+        <div className={styles.section}>
+          <div className={styles.sectionHeader}>
+            <span className={styles.sectionLabel}>Saved</span>
+          </div>
+          {saved.map((search) => (
+            <div key={search.id} className={styles.item}>
+              <button className={styles.runBtn} onClick={() => onRun(search, search)} disabled={disabled}>
+                <span className={styles.name}>{search.name}</span>
+                <span className={styles.query}>{search.query}</span>
+                <span className={styles.meta}>
+                  {[describeOptions(search), `last run ${formatTime(search.ran_at)}`, `${search.result_count} results`]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </span>
+              </button>
+              <button className={styles.iconBtn} onClick={() => onRemoveSaved(search)} title="Remove saved search">
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M18 6L6 18M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {recent.length > 0 && (
+        <div className={styles.section}>
+          <div className={styles.sectionHeader}>
+            <span className={styles.sectionLabel}>Recent</span>
+            <button className={styles.clearBtn} onClick={onClear}>
+              Clear
+            </button>
+          </div>
+          {recent.map((record) => (
+            <div key={record.id} className={styles.item}>
+              <button className={styles.runBtn} onClick={() => onRun(record)} disabled={disabled}>
+                <span className={styles.query}>{record.query}</span>
+                <span className={styles.meta}>
+                  {[describeOptions(record), formatTime(record.ran_at), `${record.result_count} results`]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </span>
+              </button>
+              <button className={styles.iconBtn} onClick={() => onSave(record)} title="Save search">
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M19 21l-7-5-7 5V5a2 2 0 012-2h10a2 2 0 012 2z" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useMemo, useRef, useState } from 'react';
+import useSWR from 'swr';
+import { api } from '../lib/api';
+import { aggregateTags } from '../lib/tags';
+import { activeToken, completeToken } from '../lib/searchQuery';
+import { useFileMemories } from '../hooks/useFileMemories';
+import styles from './SearchQueryInput.module.css';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Project whose tags and paths are suggested; none when searching several
+  projectId: string | null;
+  className?: string;
+  placeholder?: string;
+}
+
+interface Suggestion {
+  value: string;
+  detail?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const SOURCE_SUGGESTIONS: Suggestion[] = [
+  { value: 'file', detail: 'Indexed source files' },
+  { value: 'manual', detail: 'Written by hand' },
+  { value: 'generated', detail: 'Produced by agents' },
+];
+
+// Files, plus every directory above them as a `dir/**` glob
+function pathCandidates(paths: string[]): string[] {
+  const candidates = new Set<string>();
+  for (const path of paths) {
+    const parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) candidates.add(`${parts.slice(0, i).join('/')}/**`);
+    candidates.add(path);
+  }
+  return [...candidates].sort();
+}
+
+function rankByPrefix(candidates: Suggestion[], typed: string): Suggestion[] {
+  const needle = typed.toLowerCase();
+  const prefix: Suggestion[] = [];
+  const contains: Suggestion[] = [];
+  for (const candidate of candidates) {
+    const value = candidate.value.toLowerCase();
+    if (value === needle) continue;
+    if (value.startsWith(needle)) prefix.push(candidate);
+    else if (value.includes(needle)) contains.push(candidate);
+  }
+  return [...prefix, ...contains].slice(0, MAX_SUGGESTIONS);
+}
+
+export function SearchQueryInput({ value, onChange, projectId, className, placeholder }: SearchQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const token = focused && !dismissed ? activeToken(value, caret) : null;
+
+  // Both listings are shared with the tag manager and file tree, and only
+  // fetched once a tag or path is being typed
+  const { data: tagMemories, isLoading: loadingTags } = useSWR(
+    token?.key === 'tag' && projectId ? `memory-tags-${projectId}` : null,
+    () => api.listAllMemories(projectId!, {}),
+    { revalidateOnFocus: false }
+  );
+  const { data: fileMemories, isLoading: loadingPaths } = useFileMemories(token?.key === 'path' ? projectId : null);
+
+  const tags = useMemo(
+    () => (tagMemories ? aggregateTags(tagMemories).map((t) => ({ value: t.tag, detail: String(t.count) })) : []),
+    [tagMemories]
+  );
+  const paths = useMemo(
+    () => (fileMemories ? pathCandidates(fileMemories.flatMap((m) => (m.file_path ? [m.file_path] : []))).map((p) => ({ value: p })) : []),
+    [fileMemories]
+  );
+
+  let suggestions: Suggestion[] = [];
+  let loading = false;
+  if (token?.key === 'tag') {
+    suggestions = rankByPrefix(tags, token.value);
+    loading = loadingTags;
+  } else if (token?.key === 'path') {
+    suggestions = rankByPrefix(paths, token.value);
+    loading = loadingPaths;
+  } else if (token?.key === 'source') {
+    suggestions = rankByPrefix(SOURCE_SUGGESTIONS, token.value);
+  }
+  const open = token !== null && (suggestions.length > 0 || loading);
+  const active = Math.min(highlighted, Math.max(suggestions.length - 1, 0));
+
+  const syncCaret = (input: HTMLInputElement) => setCaret(input.selectionStart ?? input.value.length);
+
+  const accept = (suggestion: Suggestion) => {
+    if (!token) return;
+    const next = completeToken(value, token, suggestion.value);
+    onChange(next.input);
+    setCaret(next.caret);
+    setHighlighted(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((active + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((active - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(suggestions[active]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="text"
+        className={className}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          syncCaret(e.target);
+          setDismissed(false);
+          setHighlighted(0);
+        }}
+        onSelect={(e) => syncCaret(e.currentTarget)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        role="combobox"
+        aria-expanded={open}
+        aria-autocomplete="list"
+      />
+      {open && (
+        <ul className={styles.suggestions} role="listbox">
+          {loading && suggestions.length === 0 ? (
+            <li className={styles.loading}>Loading {token.key === 'tag' ? 'tags' : 'paths'}...</li>
+          ) : (
+            suggestions.map((suggestion, i) => (
+              <li key={suggestion.value} role="option" aria-selected={i === active}>
+                <button
+                  type="button"
+                  className={`${styles.suggestion} ${i === active ? styles.active : ''}`}
+                  // Keep focus in the input so the token stays active
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => accept(suggestion)}
+                  onMouseEnter={() => setHighlighted(i)}
+                >
+                  <span className={styles.value}>
+                    {token.key}:{suggestion.value}
+                  </span>
+                  {suggestion.detail && <span className={styles.detail}>{suggestion.detail}</span>}
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </>
+  );
+}
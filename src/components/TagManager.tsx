@@ -0,0 +1,351 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import useSWR from 'swr';
+import { api } from '../lib/api';
+import { runBatch } from '../lib/batch';
+import type { BatchFailure, BatchProgress } from '../lib/batch';
+import { aggregateTags, planTagChange } from '../lib/tags';
+import type { TagChange } from '../lib/tags';
+import { useAuth } from '../stores/auth';
+import { useProject } from '../stores/project';
+import { useToast } from './ToastContext';
+import { Modal, EmptyState } from './ui';
+import styles from './TagManager.module.css';
+
+type TagOperation = 'rename' | 'merge' | 'delete';
+
+const OPERATION_LABELS: Record<TagOperation, string> = {
+  rename: 'Rename tag',
+  merge: 'Merge tags',
+  delete: 'Delete tags',
+};
+
+const CLOUD_SIZE = 60;
+const PREVIEW_LIMIT = 50;
+
+interface TagManagerProps {
+  projectId: string;
+}
+
+export function TagManager({ projectId }: TagManagerProps) {
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const { user } = useAuth();
+  const { selectProject } = useProject();
+  const isAdmin = user?.roles?.includes('admin') ?? false;
+
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [operation, setOperation] = useState<{ kind: TagOperation; from: string[] } | null>(null);
+  const [target, setTarget] = useState('');
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [failures, setFailures] = useState<BatchFailure<TagChange>[] | null>(null);
+  const [loadProgress, setLoadProgress] = useState<{ loaded: number; total: number } | null>(null);
+
+  const { data: memories, isLoading, error, mutate } = useSWR(
+    `memory-tags-${projectId}`,
+    () => api.listAllMemories(projectId, {}, (loaded, total) => setLoadProgress({ loaded, total })),
+    { revalidateOnFocus: false }
+  );
+
+  const tags = useMemo(() => aggregateTags(memories || []), [memories]);
+  const maxCount = tags[0]?.count || 1;
+
+  const visibleTags = filter.trim()
+    ? tags.filter((t) => t.tag.toLowerCase().includes(filter.trim().toLowerCase()))
+    : tags;
+
+  // Cloud shows the most used tags in alphabetical order
+  const cloudTags = useMemo(
+    () => tags.slice(0, CLOUD_SIZE).sort((a, b) => a.tag.localeCompare(b.tag)),
+    [tags]
+  );
+
+  const running = progress !== null && failures === null;
+  const targetName = target.trim();
+  const changes = useMemo(() => {
+    if (!operation || !memories) return [];
+    if (operation.kind !== 'delete' && !targetName) return [];
+    return planTagChange(memories, operation.from, operation.kind === 'delete' ? null : targetName);
+  }, [operation, memories, targetName]);
+
+  const toggleSelected = (tag: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(tag)) next.delete(tag);
+      else next.add(tag);
+      return next;
+    });
+  };
+
+  const openOperation = (kind: TagOperation, from: string[]) => {
+    setOperation({ kind, from });
+    setTarget(kind === 'delete' ? '' : from[0]);
+    setProgress(null);
+    setFailures(null);
+  };
+
+  const closeOperation = () => {
+    if (running) return;
+    setOperation(null);
+    setProgress(null);
+    setFailures(null);
+  };
+
+  const handleApply = async () => {
+    if (!operation || changes.length === 0) return;
+
+    const result = await runBatch(
+      changes,
+      (change) => api.updateMemory(projectId, change.memory.id, { tags: change.after }),
+      { onProgress: setProgress }
+    );
+    setFailures(result.failed);
+    setSelected(new Set());
+    mutate();
+
+    if (result.failed.length === 0) {
+      showToast(`Updated ${result.succeeded.length} memories`, 'success');
+      setOperation(null);
+      setProgress(null);
+      setFailures(null);
+    } else {
+      showToast(`${result.failed.length} of ${changes.length} updates failed`, 'error');
+    }
+  };
+
+  const viewMemories = (tag: string) => {
+    selectProject(projectId);
+    navigate(`/memories?tags=${encodeURIComponent(tag)}`);
+  };
+
+  if (isLoading) {
+    return (
+      <div className={styles.loading}>
+        {loadProgress ? `Loading memories ${loadProgress.loaded} / ${loadProgress.total}...` : 'Loading tags...'}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className={styles.error}>{error instanceof Error ? error.message : 'Failed to load tags'}</div>;
+  }
+
+  if (tags.length === 0) {
+    return (
+      <EmptyState
+        icon={
+          <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+            <path d="M20.59 13.41l-7.17 7.17a2 2 0 01-2.83 0L2 12V2h10l8.59 8.59a2 2 0 010 2.82z" />
+            <line x1="7" y1="7" x2="7.01" y2="7" />
+          </svg>
+        }
+        title="No tags yet"
+        description="None of this project's memories are tagged"
+      />
+    );
+  }
+
+  const selectedTags = [...selected];
+  const mergeTargetExists = operation?.kind !== 'delete' && tags.some((t) => t.tag === targetName);
+
+  return (
+    <div className={styles.container}>
+      {/* Tag cloud */}
+      <div className={styles.card}>
+        <div className={styles.cardHeader}>
+          <span className={styles.cardTitle}>Tag Cloud</span>
+          <span className={styles.cardMeta}>
+            {tags.length} tags across {memories?.length || 0} memories
+          </span>
+        </div>
+        <div className={styles.cloud}>
+          {cloudTags.map(({ tag, count }) => (
+            <button
+              key={tag}
+              className={`${styles.cloudTag} ${selected.has(tag) ? styles.selected : ''}`}
+              style={{ fontSize: `${0.7 + (Math.log(count) / Math.log(maxCount + 1)) * 0.8}rem` }}
+              onClick={() => toggleSelected(tag)}
+              title={`${count} memories`}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Tag list */}
+      <div className={styles.card}>
+        <div className={styles.cardHeader}>
+          <span className={styles.cardTitle}>All Tags</span>
+          <input
+            type="text"
+            className={styles.filterInput}
+            placeholder="Filter tags..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+        </div>
+
+        {selected.size > 0 && (
+          <div className={styles.selectionBar}>
+            <span className={styles.selectionCount}>
+              <strong>{selected.size}</strong> selected
+            </span>
+            <div className={styles.selectionActions}>
+              {isAdmin && selected.size >= 2 && (
+                <button className={styles.actionBtn} onClick={() => openOperation('merge', selectedTags)}>
+                  Merge
+                </button>
+              )}
+              {isAdmin && (
+                <button
+                  className={`${styles.actionBtn} ${styles.danger}`}
+                  onClick={() => openOperation('delete', selectedTags)}
+                >
+                  Delete
+                </button>
+              )}
+              <button className={styles.linkBtn} onClick={() => setSelected(new Set())}>
+                Clear
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className={styles.tagList}>
+          {visibleTags.map(({ tag, count }) => (
+            <div key={tag} className={`${styles.tagRow} ${selected.has(tag) ? styles.selected : ''}`}>
+              <input
+                type="checkbox"
+                checked={selected.has(tag)}
+                onChange={() => toggleSelected(tag)}
+              />
+              <span className={styles.tagName}>{tag}</span>
+              <div className={styles.countBar}>
+                <div className={styles.countFill} style={{ width: `${(count / maxCount) * 100}%` }} />
+              </div>
+              <span className={styles.tagCount}>{count}</span>
+              <div className={styles.rowActions}>
+                <button className={styles.linkBtn} onClick={() => viewMemories(tag)}>
+                  View
+                </button>
+                {isAdmin && (
+                  <>
+                    <button className={styles.linkBtn} onClick={() => openOperation('rename', [tag])}>
+                      Rename
+                    </button>
+                    <button
+                      className={`${styles.linkBtn} ${styles.dangerLink}`}
+                      onClick={() => openOperation('delete', [tag])}
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+          {visibleTags.length === 0 && <p className={styles.noMatches}>No tags match "{filter}"</p>}
+        </div>
+      </div>
+
+      {/* Dry-run preview and apply */}
+      <Modal
+        isOpen={operation !== null}
+        onClose={closeOperation}
+        title={operation ? OPERATION_LABELS[operation.kind] : ''}
+        wide
+        footer={
+          <div className={styles.modalActions}>
+            <button className={styles.cancelBtn} onClick={closeOperation} disabled={running}>
+              {failures ? 'Close' : 'Cancel'}
+            </button>
+            {!failures && (
+              <button
+                className={`${styles.submitBtn} ${operation?.kind === 'delete' ? styles.dangerSubmit : ''}`}
+                onClick={handleApply}
+                disabled={running || changes.length === 0}
+              >
+                {running ? 'Applying...' : `Apply to ${changes.length} memories`}
+              </button>
+            )}
+          </div>
+        }
+      >
+        {operation && (
+          <div className={styles.modalBody}>
+            <div className={styles.fromTags}>
+              {operation.from.map((tag) => (
+                <span key={tag} className={styles.fromTag}>{tag}</span>
+              ))}
+              {operation.kind !== 'delete' && <span className={styles.arrow}>→</span>}
+              {operation.kind !== 'delete' && (
+                <input
+                  type="text"
+                  className={styles.input}
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  placeholder={operation.kind === 'rename' ? 'New tag name' : 'Merged tag name'}
+                  disabled={running}
+                  autoFocus
+                />
+              )}
+            </div>
+            {mergeTargetExists && !operation.from.includes(targetName) && (
+              <p className={styles.hint}>"{targetName}" already exists — the tags will be merged into it.</p>
+            )}
+
+            {progress ? (
+              <div className={styles.progress}>
+                <div className={styles.progressBar}>
+                  <div
+                    className={styles.progressFill}
+                    style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }}
+                  />
+                </div>
+                <span className={styles.progressText}>
+                  {progress.done} / {progress.total}
+                </span>
+              </div>
+            ) : (
+              <>
+                <p className={styles.previewSummary}>
+                  Dry run: <strong>{changes.length}</strong> memories would be updated.
+                  {changes.length > PREVIEW_LIMIT && ` Showing the first ${PREVIEW_LIMIT}.`}
+                </p>
+                <ul className={styles.previewList}>
+                  {changes.slice(0, PREVIEW_LIMIT).map(({ memory, before, after }) => (
+                    <li key={memory.id} className={styles.previewItem}>
+                      <span className={styles.previewTitle}>
+                        {memory.title || memory.file_path || memory.id.slice(0, 12)}
+                      </span>
+                      <span className={styles.previewTags}>
+                        {before.filter((t) => !after.includes(t)).map((t) => (
+                          <span key={`-${t}`} className={styles.removedTag}>{t}</span>
+                        ))}
+                        {after.filter((t) => !before.includes(t)).map((t) => (
+                          <span key={`+${t}`} className={styles.addedTag}>{t}</span>
+                        ))}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {failures && failures.length > 0 && (
+              <ul className={styles.failureList}>
+                {failures.map(({ item, error: message }) => (
+                  <li key={item.memory.id}>
+                    <strong>{item.memory.title || item.memory.id.slice(0, 12)}</strong>: {message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
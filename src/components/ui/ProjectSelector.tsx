@@ -8,15 +8,25 @@ interface ProjectSelectorProps {
   value: string | null;
   onChange: (projectId: string | null) => void;
   placeholder?: string;
+  // Offer an "All projects" option once a project is chosen
+  clearable?: boolean;
+  // Leave a project out of the list, e.g. the source when picking a target
+  excludeId?: string | null;
 }
 
-export function ProjectSelector({ value, onChange, placeholder = 'Select project...' }: ProjectSelectorProps) {
+export function ProjectSelector({
+  value,
+  onChange,
+  placeholder = 'Select project...',
+  clearable = true,
+  excludeId,
+}: ProjectSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
   const ref = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
 
   const { data: projectsData } = useSWR('projects', () => api.listProjects());
-  const projects = projectsData?.projects;
+  const projects = projectsData?.projects.filter((p) => p.id !== excludeId);
 
   const selectedProject = projects?.find((p) => p.id === value);
 
@@ -61,7 +71,7 @@ export function ProjectSelector({ value, onChange, placeholder = 'Select project
           ) : (
             <>
               <div className={styles.projectSelectorScroll}>
-                {value && (
+                {value && clearable && (
                   <button
                     className={styles.projectSelectorOption}
                     onClick={() => {
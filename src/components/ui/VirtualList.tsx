@@ -0,0 +1,91 @@
+import { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { ReactNode, Ref } from 'react';
+import styles from './ui.module.css';
+
+// Scroll offsets by scrollKey, so a list restores its position when remounted
+const scrollPositions = new Map<string, number>();
+
+export interface VirtualListHandle {
+  scrollToIndex: (index: number) => void;
+}
+
+interface VirtualListProps {
+  count: number;
+  // Fixed height of every row in pixels, including any spacing
+  rowHeight: number;
+  renderRow: (index: number) => ReactNode;
+  // Extra rows rendered above and below the viewport
+  overscan?: number;
+  // Called with the visible index range [start, end)
+  onRangeChange?: (start: number, end: number) => void;
+  scrollKey?: string;
+  className?: string;
+  ref?: Ref<VirtualListHandle>;
+}
+
+export function VirtualList({
+  count,
+  rowHeight,
+  renderRow,
+  overscan = 4,
+  onRangeChange,
+  scrollKey,
+  className,
+  ref,
+}: VirtualListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(() => (scrollKey ? scrollPositions.get(scrollKey) ?? 0 : 0));
+  const [viewportHeight, setViewportHeight] = useState(600);
+
+  useImperativeHandle(ref, () => ({
+    scrollToIndex: (index: number) => {
+      if (containerRef.current) containerRef.current.scrollTop = index * rowHeight;
+    },
+  }), [rowHeight]);
+
+  // Restore the saved offset once the rows exist to scroll through
+  useEffect(() => {
+    const el = containerRef.current;
+    if (el && scrollKey) el.scrollTop = scrollPositions.get(scrollKey) ?? 0;
+  }, [scrollKey]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const firstVisible = Math.floor(scrollTop / rowHeight);
+  const lastVisible = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight));
+  const start = Math.max(0, firstVisible - overscan);
+  const end = Math.min(count, lastVisible + overscan);
+
+  useEffect(() => {
+    onRangeChange?.(firstVisible, lastVisible);
+  }, [firstVisible, lastVisible, onRangeChange]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const top = e.currentTarget.scrollTop;
+    setScrollTop(top);
+    if (scrollKey) scrollPositions.set(scrollKey, top);
+  };
+
+  const rows: ReactNode[] = [];
+  for (let i = start; i < end; i++) {
+    rows.push(
+      <div key={i} className={styles.virtualRow} style={{ top: i * rowHeight, height: rowHeight }}>
+        {renderRow(i)}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className={`${styles.virtualList} ${className || ''}`} onScroll={handleScroll}>
+      <div className={styles.virtualSpacer} style={{ height: count * rowHeight }}>
+        {rows}
+      </div>
+    </div>
+  );
+}
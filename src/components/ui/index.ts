@@ -4,3 +4,4 @@ export { EmptyState } from './EmptyState';
 export { Modal } from './Modal';
 export { ProjectSelector } from './ProjectSelector';
 export { Pagination } from './Pagination';
+export { VirtualList, type VirtualListHandle } from './VirtualList';
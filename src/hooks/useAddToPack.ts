@@ -0,0 +1,66 @@
+/**
+ * Adds memories to the context pack, reading full content where needed.
+ *
+ * Tracks which memories are being fetched so add buttons can show progress,
+ * and reports the outcome as a toast.
+ */
+
+import { useState } from 'react';
+import type { Memory } from '../lib/api';
+import { runBatch } from '../lib/batch';
+import { packItemFromMemory, packItemKey } from '../lib/contextPack';
+import { useContextPack } from '../stores/contextPack';
+import { useToast } from '../components/ToastContext';
+
+interface AddOptions {
+  // Content already at hand (e.g. from a search hit); fetched when absent
+  content?: string;
+  projectName?: string;
+}
+
+export function useAddToPack() {
+  const items = useContextPack((s) => s.items);
+  const addItem = useContextPack((s) => s.addItem);
+  const { showToast } = useToast();
+  const [pending, setPending] = useState<Set<string>>(new Set());
+
+  const inPack = (projectId: string, memoryId: string) =>
+    items.some((i) => i.key === packItemKey(projectId, memoryId));
+
+  const add = async (projectId: string, memory: Memory, options: AddOptions = {}) => {
+    const key = packItemKey(projectId, memory.id);
+    if (inPack(projectId, memory.id) || pending.has(key)) return;
+    setPending((prev) => new Set(prev).add(key));
+    try {
+      const item = await packItemFromMemory(projectId, memory, options);
+      if (addItem(item)) showToast('Added to context pack', 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to add to context pack', 'error');
+    } finally {
+      setPending((prev) => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  // Several memories at once, e.g. a selection; one toast for the lot
+  const addMany = async (projectId: string, memories: Memory[]) => {
+    const missing = memories.filter((m) => !inPack(projectId, m.id));
+    const batch = await runBatch(missing, (memory) => packItemFromMemory(projectId, memory), { concurrency: 4 });
+    // Added in selection order, whatever order the reads finished in
+    const order = new Map(missing.map((m, i) => [m.id, i]));
+    const added = batch.succeeded
+      .sort((a, b) => order.get(a.item.id)! - order.get(b.item.id)!)
+      .filter(({ result }) => addItem(result)).length;
+    const failed = batch.failed.length;
+    if (added > 0) showToast(`Added ${added} ${added === 1 ? 'memory' : 'memories'} to context pack`, 'success');
+    if (failed > 0) showToast(`${failed} ${failed === 1 ? 'memory' : 'memories'} could not be read`, 'error');
+    if (added === 0 && failed === 0) showToast('Already in context pack', 'info');
+  };
+
+  const isPending = (projectId: string, memoryId: string) => pending.has(packItemKey(projectId, memoryId));
+
+  return { add, addMany, inPack, isPending };
+}
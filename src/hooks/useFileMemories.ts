@@ -0,0 +1,30 @@
+/**
+ * Loads every file-sourced memory in a project.
+ *
+ * There is no server-side filter by file path, so views that work per file
+ * (the file tree, chunk navigation) share this one cached listing. With
+ * `cachedOnly` the hook never fetches and returns only what is already cached.
+ */
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import { api } from '../lib/api';
+
+interface FileMemoriesOptions {
+  cachedOnly?: boolean;
+}
+
+export function useFileMemories(projectId: string | null, { cachedOnly = false }: FileMemoriesOptions = {}) {
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+
+  const result = useSWR(
+    projectId ? `memory-files-${projectId}` : null,
+    () => api.listAllMemories(projectId!, { source: 'file' }, (loaded, total) => setProgress({ loaded, total })),
+    {
+      revalidateOnFocus: false,
+      ...(cachedOnly && { revalidateOnMount: false, revalidateIfStale: false, revalidateOnReconnect: false }),
+    }
+  );
+
+  return { ...result, progress };
+}
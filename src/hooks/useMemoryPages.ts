@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { api } from '../lib/api';
+import type { ListMemoriesParams, Memory } from '../lib/api';
+
+// Offset-paged access to a memory list of any size. Pages are fetched on
+// demand around the visible range, so only what is scrolled past is loaded.
+
+const PAGE_SIZE = 50;
+// Pages fetched beyond each end of the visible range
+const PREFETCH_PAGES = 1;
+
+type ListParams = Omit<ListMemoriesParams, 'limit' | 'offset'>;
+
+interface PageState {
+  key: string | null;
+  pages: Record<number, Memory[]>;
+  total: number | null;
+  error: Error | null;
+}
+
+export interface MemoryPages {
+  // Number of memories matching the filters, once the first page has loaded
+  total: number | null;
+  error: Error | null;
+  get: (index: number) => Memory | undefined;
+  // Every memory loaded so far, in list order
+  loaded: () => Memory[];
+  // Make sure the pages covering [start, end) and their neighbours are loaded
+  ensureRange: (start: number, end: number) => void;
+  // Reload the pages last requested by ensureRange() and mark the rest stale
+  refresh: () => void;
+  // Fetch the single memory at an index, from cache when possible
+  fetchAt: (index: number) => Promise<Memory | undefined>;
+}
+
+export function useMemoryPages(
+  projectId: string | null,
+  params: ListParams,
+  options: { refreshInterval?: number } = {}
+): MemoryPages {
+  const key = projectId ? JSON.stringify({ projectId, params }) : null;
+  const [state, setState] = useState<PageState>({ key: null, pages: {}, total: null, error: null });
+  const activeKey = useRef(key);
+  const inflight = useRef(new Set<string>());
+  const loadedPages = useRef(new Set<string>());
+  const lastRange = useRef<{ key: string | null; first: number; last: number }>({ key: null, first: 0, last: 0 });
+
+  // State from a previous filter combination is ignored rather than reset
+  const current = state.key === key ? state : { key, pages: {}, total: null, error: null };
+
+  const loadPage = useCallback(
+    (page: number, force = false) => {
+      if (!key) return;
+      const id = `${key}#${page}`;
+      if (inflight.current.has(id) || (!force && loadedPages.current.has(id))) return;
+
+      const { projectId, params } = JSON.parse(key) as { projectId: string; params: ListParams };
+      inflight.current.add(id);
+      api
+        .listMemories(projectId, { ...params, limit: PAGE_SIZE, offset: page * PAGE_SIZE })
+        .then((result) => {
+          // Responses for a filter combination that is no longer shown are dropped
+          if (activeKey.current !== key) return;
+          loadedPages.current.add(id);
+          setState((prev) => {
+            const base = prev.key === key ? prev : { key, pages: {}, total: null, error: null };
+            return { ...base, pages: { ...base.pages, [page]: result.memories }, total: result.total, error: null };
+          });
+        })
+        .catch((err) => {
+          if (activeKey.current !== key) return;
+          setState((prev) => ({
+            ...(prev.key === key ? prev : { key, pages: {}, total: null }),
+            error: err instanceof Error ? err : new Error('Failed to load memories'),
+          }));
+        })
+        .finally(() => inflight.current.delete(id));
+    },
+    [key]
+  );
+
+  // The first page tells us how many memories there are
+  useEffect(() => {
+    activeKey.current = key;
+    loadedPages.current.clear();
+    loadPage(0);
+  }, [key, loadPage]);
+
+  const total = current.total;
+
+  const ensureRange = useCallback(
+    (start: number, end: number) => {
+      const first = Math.floor(start / PAGE_SIZE);
+      const last = Math.floor(Math.max(start, end - 1) / PAGE_SIZE);
+      lastRange.current = { key, first, last };
+
+      const lastPage = total !== null ? Math.max(0, Math.ceil(total / PAGE_SIZE) - 1) : 0;
+      for (let page = Math.max(0, first - PREFETCH_PAGES); page <= Math.min(lastPage, last + PREFETCH_PAGES); page++) {
+        loadPage(page);
+      }
+    },
+    [key, total, loadPage]
+  );
+
+  const refresh = useCallback(() => {
+    // Pages outside the range may be stale too, so they reload when next shown
+    loadedPages.current.clear();
+    const range = lastRange.current.key === key ? lastRange.current : { first: 0, last: 0 };
+    for (let page = range.first; page <= range.last; page++) {
+      loadPage(page, true);
+    }
+  }, [key, loadPage]);
+
+  useEffect(() => {
+    if (!options.refreshInterval) return;
+    const timer = setInterval(refresh, options.refreshInterval);
+    return () => clearInterval(timer);
+  }, [refresh, options.refreshInterval]);
+
+  const pages = current.pages;
+
+  const get = useCallback(
+    (index: number) => pages[Math.floor(index / PAGE_SIZE)]?.[index % PAGE_SIZE],
+    [pages]
+  );
+
+  const loaded = useCallback(
+    () =>
+      Object.keys(pages)
+        .map(Number)
+        .sort((a, b) => a - b)
+        .flatMap((page) => pages[page]),
+    [pages]
+  );
+
+  const fetchAt = useCallback(
+    async (index: number) => {
+      const cached = get(index);
+      if (cached || !key) return cached;
+      const { projectId, params } = JSON.parse(key) as { projectId: string; params: ListParams };
+      const result = await api.listMemories(projectId, { ...params, limit: 1, offset: index });
+      return result.memories[0];
+    },
+    [key, get]
+  );
+
+  return { total, error: current.error, get, loaded, ensureRange, refresh, fetchAt };
+}
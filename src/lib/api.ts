@@ -305,22 +305,66 @@ export interface Memory {
   keywords?: string[];
   context?: string;
   links?: string[];
+  // When keywords and context were last auto-extracted (not sent by older servers)
+  metadata_generated_at?: string;
 
   // Timestamps
   created_at: string;
   updated_at: string;
 }
 
+export type MemoryLinkType = 'related' | 'references' | 'depends_on' | 'modifies';
+
+export interface ListMemoriesParams {
+  source?: string;
+  tag?: string;
+  tags?: string[];
+  created_after?: string;
+  created_before?: string;
+  updated_after?: string;
+  updated_before?: string;
+  sort_by?: 'created_at' | 'updated_at' | 'title';
+  sort_dir?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
 export interface MemoryLink {
   id: string;
   project_id: string;
   source_id: string;
   target_id: string;
-  link_type: 'related' | 'references' | 'depends_on' | 'modifies';
+  link_type: MemoryLinkType;
   context?: string;
   created_at: string;
 }
 
+export interface UpdateMemoryRequest {
+  title?: string;
+  content?: string;
+  author?: string;
+  tags?: string[];
+  file_path?: string;
+  // Agentic metadata; edited values stand until the next regeneration
+  keywords?: string[];
+  context?: string;
+}
+
+// Either explicit memories or every memory matching the filters
+export interface RegenerateMetadataRequest {
+  memory_ids?: string[];
+  source?: string;
+  tags?: string[];
+  created_after?: string;
+  created_before?: string;
+}
+
+export interface CreateMemoryLinkRequest {
+  target_id: string;
+  link_type: MemoryLinkType;
+  context?: string;
+}
+
 export interface MemoryContext {
   memory: Memory & { content?: string };
   related: Array<{ id: string; title?: string; content_preview: string; link_type: string; link_context?: string }>;
@@ -681,19 +725,7 @@ class FoldApiClient {
 
   async getMemories(
     projectId: string,
-    params: {
-      source?: string;
-      tag?: string;
-      tags?: string[];
-      created_after?: string;
-      created_before?: string;
-      updated_after?: string;
-      updated_before?: string;
-      sort_by?: 'created_at' | 'updated_at' | 'title';
-      sort_dir?: 'asc' | 'desc';
-      limit?: number;
-      offset?: number;
-    } = {}
+    params: ListMemoriesParams = {}
   ): Promise<{ memories: Memory[]; total: number }> {
     const query = new URLSearchParams();
     if (params.source) query.set('source', params.source);
@@ -735,7 +767,7 @@ class FoldApiClient {
     projectId: string,
     query: string,
     options: SearchOptions = {}
-  ): Promise<{ results: Array<Memory & { score: number; strength?: number; combined_score?: number; content?: string }> }> {
+  ): Promise<{ results: Array<Memory & { score: number; strength?: number; combined_score?: number; content?: string; is_neighbour?: boolean }> }> {
     const body: Record<string, any> = {
       query,
       limit: options.limit || 10,
@@ -755,7 +787,7 @@ class FoldApiClient {
       body.decay_half_life_days = options.decay_half_life_days;
     }
 
-    return this._fetch<{ results: Array<Memory & { score: number; strength?: number; combined_score?: number; content?: string }> }>(
+    return this._fetch<{ results: Array<Memory & { score: number; strength?: number; combined_score?: number; content?: string; is_neighbour?: boolean }> }>(
       `/projects/${projectId}/search`,
       {
         method: 'POST',
@@ -777,19 +809,60 @@ class FoldApiClient {
     });
   }
 
-  async updateMemory(projectId: string, memoryId: string, data: {
-    title?: string;
-    content?: string;
-    author?: string;
-    tags?: string[];
-    file_path?: string;
-  }): Promise<Memory> {
+  async updateMemory(projectId: string, memoryId: string, data: UpdateMemoryRequest): Promise<Memory> {
     return this._fetch<Memory>(`/projects/${projectId}/memories/${memoryId}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     });
   }
 
+  /**
+   * Queue a job that re-extracts keywords and context.
+   * Servers that predate the endpoint answer 404/405/501, reported as such.
+   */
+  async regenerateMemoryMetadata(projectId: string, data: RegenerateMetadataRequest): Promise<{ job_id: string }> {
+    const headers: HeadersInit = { 'Content-Type': 'application/json' };
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(`${API_BASE}/projects/${projectId}/memories/regenerate-metadata`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(data),
+    });
+
+    if ([404, 405, 501].includes(response.status)) {
+      throw new Error('This Fold server does not support metadata regeneration yet');
+    }
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({
+        message: response.statusText,
+      }));
+      throw new Error(error.message || 'Failed to queue regeneration');
+    }
+
+    return response.json();
+  }
+
+  // Memory links
+  async listMemoryLinks(projectId: string, memoryId: string): Promise<{ links: MemoryLink[] }> {
+    return this._fetch<{ links: MemoryLink[] }>(`/projects/${projectId}/memories/${memoryId}/links`);
+  }
+
+  async createMemoryLink(projectId: string, memoryId: string, data: CreateMemoryLinkRequest): Promise<MemoryLink> {
+    return this._fetch<MemoryLink>(`/projects/${projectId}/memories/${memoryId}/links`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteMemoryLink(projectId: string, memoryId: string, linkId: string): Promise<void> {
+    return this._fetch<void>(`/projects/${projectId}/memories/${memoryId}/links/${linkId}`, {
+      method: 'DELETE',
+    });
+  }
+
   async flushMemories(projectId: string, pattern: string, dryRun: boolean = false): Promise<FlushResult> {
     return this._fetch<FlushResult>(`/projects/${projectId}/memories/flush`, {
       method: 'POST',
@@ -1154,33 +1227,36 @@ export const api = {
   // Memories
   listMemories: async (
     projectId: string,
-    params: {
-      source?: string;
-      tag?: string;
-      tags?: string[];
-      created_after?: string;
-      created_before?: string;
-      updated_after?: string;
-      updated_before?: string;
-      sort_by?: 'created_at' | 'updated_at' | 'title';
-      sort_dir?: 'asc' | 'desc';
-      limit?: number;
-      offset?: number;
-    } = {}
+    params: ListMemoriesParams = {}
   ) => {
     return apiClient.getMemories(projectId, params);
   },
+  // Page through every memory matching the filters
+  listAllMemories: async (
+    projectId: string,
+    params: Omit<ListMemoriesParams, 'limit' | 'offset'> = {},
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<Memory[]> => {
+    const pageSize = 100;
+    const all: Memory[] = [];
+    let total = Infinity;
+    while (all.length < total) {
+      const page = await apiClient.getMemories(projectId, { ...params, limit: pageSize, offset: all.length });
+      total = page.total;
+      all.push(...page.memories);
+      onProgress?.(all.length, total);
+      if (page.memories.length === 0) break;
+    }
+    return all;
+  },
   createMemory: (projectId: string, data: Partial<Memory>) =>
     apiClient.createMemory(projectId, data),
   deleteMemory: (projectId: string, memoryId: string) =>
     apiClient.deleteMemory(projectId, memoryId),
-  updateMemory: (projectId: string, memoryId: string, data: {
-    title?: string;
-    content?: string;
-    author?: string;
-    tags?: string[];
-    file_path?: string;
-  }) => apiClient.updateMemory(projectId, memoryId, data),
+  updateMemory: (projectId: string, memoryId: string, data: UpdateMemoryRequest) =>
+    apiClient.updateMemory(projectId, memoryId, data),
+  regenerateMemoryMetadata: (projectId: string, data: RegenerateMetadataRequest) =>
+    apiClient.regenerateMemoryMetadata(projectId, data),
   flushMemories: (projectId: string, pattern: string, dryRun?: boolean) =>
     apiClient.flushMemories(projectId, pattern, dryRun),
   getMemoryContext: (projectId: string, memoryId: string, depth?: number) =>
@@ -1188,6 +1264,17 @@ export const api = {
   downloadSourceFile: (projectId: string, memoryId: string) =>
     apiClient.downloadSourceFile(projectId, memoryId),
 
+  // Memory links
+  listMemoryLinks: async (projectId: string, memoryId: string): Promise<MemoryLink[]> => {
+    const result = await apiClient.listMemoryLinks(projectId, memoryId);
+    // Backend may return a bare array or a wrapped { links } object
+    return Array.isArray(result) ? result : result.links || [];
+  },
+  createMemoryLink: (projectId: string, memoryId: string, data: CreateMemoryLinkRequest) =>
+    apiClient.createMemoryLink(projectId, memoryId, data),
+  deleteMemoryLink: (projectId: string, memoryId: string, linkId: string) =>
+    apiClient.deleteMemoryLink(projectId, memoryId, linkId),
+
   // Search
   searchMemories: async (
     projectId: string,
@@ -1215,6 +1302,7 @@ export const api = {
         score: r.score,
         strength: r.strength,
         combined_score: r.combined_score,
+        is_neighbour: r.is_neighbour,
       })),
     };
   },
@@ -0,0 +1,49 @@
+// Batched API operations with progress and per-item failure reporting
+
+export interface BatchFailure<T> {
+  item: T;
+  error: string;
+}
+
+export interface BatchResult<T, R = unknown> {
+  succeeded: Array<{ item: T; result: R }>;
+  failed: BatchFailure<T>[];
+}
+
+export interface BatchProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Run `worker` over every item with limited concurrency.
+ * Failures are collected rather than thrown so one bad item doesn't abort the batch.
+ */
+export async function runBatch<T, R = unknown>(
+  items: T[],
+  worker: (item: T) => Promise<R>,
+  options: { concurrency?: number; onProgress?: (progress: BatchProgress) => void } = {}
+): Promise<BatchResult<T, R>> {
+  const concurrency = Math.max(1, options.concurrency ?? 4);
+  const result: BatchResult<T, R> = { succeeded: [], failed: [] };
+  let next = 0;
+  let done = 0;
+
+  options.onProgress?.({ done, total: items.length });
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        result.succeeded.push({ item, result: await worker(item) });
+      } catch (err) {
+        result.failed.push({ item, error: err instanceof Error ? err.message : String(err) });
+      }
+      done++;
+      options.onProgress?.({ done, total: items.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runWorker));
+  return result;
+}
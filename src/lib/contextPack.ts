@@ -0,0 +1,145 @@
+// Context packs: memories collected into a single prompt block
+//
+// Each entry renders as its title, file path with line range, then content,
+// the same shape agents get back from the MCP `memory_search` tool.
+
+import { api } from './api';
+import type { Memory } from './api';
+
+export type PackFormat = 'markdown' | 'xml';
+
+export interface PackItem {
+  // `${projectId}:${memoryId}`, so the same memory is only added once
+  key: string;
+  projectId: string;
+  projectName?: string;
+  memoryId: string;
+  title?: string;
+  file_path?: string;
+  language?: string;
+  line_start?: number;
+  line_end?: number;
+  content: string;
+  // Set when the content was shortened in the tray
+  trimmed?: boolean;
+}
+
+export const DEFAULT_TOKEN_BUDGET = 8000;
+
+export function packItemKey(projectId: string, memoryId: string) {
+  return `${projectId}:${memoryId}`;
+}
+
+/**
+ * Rough token estimate (about four characters per token for English and code).
+ * Good enough to stay under a budget; the model's tokenizer will differ slightly.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function itemLabel(item: Pick<PackItem, 'title' | 'file_path' | 'memoryId'>) {
+  return item.title || item.file_path || item.memoryId.slice(0, 12);
+}
+
+export function lineRange(item: Pick<PackItem, 'line_start' | 'line_end'>) {
+  if (item.line_start === undefined) return '';
+  return item.line_end !== undefined && item.line_end !== item.line_start
+    ? `${item.line_start}-${item.line_end}`
+    : `${item.line_start}`;
+}
+
+/**
+ * Build a pack entry for a memory. List and search responses may only carry a
+ * preview, so the full content is read unless it is passed in.
+ */
+export async function packItemFromMemory(
+  projectId: string,
+  memory: Memory,
+  options: { content?: string; projectName?: string } = {}
+): Promise<PackItem> {
+  let content = options.content;
+  if (content === undefined) {
+    const context = await api.getMemoryContext(projectId, memory.id, 1);
+    content = context?.memory?.content ?? memory.content ?? '';
+  }
+  return {
+    key: packItemKey(projectId, memory.id),
+    projectId,
+    projectName: options.projectName,
+    memoryId: memory.id,
+    title: memory.title,
+    file_path: memory.file_path,
+    language: memory.language,
+    line_start: memory.line_start,
+    line_end: memory.line_end,
+    content,
+  };
+}
+
+/** Cut content down to roughly `tokens`, ending on a line boundary where possible. */
+export function trimToTokens(content: string, tokens: number): string {
+  const limit = Math.max(0, tokens * 4);
+  if (content.length <= limit) return content;
+  const cut = content.slice(0, limit);
+  const lastBreak = cut.lastIndexOf('\n');
+  return lastBreak > limit / 2 ? cut.slice(0, lastBreak) : cut;
+}
+
+function escapeAttr(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function formatMarkdownItem(item: PackItem) {
+  const range = lineRange(item);
+  const lines = [`## ${itemLabel(item)}`];
+  if (item.file_path) lines.push(`\`${item.file_path}${range ? `:${range}` : ''}\``);
+  if (item.projectName) lines.push(`Project: ${item.projectName}`);
+  // Longer fences than any run of backticks in the content keep it intact
+  const longest = Math.max(2, ...(item.content.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longest + 1);
+  lines.push('', `${fence}${item.language ?? ''}`, item.content, fence);
+  return lines.join('\n');
+}
+
+function formatXmlItem(item: PackItem) {
+  const attrs = [`title="${escapeAttr(itemLabel(item))}"`];
+  if (item.file_path) attrs.push(`path="${escapeAttr(item.file_path)}"`);
+  const range = lineRange(item);
+  if (range) attrs.push(`lines="${range}"`);
+  if (item.projectName) attrs.push(`project="${escapeAttr(item.projectName)}"`);
+  return `<memory ${attrs.join(' ')}>\n${item.content}\n</memory>`;
+}
+
+export function formatPack(items: PackItem[], format: PackFormat): string {
+  if (format === 'xml') {
+    return `<memories>\n${items.map(formatXmlItem).join('\n')}\n</memories>\n`;
+  }
+  return `${items.map(formatMarkdownItem).join('\n\n')}\n`;
+}
+
+/**
+ * Shorten the pack to fit `budget` tokens, trimming from the end so the
+ * entries the user put first survive intact. Entries with nothing left are dropped.
+ */
+export function fitToBudget(items: PackItem[], budget: number, format: PackFormat): PackItem[] {
+  let fitted = items;
+  // The wrapper and headers are not part of the content, so converge in a few passes
+  for (let pass = 0; pass < 3; pass++) {
+    let excess = estimateTokens(formatPack(fitted, format)) - budget;
+    if (excess <= 0) break;
+    const next = [...fitted];
+    for (let i = next.length - 1; i >= 0 && excess > 0; i--) {
+      const tokens = estimateTokens(next[i].content);
+      if (tokens <= excess) {
+        excess -= estimateTokens(format === 'xml' ? formatXmlItem(next[i]) : formatMarkdownItem(next[i]));
+        next.splice(i, 1);
+      } else {
+        next[i] = { ...next[i], content: trimToTokens(next[i].content, tokens - excess), trimmed: true };
+        excess = 0;
+      }
+    }
+    fitted = next;
+  }
+  return fitted;
+}
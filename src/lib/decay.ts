@@ -0,0 +1,60 @@
+// Client-side estimate of memory strength, mirroring the server's decay scoring
+// so the memories that are fading out of search results can be reviewed.
+
+import type { AlgorithmConfig, Memory } from './api';
+
+// Memories tagged with this are treated as deliberately retired
+export const ARCHIVED_TAG = 'archived';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FadingMemory {
+  memory: Memory;
+  ageDays: number;
+  // Recency strength (0.0-1.0); halves every decay_half_life_days
+  strength: number;
+  // How much the decay lowers the combined search score of a perfect match
+  penalty: number;
+}
+
+export function memoryAgeDays(memory: Memory, now = Date.now()): number {
+  return Math.max(0, (now - new Date(memory.updated_at).getTime()) / DAY_MS);
+}
+
+export function memoryStrength(memory: Memory, halfLifeDays: number, now = Date.now()): number {
+  return Math.pow(0.5, memoryAgeDays(memory, now) / Math.max(1, halfLifeDays));
+}
+
+// Days from the last update until strength drops below the threshold
+export function daysUntilThreshold(threshold: number, halfLifeDays: number): number {
+  return Math.max(1, halfLifeDays) * Math.log2(1 / threshold);
+}
+
+export function isArchived(memory: Memory): boolean {
+  return memory.tags?.includes(ARCHIVED_TAG) ?? false;
+}
+
+/**
+ * Memories whose strength is below `threshold`, weakest first.
+ * Archived memories are left out since they were retired on purpose.
+ */
+export function findFadingMemories(
+  memories: Memory[],
+  config: AlgorithmConfig,
+  threshold: number,
+  now = Date.now()
+): FadingMemory[] {
+  return memories
+    .filter((memory) => !isArchived(memory))
+    .map((memory) => {
+      const strength = memoryStrength(memory, config.decay_half_life_days, now);
+      return {
+        memory,
+        ageDays: memoryAgeDays(memory, now),
+        strength,
+        penalty: config.strength_weight * (1 - strength),
+      };
+    })
+    .filter((item) => item.strength < threshold)
+    .sort((a, b) => a.strength - b.strength);
+}
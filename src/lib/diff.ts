@@ -0,0 +1,93 @@
+// Line-based text diff
+//
+// Classic LCS table over lines. Memory contents are small enough that the
+// quadratic table is cheap; very long inputs fall back to a whole-block replace.
+
+export type DiffKind = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  kind: DiffKind;
+  text: string;
+}
+
+/** One row of a side-by-side view; either side is absent for pure insertions/removals */
+export interface DiffRow {
+  left?: string;
+  right?: string;
+  kind: 'same' | 'changed' | 'added' | 'removed';
+}
+
+const MAX_CELLS = 4_000_000;
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      ...a.map((text) => ({ kind: 'removed' as const, text })),
+      ...b.map((text) => ({ kind: 'added' as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ kind: 'removed', text: a[i++] });
+    } else {
+      lines.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ kind: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ kind: 'added', text: b[j++] });
+
+  return lines;
+}
+
+/** Pairs up removed/added runs so changed lines sit next to each other */
+export function toSideBySide(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length);
+    for (let k = 0; k < count; k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({
+        left,
+        right,
+        kind: left !== undefined && right !== undefined ? 'changed' : left !== undefined ? 'removed' : 'added',
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.kind === 'removed') removed.push(line.text);
+    else if (line.kind === 'added') added.push(line.text);
+    else {
+      flush();
+      rows.push({ left: line.text, right: line.text, kind: 'same' });
+    }
+  }
+  flush();
+
+  return rows;
+}
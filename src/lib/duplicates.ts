@@ -0,0 +1,155 @@
+// Near-duplicate detection and merging
+//
+// Candidates come from each memory's `similar` list on the context endpoint.
+// Pairs above the score threshold are joined into clusters with union-find.
+
+import { api } from './api';
+import type { Memory, MemoryLink } from './api';
+import { runBatch } from './batch';
+import type { BatchProgress } from './batch';
+
+export interface DuplicatePair {
+  a: string;
+  b: string;
+  score: number;
+}
+
+export interface DuplicateCluster {
+  /** Stable key for the cluster (the id of its union-find root) */
+  id: string;
+  memories: Memory[];
+  pairs: DuplicatePair[];
+  maxScore: number;
+}
+
+export interface MergeResult {
+  linksMoved: number;
+  linksSkipped: number;
+  deleted: string[];
+  errors: string[];
+}
+
+export async function findDuplicateClusters(
+  projectId: string,
+  memories: Memory[],
+  options: { threshold: number; onProgress?: (progress: BatchProgress) => void }
+): Promise<{ clusters: DuplicateCluster[]; failed: number }> {
+  const byId = new Map(memories.map((m) => [m.id, m]));
+  const pairs = new Map<string, DuplicatePair>();
+
+  const result = await runBatch(
+    memories,
+    async (memory) => {
+      const context = await api.getMemoryContext(projectId, memory.id, 1);
+      for (const candidate of context.similar || []) {
+        if (candidate.id === memory.id || !byId.has(candidate.id) || candidate.score < options.threshold) continue;
+        const [a, b] = memory.id < candidate.id ? [memory.id, candidate.id] : [candidate.id, memory.id];
+        const key = `${a}|${b}`;
+        const existing = pairs.get(key);
+        if (!existing || existing.score < candidate.score) pairs.set(key, { a, b, score: candidate.score });
+      }
+    },
+    { onProgress: options.onProgress }
+  );
+
+  // Union-find over the pairs
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  for (const { a, b } of pairs.values()) {
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+    parent.set(find(a), find(b));
+  }
+
+  const groups = new Map<string, DuplicateCluster>();
+  for (const pair of pairs.values()) {
+    const root = find(pair.a);
+    let cluster = groups.get(root);
+    if (!cluster) {
+      cluster = { id: root, memories: [], pairs: [], maxScore: 0 };
+      groups.set(root, cluster);
+    }
+    cluster.pairs.push(pair);
+    cluster.maxScore = Math.max(cluster.maxScore, pair.score);
+  }
+  for (const cluster of groups.values()) {
+    const ids = new Set(cluster.pairs.flatMap((p) => [p.a, p.b]));
+    cluster.memories = [...ids].map((id) => byId.get(id)!);
+  }
+
+  return {
+    clusters: [...groups.values()].sort((x, y) => y.maxScore - x.maxScore || y.memories.length - x.memories.length),
+    failed: result.failed.length,
+  };
+}
+
+/**
+ * Merges `others` into `keep`: unions their tags onto `keep`, re-creates their
+ * links against `keep` (skipping self-links and links it already has), then
+ * deletes them. A memory is only deleted once all of its links were moved.
+ */
+export async function mergeMemories(projectId: string, keep: Memory, others: Memory[]): Promise<MergeResult> {
+  const result: MergeResult = { linksMoved: 0, linksSkipped: 0, deleted: [], errors: [] };
+  const mergedIds = new Set(others.map((m) => m.id));
+
+  const tags = [...new Set([...(keep.tags || []), ...others.flatMap((m) => m.tags || [])])];
+  if (tags.length !== (keep.tags || []).length) {
+    await api.updateMemory(projectId, keep.id, { tags });
+  }
+
+  const keepLinks = await api.listMemoryLinks(projectId, keep.id);
+  const linkKey = (source: string, target: string, type: string) => `${source}|${target}|${type}`;
+  const existing = new Set(keepLinks.map((l) => linkKey(l.source_id, l.target_id, l.link_type)));
+  const repoint = (id: string) => (mergedIds.has(id) ? keep.id : id);
+
+  for (const other of others) {
+    let links: MemoryLink[];
+    try {
+      links = await api.listMemoryLinks(projectId, other.id);
+    } catch (err) {
+      result.errors.push(`${other.title || other.id}: ${err instanceof Error ? err.message : 'failed to load links'}`);
+      continue;
+    }
+
+    let moved = true;
+    for (const link of links) {
+      const source = repoint(link.source_id);
+      const target = repoint(link.target_id);
+      const key = linkKey(source, target, link.link_type);
+      if (source === target || existing.has(key)) {
+        result.linksSkipped++;
+        continue;
+      }
+      try {
+        await api.createMemoryLink(projectId, source, {
+          target_id: target,
+          link_type: link.link_type,
+          context: link.context,
+        });
+        existing.add(key);
+        result.linksMoved++;
+      } catch (err) {
+        moved = false;
+        result.errors.push(`Link ${link.id}: ${err instanceof Error ? err.message : 'failed to re-create'}`);
+      }
+    }
+
+    if (!moved) {
+      result.errors.push(`${other.title || other.id} was kept because some links could not be moved`);
+      continue;
+    }
+    try {
+      await api.deleteMemory(projectId, other.id);
+      result.deleted.push(other.id);
+    } catch (err) {
+      result.errors.push(`${other.title || other.id}: ${err instanceof Error ? err.message : 'failed to delete'}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,186 @@
+// Offline evaluation of search relevance
+//
+// A query set pairs queries with the memory ids judged relevant to them. Each
+// query is run through the normal search endpoint and the returned ranking is
+// scored with recall@k, reciprocal rank and nDCG@k, then averaged over the set.
+
+import { api } from './api';
+import type { MemorySource, SearchOptions } from './api';
+import { runBatch } from './batch';
+import type { BatchProgress } from './batch';
+
+export interface EvalQuery {
+  id: string;
+  query: string;
+  // Relevant memory id -> graded relevance (1 = relevant, higher = more so)
+  relevant: Record<string, number>;
+}
+
+export interface EvalOptions {
+  k: number;
+  source?: MemorySource;
+  strength_weight?: number;
+  decay_half_life_days?: number;
+}
+
+export interface EvalMetrics {
+  recall: number;
+  mrr: number;
+  ndcg: number;
+}
+
+export interface QueryEvaluation extends EvalMetrics {
+  queryId: string;
+  query: string;
+  // Top k memory ids returned, in rank order, and their titles
+  retrieved: string[];
+  titles: Record<string, string>;
+  // Relevant ids that did not make the top k
+  missing: string[];
+  error?: string;
+}
+
+export interface EvalRun {
+  id: string;
+  ran_at: string;
+  label?: string;
+  options: EvalOptions;
+  metrics: EvalMetrics;
+  queries: QueryEvaluation[];
+}
+
+export function newEvalId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function recallAtK(retrieved: string[], relevant: Record<string, number>, k: number): number {
+  const ids = Object.keys(relevant);
+  if (ids.length === 0) return 0;
+  const top = new Set(retrieved.slice(0, k));
+  return ids.filter((id) => top.has(id)).length / ids.length;
+}
+
+export function reciprocalRank(retrieved: string[], relevant: Record<string, number>): number {
+  const index = retrieved.findIndex((id) => (relevant[id] ?? 0) > 0);
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+// Exponential gain, so a grade 2 hit counts for three times a grade 1 hit
+function dcg(grades: number[]): number {
+  return grades.reduce((sum, grade, i) => sum + (Math.pow(2, grade) - 1) / Math.log2(i + 2), 0);
+}
+
+export function ndcgAtK(retrieved: string[], relevant: Record<string, number>, k: number): number {
+  const ideal = dcg(Object.values(relevant).sort((a, b) => b - a).slice(0, k));
+  if (ideal === 0) return 0;
+  return dcg(retrieved.slice(0, k).map((id) => relevant[id] ?? 0)) / ideal;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Run every query of a set and score the rankings. Queries whose search fails
+ * are reported with an error and left out of the averages.
+ */
+export async function runEvaluation(
+  projectId: string,
+  queries: EvalQuery[],
+  options: EvalOptions,
+  onProgress?: (progress: BatchProgress) => void
+): Promise<Omit<EvalRun, 'id' | 'ran_at' | 'label'>> {
+  const searchOptions: SearchOptions = {
+    limit: options.k,
+    source: options.source,
+    strength_weight: options.strength_weight,
+    decay_half_life_days: options.decay_half_life_days,
+  };
+
+  const batch = await runBatch(
+    queries,
+    async (q): Promise<QueryEvaluation> => {
+      const data = await api.searchMemories(projectId, q.query, searchOptions);
+      const hits = data.results.slice(0, options.k);
+      const retrieved = hits.map((r) => r.memory.id);
+      const top = new Set(retrieved);
+      return {
+        queryId: q.id,
+        query: q.query,
+        retrieved,
+        titles: Object.fromEntries(hits.map((r) => [r.memory.id, r.memory.title || r.memory.file_path || ''])),
+        missing: Object.keys(q.relevant).filter((id) => !top.has(id)),
+        recall: recallAtK(retrieved, q.relevant, options.k),
+        mrr: reciprocalRank(retrieved, q.relevant),
+        ndcg: ndcgAtK(retrieved, q.relevant, options.k),
+      };
+    },
+    { concurrency: 2, onProgress }
+  );
+
+  const scored = batch.succeeded.map((s) => s.result);
+  const failed: QueryEvaluation[] = batch.failed.map(({ item, error }) => ({
+    queryId: item.id,
+    query: item.query,
+    retrieved: [],
+    titles: {},
+    missing: Object.keys(item.relevant),
+    recall: 0,
+    mrr: 0,
+    ndcg: 0,
+    error,
+  }));
+  // Keep the set's order in the breakdown
+  const order = new Map(queries.map((q, i) => [q.id, i]));
+  const all = [...scored, ...failed].sort((a, b) => order.get(a.queryId)! - order.get(b.queryId)!);
+
+  return {
+    options,
+    metrics: {
+      recall: mean(scored.map((q) => q.recall)),
+      mrr: mean(scored.map((q) => q.mrr)),
+      ndcg: mean(scored.map((q) => q.ndcg)),
+    },
+    queries: all,
+  };
+}
+
+/**
+ * Reads a query set from JSON. Accepts an array of queries or `{ "queries": [...] }`,
+ * where `relevant` is a list of memory ids or an object of id -> grade.
+ */
+export function parseQuerySet(json: string): EvalQuery[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const list = Array.isArray(data) ? data : (data as { queries?: unknown })?.queries;
+  if (!Array.isArray(list)) throw new Error('Expected an array of queries or an object with a "queries" array');
+
+  return list.map((entry, i) => {
+    const { query, relevant } = (entry ?? {}) as { query?: unknown; relevant?: unknown };
+    if (typeof query !== 'string' || !query.trim()) throw new Error(`Query ${i + 1} has no "query" text`);
+
+    const grades: Record<string, number> = {};
+    if (Array.isArray(relevant)) {
+      for (const id of relevant) if (typeof id === 'string') grades[id] = 1;
+    } else if (relevant && typeof relevant === 'object') {
+      for (const [id, grade] of Object.entries(relevant)) {
+        if (typeof grade === 'number' && grade > 0) grades[id] = grade;
+      }
+    } else {
+      throw new Error(`Query ${i + 1} ("${query}") has no "relevant" ids`);
+    }
+    return { id: newEvalId(), query: query.trim(), relevant: grades };
+  });
+}
+
+export function serializeQuerySet(queries: EvalQuery[]): string {
+  return JSON.stringify(
+    { queries: queries.map((q) => ({ query: q.query, relevant: q.relevant })) },
+    null,
+    2
+  );
+}
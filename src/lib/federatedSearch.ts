@@ -0,0 +1,83 @@
+// Searching several projects at once
+//
+// The API searches a single project per request, so the query is sent to every
+// project in scope in parallel and the hits are merged as responses arrive.
+// Each project ranks with its own decay settings; the merged order simply
+// follows the scores each project returned.
+
+import { api } from './api';
+import type { MemorySource, Project, SearchOptions, SearchResult } from './api';
+import { runBatch } from './batch';
+
+export type SearchScope = 'project' | 'all' | 'group';
+
+export interface FederatedResult extends SearchResult {
+  project: Project;
+}
+
+export interface ProjectSearchFailure {
+  project: Project;
+  error: string;
+}
+
+export interface FederatedSearchUpdate {
+  results: FederatedResult[];
+  failures: ProjectSearchFailure[];
+  done: number;
+  total: number;
+}
+
+const PROJECT_PAGE_SIZE = 100;
+
+// Score the results are merged by
+export function rankScore(result: SearchResult): number {
+  return result.combined_score ?? result.similarity;
+}
+
+// Merge two ranked lists, best first, keeping at most `limit` hits
+export function mergeResults(a: FederatedResult[], b: FederatedResult[], limit: number): FederatedResult[] {
+  return [...a, ...b].sort((x, y) => rankScore(y) - rankScore(x)).slice(0, limit);
+}
+
+// Every project, or every project of a group, across all pages
+export async function listScopeProjects(group?: string): Promise<Project[]> {
+  const projects: Project[] = [];
+  for (;;) {
+    const page = await api.listProjects({ limit: PROJECT_PAGE_SIZE, offset: projects.length, group });
+    projects.push(...page.projects);
+    if (page.projects.length === 0 || projects.length >= page.total) return projects;
+  }
+}
+
+/**
+ * Search `projects` in parallel, calling `onUpdate` with the merged results so far
+ * each time a project responds. A failing project is reported, not thrown.
+ * Hits rejected by `accept` are dropped before merging.
+ */
+export async function federatedSearch(
+  projects: Project[],
+  query: string,
+  options: SearchOptions & { source?: MemorySource; limit: number },
+  onUpdate?: (update: FederatedSearchUpdate) => void,
+  { concurrency = 6, accept }: { concurrency?: number; accept?: (result: SearchResult) => boolean } = {}
+): Promise<FederatedSearchUpdate> {
+  const update: FederatedSearchUpdate = { results: [], failures: [], done: 0, total: projects.length };
+
+  await runBatch(
+    projects,
+    async (project) => {
+      try {
+        const data = await api.searchMemories(project.id, query, options);
+        const hits = data.results.filter((result) => !accept || accept(result)).map((result) => ({ ...result, project }));
+        update.results = mergeResults(update.results, hits, options.limit);
+      } catch (err) {
+        update.failures = [...update.failures, { project, error: err instanceof Error ? err.message : 'Search failed' }];
+      }
+      update.done++;
+      onUpdate?.({ ...update });
+    },
+    { concurrency }
+  );
+
+  return update;
+}
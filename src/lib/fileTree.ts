@@ -0,0 +1,107 @@
+// File tree helpers
+//
+// Builds a directory tree from the `file_path` of file-sourced memories so the
+// indexed parts of a repository can be browsed by folder.
+
+import type { Memory } from './api';
+
+export interface FileEntry {
+  path: string;
+  name: string;
+  language?: string;
+  memories: Memory[];
+}
+
+export interface DirEntry {
+  path: string;
+  name: string;
+  dirs: DirEntry[];
+  files: FileEntry[];
+  /** Total memories under this directory, including subdirectories */
+  count: number;
+}
+
+/** A line range in a file, either covered by a chunk or missing from the index */
+export type ChunkSegment =
+  | { kind: 'chunk'; memory: Memory; start: number; end: number }
+  | { kind: 'gap'; start: number; end: number };
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.?\/+/, '');
+}
+
+export function buildFileTree(memories: Memory[]): DirEntry {
+  const root: DirEntry = { path: '', name: '', dirs: [], files: [], count: 0 };
+  const dirs = new Map<string, DirEntry>([['', root]]);
+  const files = new Map<string, FileEntry>();
+
+  for (const memory of memories) {
+    if (!memory.file_path) continue;
+    const path = normalizePath(memory.file_path);
+    const parts = path.split('/').filter(Boolean);
+    if (parts.length === 0) continue;
+
+    let dir = root;
+    dir.count++;
+    for (let i = 0; i < parts.length - 1; i++) {
+      const dirPath = parts.slice(0, i + 1).join('/');
+      let next = dirs.get(dirPath);
+      if (!next) {
+        next = { path: dirPath, name: parts[i], dirs: [], files: [], count: 0 };
+        dirs.set(dirPath, next);
+        dir.dirs.push(next);
+      }
+      next.count++;
+      dir = next;
+    }
+
+    let file = files.get(path);
+    if (!file) {
+      file = { path, name: parts[parts.length - 1], language: memory.language, memories: [] };
+      files.set(path, file);
+      dir.files.push(file);
+    }
+    file.memories.push(memory);
+  }
+
+  const sortDir = (dir: DirEntry) => {
+    dir.dirs.sort((a, b) => a.name.localeCompare(b.name));
+    dir.files.sort((a, b) => a.name.localeCompare(b.name));
+    dir.dirs.forEach(sortDir);
+  };
+  sortDir(root);
+
+  return root;
+}
+
+/**
+ * Orders a file's chunks by line and fills the uncovered ranges between them
+ * with gap segments. Chunks without a line range are returned separately.
+ */
+export function buildChunkSegments(memories: Memory[]): {
+  segments: ChunkSegment[];
+  unranged: Memory[];
+  /** Number of distinct lines covered by at least one chunk */
+  coveredLines: number;
+} {
+  const ranged = memories
+    .filter((m) => m.line_start != null && m.line_end != null)
+    .sort((a, b) => a.line_start! - b.line_start! || a.line_end! - b.line_end!);
+  const unranged = memories.filter((m) => m.line_start == null || m.line_end == null);
+
+  const segments: ChunkSegment[] = [];
+  let covered = 0;
+  let gapLines = 0;
+  for (const memory of ranged) {
+    const start = memory.line_start!;
+    const end = memory.line_end!;
+    if (start > covered + 1) {
+      segments.push({ kind: 'gap', start: covered + 1, end: start - 1 });
+      gapLines += start - 1 - covered;
+    }
+    segments.push({ kind: 'chunk', memory, start, end });
+    covered = Math.max(covered, end);
+  }
+
+  return { segments, unranged, coveredLines: covered - gapLines };
+}
@@ -0,0 +1,231 @@
+// Memory graph helpers
+//
+// The backend no longer exposes graph endpoints, so the graph is rebuilt on the
+// client by walking the context endpoint outward from a seed memory.
+
+import { api } from './api';
+import type { MemoryContext, MemorySource } from './api';
+import { runBatch } from './batch';
+
+// Context calls run a vector search each, so only a few are in flight at once
+const CONTEXT_CONCURRENCY = 4;
+
+export interface GraphNode {
+  id: string;
+  title?: string;
+  file_path?: string;
+  source?: MemorySource;
+  /** Number of hops from the seed memory */
+  hop: number;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: 'link' | 'similar';
+  link_type?: string;
+  /** Similarity score (similar edges only) */
+  score?: number;
+}
+
+export interface MemoryGraph {
+  seedId: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** True when the walk stopped early because maxNodes was reached */
+  truncated: boolean;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Walk memory context outward from a seed, expanding every newly discovered
+ * memory until `depth` hops have been visited or `maxNodes` is reached.
+ * Each hop asks the server for depth 1 only, so every edge starts at the
+ * memory it was found from.
+ */
+export async function walkMemoryGraph(
+  projectId: string,
+  seedId: string,
+  options: { depth?: number; maxNodes?: number } = {}
+): Promise<MemoryGraph> {
+  const depth = options.depth ?? 2;
+  const maxNodes = options.maxNodes ?? 80;
+
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  let truncated = false;
+
+  const addNode = (node: GraphNode) => {
+    const existing = nodes.get(node.id);
+    if (existing) {
+      // Fill in details learned from a later context fetch
+      nodes.set(node.id, {
+        ...existing,
+        title: existing.title ?? node.title,
+        file_path: existing.file_path ?? node.file_path,
+        source: existing.source ?? node.source,
+      });
+      return false;
+    }
+    if (nodes.size >= maxNodes) {
+      truncated = true;
+      return false;
+    }
+    nodes.set(node.id, node);
+    return true;
+  };
+
+  const addEdge = (edge: GraphEdge) => {
+    // Similarity is symmetric, so key it independently of direction
+    const key = edge.kind === 'similar'
+      ? `similar:${[edge.source, edge.target].sort().join('|')}`
+      : `link:${edge.source}|${edge.target}|${edge.link_type}`;
+    if (!edges.has(key)) edges.set(key, edge);
+  };
+
+  addNode({ id: seedId, hop: 0 });
+  let frontier = [seedId];
+
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    // Memories whose context fails to load stay in the graph without expanding
+    const batch = await runBatch(frontier, (id) => api.getMemoryContext(projectId, id, 1), {
+      concurrency: CONTEXT_CONCURRENCY,
+    });
+    const contexts = new Map<string, MemoryContext>(batch.succeeded.map(({ item, result }) => [item, result]));
+    const next: string[] = [];
+
+    frontier.forEach((fromId) => {
+      const ctx = contexts.get(fromId);
+      if (!ctx) return;
+      const memory = ctx.memory;
+      addNode({
+        id: fromId,
+        title: memory?.title,
+        file_path: memory?.file_path,
+        source: memory?.source,
+        hop,
+      });
+
+      for (const related of ctx.related || []) {
+        if (addNode({ id: related.id, title: related.title, hop: hop + 1 })) next.push(related.id);
+        if (nodes.has(related.id)) {
+          addEdge({ source: fromId, target: related.id, kind: 'link', link_type: related.link_type });
+        }
+      }
+      for (const similar of ctx.similar || []) {
+        if (addNode({ id: similar.id, title: similar.title, hop: hop + 1 })) next.push(similar.id);
+        if (nodes.has(similar.id)) {
+          addEdge({ source: fromId, target: similar.id, kind: 'similar', score: similar.score });
+        }
+      }
+    });
+
+    frontier = next;
+  }
+
+  // Drop similarity edges between memories that are already explicitly linked
+  const linked = new Set(
+    [...edges.values()]
+      .filter((e) => e.kind === 'link')
+      .map((e) => [e.source, e.target].sort().join('|'))
+  );
+
+  return {
+    seedId,
+    nodes: [...nodes.values()],
+    edges: [...edges.values()].filter(
+      (e) => e.kind === 'link' || !linked.has([e.source, e.target].sort().join('|'))
+    ),
+    truncated,
+  };
+}
+
+/**
+ * Deterministic force-directed layout (Fruchterman-Reingold).
+ * The seed is pinned at the centre; other nodes start on rings by hop.
+ */
+export function layoutGraph(
+  graph: MemoryGraph,
+  width: number,
+  height: number,
+  iterations = 300
+): Record<string, Point> {
+  const cx = width / 2;
+  const cy = height / 2;
+  const positions: Record<string, Point> = {};
+  const count = graph.nodes.length;
+  if (count === 0) return positions;
+
+  const k = Math.sqrt((width * height) / count) * 0.6;
+  const ringStep = Math.min(width, height) / 6;
+
+  graph.nodes.forEach((node, i) => {
+    if (node.id === graph.seedId) {
+      positions[node.id] = { x: cx, y: cy };
+      return;
+    }
+    const angle = (i / count) * Math.PI * 2;
+    const radius = ringStep * Math.max(1, node.hop);
+    positions[node.id] = { x: cx + Math.cos(angle) * radius, y: cy + Math.sin(angle) * radius };
+  });
+
+  let temperature = width / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const disp: Record<string, Point> = {};
+    for (const node of graph.nodes) disp[node.id] = { x: 0, y: 0 };
+
+    // Repulsion between every pair
+    for (let i = 0; i < count; i++) {
+      const a = graph.nodes[i].id;
+      for (let j = i + 1; j < count; j++) {
+        const b = graph.nodes[j].id;
+        const dx = positions[a].x - positions[b].x;
+        const dy = positions[a].y - positions[b].y;
+        const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+        const force = (k * k) / dist;
+        disp[a].x += (dx / dist) * force;
+        disp[a].y += (dy / dist) * force;
+        disp[b].x -= (dx / dist) * force;
+        disp[b].y -= (dy / dist) * force;
+      }
+    }
+
+    // Attraction along edges (similar edges pull proportionally to score)
+    for (const edge of graph.edges) {
+      const a = positions[edge.source];
+      const b = positions[edge.target];
+      if (!a || !b) continue;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+      const strength = edge.kind === 'similar' ? (edge.score ?? 0.5) : 1;
+      const force = ((dist * dist) / k) * strength;
+      disp[edge.source].x -= (dx / dist) * force;
+      disp[edge.source].y -= (dy / dist) * force;
+      disp[edge.target].x += (dx / dist) * force;
+      disp[edge.target].y += (dy / dist) * force;
+    }
+
+    for (const node of graph.nodes) {
+      if (node.id === graph.seedId) continue;
+      const d = disp[node.id];
+      const len = Math.max(Math.sqrt(d.x * d.x + d.y * d.y), 0.01);
+      const p = positions[node.id];
+      p.x += (d.x / len) * Math.min(len, temperature);
+      p.y += (d.y / len) * Math.min(len, temperature);
+      // Keep nodes inside the canvas with a small margin
+      p.x = Math.min(width - 30, Math.max(30, p.x));
+      p.y = Math.min(height - 30, Math.max(30, p.y));
+    }
+
+    temperature -= cooling;
+  }
+
+  return positions;
+}
@@ -0,0 +1,248 @@
+// Lightweight syntax highlighting for indexed source chunks
+//
+// A single regex pass per language picks out comments, strings, numbers and
+// identifiers; identifiers are then classified as keywords, types or calls.
+// It is deliberately approximate — good enough for reading code, not parsing it.
+
+export type TokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'type' | 'function';
+
+export interface HighlightToken {
+  kind: TokenKind;
+  text: string;
+}
+
+interface LanguageSpec {
+  keywords: string[];
+  /** Regex sources for comment forms, tried before strings */
+  comments: string[];
+  /** Regex sources for string and char literal forms */
+  strings: string[];
+  /** Treat capitalised identifiers as type names */
+  capitalTypes?: boolean;
+}
+
+const C_COMMENTS = ['//[^\\n]*', '/\\*[\\s\\S]*?\\*/'];
+const HASH_COMMENTS = ['#[^\\n]*'];
+const DOUBLE = '"(?:\\\\.|[^"\\\\\\n])*"';
+const SINGLE = "'(?:\\\\.|[^'\\\\\\n])*'";
+const BACKTICK = '`(?:\\\\.|[^`\\\\])*`';
+
+const JS_KEYWORDS = [
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+  'debugger', 'declare', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'false',
+  'finally', 'for', 'from', 'function', 'get', 'if', 'implements', 'import', 'in', 'instanceof',
+  'interface', 'keyof', 'let', 'new', 'null', 'of', 'private', 'protected', 'public', 'readonly',
+  'return', 'satisfies', 'set', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type',
+  'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+];
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  javascript: { keywords: JS_KEYWORDS, comments: C_COMMENTS, strings: [DOUBLE, SINGLE, BACKTICK], capitalTypes: true },
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+      'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is',
+      'lambda', 'match', 'case', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self',
+      'True', 'try', 'while', 'with', 'yield',
+    ],
+    comments: HASH_COMMENTS,
+    strings: ['[rbfuRBFU]{0,2}"""[\\s\\S]*?"""', "[rbfuRBFU]{0,2}'''[\\s\\S]*?'''", `[rbfuRBFU]{0,2}${DOUBLE}`, `[rbfuRBFU]{0,2}${SINGLE}`],
+    capitalTypes: true,
+  },
+  rust: {
+    keywords: [
+      'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern',
+      'false', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub',
+      'ref', 'return', 'self', 'Self', 'static', 'struct', 'super', 'trait', 'true', 'type', 'unsafe',
+      'use', 'where', 'while',
+    ],
+    comments: C_COMMENTS,
+    strings: ['r#*"[\\s\\S]*?"#*', DOUBLE, "'(?:\\\\.|[^'\\\\\\n])'"],
+    capitalTypes: true,
+  },
+  go: {
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'false',
+      'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range',
+      'return', 'select', 'struct', 'switch', 'true', 'type', 'var',
+    ],
+    comments: C_COMMENTS,
+    strings: [DOUBLE, SINGLE, '`[^`]*`'],
+    capitalTypes: true,
+  },
+  java: {
+    keywords: [
+      'abstract', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+      'default', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for',
+      'fun', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'new', 'null',
+      'object', 'override', 'package', 'private', 'protected', 'public', 'return', 'short', 'static',
+      'super', 'switch', 'this', 'throw', 'throws', 'true', 'try', 'val', 'var', 'void', 'when', 'while',
+    ],
+    comments: C_COMMENTS,
+    strings: ['"""[\\s\\S]*?"""', DOUBLE, SINGLE],
+    capitalTypes: true,
+  },
+  c: {
+    keywords: [
+      'auto', 'bool', 'break', 'case', 'char', 'class', 'const', 'constexpr', 'continue', 'default',
+      'delete', 'do', 'double', 'else', 'enum', 'extern', 'false', 'float', 'for', 'if', 'include',
+      'inline', 'int', 'long', 'namespace', 'new', 'nullptr', 'private', 'protected', 'public',
+      'return', 'short', 'signed', 'sizeof', 'static', 'struct', 'switch', 'template', 'this', 'true',
+      'typedef', 'typename', 'union', 'unsigned', 'using', 'virtual', 'void', 'volatile', 'while',
+    ],
+    comments: C_COMMENTS,
+    strings: [DOUBLE, SINGLE],
+    capitalTypes: true,
+  },
+  csharp: {
+    keywords: [
+      'abstract', 'async', 'await', 'base', 'bool', 'break', 'case', 'catch', 'class', 'const',
+      'continue', 'default', 'do', 'else', 'enum', 'false', 'finally', 'for', 'foreach', 'get', 'if',
+      'in', 'int', 'interface', 'internal', 'is', 'namespace', 'new', 'null', 'out', 'override',
+      'private', 'protected', 'public', 'readonly', 'record', 'return', 'set', 'static', 'string',
+      'struct', 'switch', 'this', 'throw', 'true', 'try', 'using', 'var', 'virtual', 'void', 'while',
+    ],
+    comments: C_COMMENTS,
+    strings: [`@?\\$?${DOUBLE}`, SINGLE],
+    capitalTypes: true,
+  },
+  ruby: {
+    keywords: [
+      'alias', 'and', 'begin', 'break', 'case', 'class', 'def', 'do', 'else', 'elsif', 'end', 'ensure',
+      'false', 'for', 'if', 'in', 'module', 'next', 'nil', 'not', 'or', 'redo', 'rescue', 'retry',
+      'return', 'self', 'super', 'then', 'true', 'unless', 'until', 'when', 'while', 'yield',
+    ],
+    comments: HASH_COMMENTS,
+    strings: [DOUBLE, SINGLE],
+    capitalTypes: true,
+  },
+  php: {
+    keywords: [
+      'abstract', 'array', 'as', 'break', 'case', 'catch', 'class', 'const', 'continue', 'echo',
+      'else', 'elseif', 'extends', 'false', 'final', 'finally', 'fn', 'for', 'foreach', 'function',
+      'if', 'implements', 'interface', 'namespace', 'new', 'null', 'private', 'protected', 'public',
+      'return', 'static', 'switch', 'throw', 'trait', 'true', 'try', 'use', 'while',
+    ],
+    comments: [...C_COMMENTS, ...HASH_COMMENTS],
+    strings: [DOUBLE, SINGLE],
+    capitalTypes: true,
+  },
+  shell: {
+    keywords: [
+      'case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in',
+      'local', 'readonly', 'return', 'select', 'then', 'until', 'while',
+    ],
+    comments: HASH_COMMENTS,
+    strings: [DOUBLE, "'[^']*'"],
+  },
+  sql: {
+    keywords: [
+      'add', 'all', 'alter', 'and', 'as', 'asc', 'begin', 'between', 'by', 'case', 'commit', 'create',
+      'delete', 'desc', 'distinct', 'drop', 'else', 'end', 'exists', 'foreign', 'from', 'group',
+      'having', 'if', 'in', 'index', 'inner', 'insert', 'into', 'is', 'join', 'key', 'left', 'like',
+      'limit', 'not', 'null', 'offset', 'on', 'or', 'order', 'outer', 'primary', 'references', 'right',
+      'select', 'set', 'table', 'then', 'union', 'unique', 'update', 'values', 'when', 'where', 'with',
+    ],
+    comments: ['--[^\\n]*', '/\\*[\\s\\S]*?\\*/'],
+    strings: [SINGLE, DOUBLE],
+  },
+  json: { keywords: ['true', 'false', 'null'], comments: [], strings: [DOUBLE] },
+  yaml: { keywords: ['true', 'false', 'null', 'yes', 'no', 'on', 'off'], comments: HASH_COMMENTS, strings: [DOUBLE, SINGLE] },
+  toml: { keywords: ['true', 'false'], comments: HASH_COMMENTS, strings: ['"""[\\s\\S]*?"""', DOUBLE, SINGLE] },
+  css: {
+    keywords: ['important', 'media', 'import', 'keyframes', 'from', 'to', 'supports', 'root', 'hover', 'focus'],
+    comments: ['/\\*[\\s\\S]*?\\*/'],
+    strings: [DOUBLE, SINGLE],
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'javascript', tsx: 'javascript', typescript: 'javascript',
+  py: 'python',
+  rs: 'rust',
+  golang: 'go',
+  kotlin: 'java', kt: 'java', scala: 'java', swift: 'java',
+  cpp: 'c', 'c++': 'c', cc: 'c', h: 'c', hpp: 'c', objc: 'c',
+  cs: 'csharp', 'c#': 'csharp',
+  rb: 'ruby',
+  bash: 'shell', sh: 'shell', zsh: 'shell',
+  yml: 'yaml',
+  scss: 'css', sass: 'css', less: 'css',
+};
+
+/** Resolves a memory's language (or failing that its file extension) to a known spec name */
+export function resolveLanguage(language?: string, filePath?: string): string | null {
+  const candidates = [language?.toLowerCase(), filePath?.split('.').pop()?.toLowerCase()];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    if (LANGUAGES[candidate]) return candidate;
+    if (ALIASES[candidate]) return ALIASES[candidate];
+  }
+  return null;
+}
+
+const patternCache = new Map<string, RegExp>();
+
+function patternFor(name: string, spec: LanguageSpec): RegExp {
+  let pattern = patternCache.get(name);
+  if (!pattern) {
+    const groups = [
+      spec.comments.length ? `(?<comment>${spec.comments.join('|')})` : null,
+      `(?<string>${spec.strings.join('|')})`,
+      '(?<number>\\b(?:0[xX][\\da-fA-F_]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b)',
+      '(?<word>[A-Za-z_$][\\w$]*)',
+    ].filter(Boolean);
+    pattern = new RegExp(groups.join('|'), 'g');
+    patternCache.set(name, pattern);
+  }
+  return pattern;
+}
+
+function tokenize(code: string, name: string): HighlightToken[] {
+  const spec = LANGUAGES[name];
+  const keywords = new Set(name === 'sql' ? spec.keywords.flatMap((k) => [k, k.toUpperCase()]) : spec.keywords);
+  const pattern = patternFor(name, spec);
+  const tokens: HighlightToken[] = [];
+  let last = 0;
+
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(code); match; match = pattern.exec(code)) {
+    if (match.index > last) tokens.push({ kind: 'plain', text: code.slice(last, match.index) });
+    const text = match[0];
+    const groups = match.groups || {};
+
+    let kind: TokenKind = 'plain';
+    if (groups.comment) kind = 'comment';
+    else if (groups.string) kind = 'string';
+    else if (groups.number) kind = 'number';
+    else if (keywords.has(text)) kind = 'keyword';
+    else if (/^\s*\(/.test(code.slice(pattern.lastIndex, pattern.lastIndex + 8))) kind = 'function';
+    else if (spec.capitalTypes && /^[A-Z][a-z]/.test(text)) kind = 'type';
+
+    tokens.push({ kind, text });
+    last = pattern.lastIndex;
+  }
+  if (last < code.length) tokens.push({ kind: 'plain', text: code.slice(last) });
+
+  return tokens;
+}
+
+/**
+ * Highlights code and returns it split into lines of tokens. Unknown languages
+ * come back as plain text, one token per line.
+ */
+export function highlightLines(code: string, language: string | null): HighlightToken[][] {
+  const tokens = language && LANGUAGES[language] ? tokenize(code, language) : [{ kind: 'plain' as const, text: code }];
+
+  // Tokens such as block comments can span lines, so split them at newlines
+  const lines: HighlightToken[][] = [[]];
+  for (const token of tokens) {
+    const parts = token.text.split('\n');
+    parts.forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ kind: token.kind, text: part });
+    });
+  }
+  return lines;
+}
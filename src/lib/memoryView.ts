@@ -0,0 +1,142 @@
+import type { Memory, MemorySource } from './api';
+
+// Filter and sort state of the Memories page. The query string is the
+// source of truth so any view can be bookmarked, shared or saved.
+
+export type ViewMode = 'list' | 'files';
+export type SortField = 'created_at' | 'updated_at' | 'title';
+export type SortDir = 'asc' | 'desc';
+export type DatePreset = 'all' | 'today' | 'week' | 'month' | 'custom';
+
+export interface MemoryViewState {
+  view: ViewMode;
+  source: MemorySource | null;
+  tags: string[];
+  datePreset: DatePreset;
+  // YYYY-MM-DD, only used with the custom preset
+  after: string;
+  before: string;
+  sortBy: SortField;
+  sortDir: SortDir;
+}
+
+export const DEFAULT_MEMORY_VIEW: MemoryViewState = {
+  view: 'list',
+  source: null,
+  tags: [],
+  datePreset: 'all',
+  after: '',
+  before: '',
+  sortBy: 'updated_at',
+  sortDir: 'desc',
+};
+
+const SOURCES: MemorySource[] = ['file', 'manual', 'generated'];
+const SORT_FIELDS: SortField[] = ['created_at', 'updated_at', 'title'];
+const DATE_PRESETS: DatePreset[] = ['all', 'today', 'week', 'month', 'custom'];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function oneOf<T extends string>(value: string | null, allowed: T[]): T | null {
+  return value !== null && (allowed as string[]).includes(value) ? (value as T) : null;
+}
+
+export function parseMemoryView(params: URLSearchParams): MemoryViewState {
+  const d = DEFAULT_MEMORY_VIEW;
+  // `tag` is the single-tag form used by older links
+  const tagsParam = params.get('tags') ?? params.get('tag') ?? '';
+  const after = params.get('after') || '';
+  const before = params.get('before') || '';
+
+  return {
+    view: oneOf(params.get('view'), ['list', 'files']) ?? d.view,
+    source: oneOf(params.get('source'), SOURCES),
+    tags: tagsParam.split(',').map((t) => t.trim()).filter(Boolean),
+    datePreset: oneOf(params.get('date'), DATE_PRESETS) ?? d.datePreset,
+    after: DATE_RE.test(after) ? after : '',
+    before: DATE_RE.test(before) ? before : '',
+    sortBy: oneOf(params.get('sort'), SORT_FIELDS) ?? d.sortBy,
+    sortDir: oneOf(params.get('dir'), ['asc', 'desc']) ?? d.sortDir,
+  };
+}
+
+// Serialize a view, leaving out defaults so URLs stay short
+export function memoryViewParams(state: MemoryViewState): URLSearchParams {
+  const d = DEFAULT_MEMORY_VIEW;
+  const params = new URLSearchParams();
+
+  if (state.view !== d.view) params.set('view', state.view);
+  if (state.source) params.set('source', state.source);
+  if (state.tags.length > 0) params.set('tags', state.tags.join(','));
+  if (state.datePreset !== d.datePreset) params.set('date', state.datePreset);
+  if (state.datePreset === 'custom') {
+    if (state.after) params.set('after', state.after);
+    if (state.before) params.set('before', state.before);
+  }
+  if (state.sortBy !== d.sortBy) params.set('sort', state.sortBy);
+  if (state.sortDir !== d.sortDir) params.set('dir', state.sortDir);
+
+  return params;
+}
+
+// Router path for a view of a specific project
+export function memoryViewPath(projectId: string, query: string): string {
+  const params = new URLSearchParams(query);
+  params.set('project', projectId);
+  return `/memories?${params.toString()}`;
+}
+
+// Router path of the full-page view of a single memory
+export function memoryPath(projectId: string, memoryId: string): string {
+  return `/projects/${encodeURIComponent(projectId)}/memories/${encodeURIComponent(memoryId)}`;
+}
+
+// Absolute URL for sharing; the app uses a hash router
+export function shareableUrl(path: string): string {
+  return `${window.location.origin}${window.location.pathname}#${path}`;
+}
+
+// Label for where a memory falls in the sort order, e.g. "Mar 4, 2025" or "B"
+export function sortLabel(memory: Memory, sortBy: SortField): string {
+  if (sortBy === 'title') {
+    const first = (memory.title || memory.file_path || '').trim().charAt(0).toUpperCase();
+    return /[A-Z]/.test(first) ? first : '#';
+  }
+  return new Date(memory[sortBy]).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// Binary search over a sorted list for the first memory at or past `target`:
+// a YYYY-MM-DD date for date sorts, or a title prefix. Uses O(log n) lookups.
+export async function findSortedIndex(
+  total: number,
+  fetchAt: (index: number) => Promise<Memory | undefined>,
+  sortBy: SortField,
+  sortDir: SortDir,
+  target: string
+): Promise<number> {
+  let isBefore: (memory: Memory) => boolean;
+  if (sortBy === 'title') {
+    const prefix = target.toLowerCase();
+    isBefore = (memory) => {
+      const title = (memory.title || '').slice(0, prefix.length).toLowerCase();
+      return sortDir === 'asc' ? title < prefix : title > prefix;
+    };
+  } else {
+    const [year, month, day] = target.split('-').map(Number);
+    const dayStart = new Date(year, month - 1, day).getTime();
+    const dayEnd = new Date(year, month - 1, day + 1).getTime();
+    isBefore = (memory) => {
+      const time = new Date(memory[sortBy]).getTime();
+      return sortDir === 'asc' ? time < dayStart : time >= dayEnd;
+    };
+  }
+
+  let lo = 0;
+  let hi = total;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    const memory = await fetchAt(mid);
+    if (memory && isBefore(memory)) lo = mid + 1;
+    else hi = mid;
+  }
+  return Math.min(lo, Math.max(0, total - 1));
+}
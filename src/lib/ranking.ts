@@ -0,0 +1,28 @@
+// Comparing two rankings of the same query
+
+import type { SearchResult } from './api';
+
+export interface RankedResult {
+  result: SearchResult;
+  // 1-based position in this ranking
+  rank: number;
+  // Position in the other ranking, null when it does not appear there
+  otherRank: number | null;
+  // Places gained relative to the other ranking (negative when it fell)
+  movement: number | null;
+}
+
+/** Positions of every hit in `ranking`, with how far each moved relative to `other` */
+export function rankMovements(ranking: SearchResult[], other: SearchResult[]): RankedResult[] {
+  const otherRanks = new Map(other.map((r, i) => [r.memory.id, i + 1]));
+  return ranking.map((result, i) => {
+    const otherRank = otherRanks.get(result.memory.id) ?? null;
+    return { result, rank: i + 1, otherRank, movement: otherRank === null ? null : otherRank - (i + 1) };
+  });
+}
+
+/** How many of the first `n` hits the two rankings share */
+export function topOverlap(a: SearchResult[], b: SearchResult[], n: number): number {
+  const top = new Set(a.slice(0, n).map((r) => r.memory.id));
+  return b.slice(0, n).filter((r) => top.has(r.memory.id)).length;
+}
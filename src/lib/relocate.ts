@@ -0,0 +1,152 @@
+// Copying and moving memories between projects
+//
+// The API has no cross-project move, so memories are recreated in the target
+// project and get new ids. Links are carried over only when both of their ends
+// were transferred together; on move the originals are deleted afterwards.
+
+import { api } from './api';
+import type { Memory, MemoryLink } from './api';
+import { runBatch } from './batch';
+import type { BatchFailure, BatchProgress } from './batch';
+
+export type RelocateMode = 'copy' | 'move';
+
+export interface RelocateOptions {
+  mode: RelocateMode;
+  carryLinks: boolean;
+  onProgress?: (phase: string, progress: BatchProgress) => void;
+}
+
+export interface RelocateResult {
+  mode: RelocateMode;
+  targetProjectId: string;
+  // Original memory -> its copy in the target project
+  created: Array<{ from: Memory; to: Memory }>;
+  // Not attempted, with the reason
+  skipped: BatchFailure<Memory>[];
+  failed: BatchFailure<Memory>[];
+  linksCarried: number;
+  // Links with one end outside the transfer
+  linksDropped: number;
+  linksFailed: string[];
+  // Move only: originals deleted, and those left in place
+  deleted: string[];
+  kept: BatchFailure<Memory>[];
+}
+
+function memoryLabel(memory: Memory) {
+  return memory.title || memory.file_path || memory.id.slice(0, 12);
+}
+
+export async function relocateMemories(
+  sourceProjectId: string,
+  targetProjectId: string,
+  memories: Memory[],
+  options: RelocateOptions
+): Promise<RelocateResult> {
+  const { mode, carryLinks, onProgress } = options;
+  const result: RelocateResult = {
+    mode,
+    targetProjectId,
+    created: [],
+    skipped: [],
+    failed: [],
+    linksCarried: 0,
+    linksDropped: 0,
+    linksFailed: [],
+    deleted: [],
+    kept: [],
+  };
+
+  // File memories belong to the indexed source tree of their project
+  const transferable = memories.filter((memory) => {
+    if (memory.source !== 'file') return true;
+    result.skipped.push({ item: memory, error: 'File memories are recreated by indexing the target project' });
+    return false;
+  });
+
+  // Old id -> id in the target project
+  const idMap = new Map<string, string>();
+
+  const created = await runBatch(
+    transferable,
+    async (memory) => {
+      // List responses may carry a preview, so read the full content first
+      const context = await api.getMemoryContext(sourceProjectId, memory.id, 1);
+      const copy: Memory = await api.createMemory(targetProjectId, {
+        title: memory.title,
+        content: context?.memory?.content ?? memory.content,
+        tags: memory.tags,
+        author: memory.author,
+        source: memory.source,
+      });
+      if (!copy?.id) throw new Error('The target project returned no memory');
+      idMap.set(memory.id, copy.id);
+      return copy;
+    },
+    { concurrency: 2, onProgress: (p) => onProgress?.('Copying memories', p) }
+  );
+  result.created = created.succeeded.map(({ item, result: copy }) => ({ from: item, to: copy }));
+  result.failed = created.failed;
+
+  // Originals that must stay because something about them could not be carried over
+  const keep = new Map<string, string>();
+
+  if (carryLinks && result.created.length > 0) {
+    const listed = await runBatch(
+      result.created.map((c) => c.from),
+      (memory) => api.listMemoryLinks(sourceProjectId, memory.id),
+      { onProgress: (p) => onProgress?.('Reading links', p) }
+    );
+    for (const failure of listed.failed) {
+      result.linksFailed.push(`${memoryLabel(failure.item)}: ${failure.error}`);
+      keep.set(failure.item.id, 'its links could not be read');
+    }
+
+    // A link is listed for both of its ends, so collect each one once
+    const links = new Map<string, MemoryLink>();
+    for (const { result: memoryLinks } of listed.succeeded) {
+      for (const link of memoryLinks) links.set(link.id, link);
+    }
+
+    const pending: MemoryLink[] = [];
+    for (const link of links.values()) {
+      if (idMap.has(link.source_id) && idMap.has(link.target_id)) pending.push(link);
+      else result.linksDropped++;
+    }
+
+    const linked = await runBatch(
+      pending,
+      (link) =>
+        api.createMemoryLink(targetProjectId, idMap.get(link.source_id)!, {
+          target_id: idMap.get(link.target_id)!,
+          link_type: link.link_type,
+          context: link.context,
+        }),
+      { onProgress: (p) => onProgress?.('Creating links', p) }
+    );
+    result.linksCarried = linked.succeeded.length;
+    for (const failure of linked.failed) {
+      result.linksFailed.push(`Link ${failure.item.id}: ${failure.error}`);
+      keep.set(failure.item.source_id, 'some of its links could not be re-created');
+      keep.set(failure.item.target_id, 'some of its links could not be re-created');
+    }
+  }
+
+  if (mode === 'move') {
+    const toDelete = result.created.map((c) => c.from).filter((memory) => {
+      const reason = keep.get(memory.id);
+      if (reason) result.kept.push({ item: memory, error: `Kept because ${reason}` });
+      return !reason;
+    });
+    const deleted = await runBatch(
+      toDelete,
+      (memory) => api.deleteMemory(sourceProjectId, memory.id),
+      { onProgress: (p) => onProgress?.('Deleting originals', p) }
+    );
+    result.deleted = deleted.succeeded.map((s) => s.item.id);
+    result.kept.push(...deleted.failed);
+  }
+
+  return result;
+}
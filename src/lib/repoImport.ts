@@ -0,0 +1,119 @@
+// Bulk import of repositories from a connected account as projects
+
+import { api } from './api';
+import type { CreateProjectRequest, GitHubRepo, Project } from './api';
+
+const REPO_PAGE_SIZE = 100;
+
+export interface ImportSettings {
+  connectionId: string;
+  provider: string;
+  project_group?: string;
+  include?: string[];
+  exclude?: string[];
+  createWebhook: boolean;
+}
+
+export interface ImportTarget {
+  repo: GitHubRepo;
+  slug: string;
+  branch: string;
+}
+
+export type ImportStatus = 'pending' | 'creating' | 'webhook' | 'done' | 'failed';
+
+export interface ImportRow extends ImportTarget {
+  status: ImportStatus;
+  project?: Project;
+  error?: string;
+  // The project was created but registering its webhook failed
+  webhookError?: string;
+}
+
+/** Page through every repository the connection can access. */
+export async function listAllConnectionRepos(
+  connectionId: string,
+  onProgress?: (loaded: number) => void
+): Promise<GitHubRepo[]> {
+  const all: GitHubRepo[] = [];
+  for (let page = 1; ; page++) {
+    const { repos } = await api.getConnectionRepos(connectionId, { page, per_page: REPO_PAGE_SIZE });
+    all.push(...repos);
+    onProgress?.(all.length);
+    if (repos.length < REPO_PAGE_SIZE) break;
+  }
+  return all;
+}
+
+// Same rule the single-project form uses when it fills in the slug
+export function repoSlug(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9-]/g, '-').replace(/-+/g, '-');
+}
+
+/**
+ * Slugs for a selection of repositories. Repositories with the same name under
+ * different owners are told apart by prefixing the owner.
+ */
+export function importSlugs(repos: GitHubRepo[]): Map<number, string> {
+  const counts = new Map<string, number>();
+  for (const repo of repos) counts.set(repoSlug(repo.name), (counts.get(repoSlug(repo.name)) ?? 0) + 1);
+  return new Map(
+    repos.map((repo) => {
+      const slug = repoSlug(repo.name);
+      return [repo.id, counts.get(slug)! > 1 ? repoSlug(repo.full_name.replace('/', '-')) : slug];
+    })
+  );
+}
+
+export function parsePatterns(text: string): string[] | undefined {
+  const patterns = text.split('\n').map((s) => s.trim()).filter(Boolean);
+  return patterns.length > 0 ? patterns : undefined;
+}
+
+/**
+ * Create the project for one repository, then register its webhook if asked.
+ * Throws when the project cannot be created; a webhook failure is reported on
+ * the returned row instead, since the project itself is usable without it.
+ * Pass `existing` to retry only the webhook of a project created earlier.
+ */
+export async function importRepo(
+  target: ImportTarget,
+  settings: ImportSettings,
+  onStatus: (status: ImportStatus) => void,
+  existing?: Project
+): Promise<Pick<ImportRow, 'project' | 'webhookError'>> {
+  const project = existing ?? (await createRepoProject(target, settings, onStatus));
+  if (!settings.createWebhook) return { project };
+
+  onStatus('webhook');
+  try {
+    await api.createWebhook(project.id);
+    return { project };
+  } catch (err) {
+    return { project, webhookError: err instanceof Error ? err.message : 'Failed to register webhook' };
+  }
+}
+
+function createRepoProject(
+  target: ImportTarget,
+  settings: ImportSettings,
+  onStatus: (status: ImportStatus) => void
+): Promise<Project> {
+  const [owner, repo] = target.repo.full_name.split('/');
+  const data: CreateProjectRequest = {
+    name: target.repo.name,
+    slug: target.slug,
+    description: target.repo.description || undefined,
+    provider: settings.provider,
+    remote_owner: owner,
+    remote_repo: repo,
+    remote_branch: target.branch || undefined,
+    connected_account_id: settings.connectionId,
+    project_group: settings.project_group,
+    include: settings.include,
+    exclude: settings.exclude,
+  };
+
+  onStatus('creating');
+  return api.createProject(data);
+}
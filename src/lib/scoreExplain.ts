@@ -0,0 +1,106 @@
+// Breaking a search score down into why a hit ranked where it did
+//
+// The server blends semantic similarity with recency strength as
+// (1 - strength_weight) * semantic + strength_weight * strength. The blend is
+// recomputed here from the returned parts, and neighbour hits (pulled in
+// through links rather than by similarity) are traced back to a direct hit.
+
+import { api } from './api';
+import type { AlgorithmConfig, MemoryLink, SearchResult } from './api';
+import { memoryAgeDays, memoryStrength } from './decay';
+
+export interface ScoreBreakdown {
+  semantic: number;
+  strength: number;
+  // Whether strength came from the server or was estimated from the memory's age
+  strengthEstimated: boolean;
+  weight: number;
+  semanticPart: number;
+  strengthPart: number;
+  // Recomputed blend, and the score the server actually ranked by
+  expected: number;
+  actual: number;
+  ageDays: number;
+  // Age-only decay factor under the half-life in effect
+  decayFactor: number;
+}
+
+export interface LinkStep {
+  link: MemoryLink;
+  // Ends of the step, walking from the anchor towards the neighbour
+  fromId: string;
+  toId: string;
+}
+
+export interface NeighbourPath {
+  anchor: SearchResult;
+  steps: LinkStep[];
+}
+
+// Memories whose links are read while tracing one neighbour
+const MAX_EXPANSIONS = 12;
+
+export function explainScore(result: SearchResult, config: AlgorithmConfig, now = Date.now()): ScoreBreakdown {
+  const semantic = result.score ?? result.similarity;
+  const decayFactor = memoryStrength(result.memory, config.decay_half_life_days, now);
+  const strengthEstimated = result.strength === undefined;
+  const strength = result.strength ?? decayFactor;
+  const weight = config.strength_weight;
+  const semanticPart = (1 - weight) * semantic;
+  const strengthPart = weight * strength;
+
+  return {
+    semantic,
+    strength,
+    strengthEstimated,
+    weight,
+    semanticPart,
+    strengthPart,
+    expected: semanticPart + strengthPart,
+    actual: result.combined_score ?? result.similarity,
+    ageDays: memoryAgeDays(result.memory, now),
+    decayFactor,
+  };
+}
+
+/**
+ * Breadth-first walk over links from `neighbourId` until one of the `anchors`
+ * (hits matched by similarity) is reached, up to `maxDepth` links away.
+ * Returns the path from the anchor to the neighbour, or null if none is found.
+ */
+export async function findNeighbourPath(
+  projectId: string,
+  neighbourId: string,
+  anchors: SearchResult[],
+  maxDepth = 2
+): Promise<NeighbourPath | null> {
+  const anchorById = new Map(anchors.map((a) => [a.memory.id, a]));
+  // Memory id -> the step that reached it, walking outwards from the neighbour
+  const reachedBy = new Map<string, LinkStep | null>([[neighbourId, null]]);
+  let frontier = [neighbourId];
+  let expansions = 0;
+
+  for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      if (expansions++ >= MAX_EXPANSIONS) break;
+      const links = await api.listMemoryLinks(projectId, id);
+      for (const link of links) {
+        const other = link.source_id === id ? link.target_id : link.source_id;
+        if (reachedBy.has(other)) continue;
+        reachedBy.set(other, { link, fromId: other, toId: id });
+
+        const anchor = anchorById.get(other);
+        if (anchor) {
+          const steps: LinkStep[] = [];
+          for (let step = reachedBy.get(other); step; step = reachedBy.get(step.toId)) steps.push(step);
+          return { anchor, steps };
+        }
+        next.push(other);
+      }
+    }
+    frontier = next;
+  }
+
+  return null;
+}
@@ -0,0 +1,243 @@
+// Inline filter syntax for the search box
+//
+// `tag:auth path:src/api/** refresh tokens` is split into filters and the free
+// text that is embedded for semantic search. Only `source:` has a server-side
+// search option; everything else is applied to the returned hits.
+
+import type { Memory, MemorySource } from './api';
+
+export type FilterKey = 'tag' | 'path' | 'source' | 'author' | 'after' | 'before' | 'lang';
+
+export const FILTER_KEYS: FilterKey[] = ['tag', 'path', 'source', 'author', 'after', 'before', 'lang'];
+
+export const FILTER_HINTS: Record<FilterKey, string> = {
+  tag: 'tag:auth',
+  path: 'path:src/api/**',
+  source: 'source:manual',
+  author: 'author:alice',
+  after: 'after:2026-01-01',
+  before: 'before:2026-06-30',
+  lang: 'lang:rust',
+};
+
+const SOURCES: MemorySource[] = ['file', 'manual', 'generated'];
+
+export interface QueryFilter {
+  key: FilterKey;
+  value: string;
+  // Offsets of the token in the raw input, used to remove it again
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  text: string;
+  filters: QueryFilter[];
+  // Filter tokens whose value could not be used
+  errors: string[];
+}
+
+// The token under the caret, when it is a filter being typed
+export interface ActiveToken {
+  key: FilterKey;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const TOKEN = /(\S+?):("[^"]*"?|\S*)|\S+/g;
+
+function isFilterKey(key: string): key is FilterKey {
+  return (FILTER_KEYS as string[]).includes(key);
+}
+
+function unquote(value: string) {
+  return value.startsWith('"') ? value.replace(/^"|"$/g, '') : value;
+}
+
+function quote(value: string) {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function validate(key: FilterKey, value: string): string | null {
+  if (!value) return `${key}: needs a value`;
+  if (key === 'source' && !(SOURCES as string[]).includes(value)) {
+    return `source: must be one of ${SOURCES.join(', ')}`;
+  }
+  if ((key === 'after' || key === 'before') && Number.isNaN(Date.parse(value))) {
+    return `${key}: expects a date such as 2026-01-01`;
+  }
+  return null;
+}
+
+export function parseSearchQuery(input: string): ParsedQuery {
+  const filters: QueryFilter[] = [];
+  const errors: string[] = [];
+  const words: string[] = [];
+
+  for (const match of input.matchAll(TOKEN)) {
+    const key = match[1]?.toLowerCase();
+    if (!key || !isFilterKey(key)) {
+      words.push(match[0]);
+      continue;
+    }
+    const value = key === 'source' ? unquote(match[2]).toLowerCase() : unquote(match[2]);
+    // A memory has one source, so a second source: filter could only match nothing
+    const error =
+      key === 'source' && filters.some((f) => f.key === 'source')
+        ? 'source: can only be used once'
+        : validate(key, value);
+    if (error) {
+      errors.push(error);
+      continue;
+    }
+    filters.push({ key, value, start: match.index, end: match.index + match[0].length });
+  }
+
+  return { text: words.join(' '), filters, errors };
+}
+
+/** Removes a parsed filter token from the raw input */
+export function removeFilter(input: string, filter: QueryFilter): string {
+  return `${input.slice(0, filter.start)}${input.slice(filter.end)}`.replace(/\s{2,}/g, ' ').trim();
+}
+
+export function activeToken(input: string, caret: number): ActiveToken | null {
+  for (const match of input.matchAll(TOKEN)) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (caret < start || caret > end) continue;
+    const key = match[1]?.toLowerCase();
+    if (!key || !isFilterKey(key)) return null;
+    return { key, value: unquote(match[2]), start, end };
+  }
+  return null;
+}
+
+/** Replaces the active token's value and returns the new input and caret */
+export function completeToken(input: string, token: ActiveToken, value: string): { input: string; caret: number } {
+  const replacement = `${token.key}:${quote(value)} `;
+  const rest = input.slice(token.end).replace(/^\s+/, '');
+  return { input: `${input.slice(0, token.start)}${replacement}${rest}`, caret: token.start + replacement.length };
+}
+
+/** `source:` is the only filter the search endpoint accepts; parsing allows at most one */
+export function serverSource(filters: QueryFilter[]): MemorySource | undefined {
+  const source = filters.find((f) => f.key === 'source');
+  return source ? (source.value as MemorySource) : undefined;
+}
+
+/** Whether any filter has to be applied to the returned hits */
+export function hasPostFilters(filters: QueryFilter[]): boolean {
+  return filters.some((f) => f.key !== 'source');
+}
+
+/** `*` matches within a path segment and `**` across segments */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '/' && glob.slice(i + 1) === '**') {
+      // `dir/**` also matches `dir` itself
+      source += '(?:/.*)?';
+      break;
+    }
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` may match nothing
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function matchesPath(memory: Memory, value: string) {
+  if (!memory.file_path) return false;
+  if (/[*?]/.test(value)) return globToRegExp(value).test(memory.file_path);
+  // A plain path matches itself and anything below it
+  const base = value.replace(/\/$/, '').toLowerCase();
+  const path = memory.file_path.toLowerCase();
+  return path === base || path.startsWith(`${base}/`);
+}
+
+// Names and file extensions of each language, so `lang:rust` also finds `.rs`
+// files. Kept apart from the highlighter's aliases, which group languages that
+// merely share a syntax (TypeScript with JavaScript, Kotlin with Java).
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+  javascript: ['js', 'jsx', 'mjs', 'cjs'],
+  typescript: ['ts', 'tsx', 'mts', 'cts'],
+  python: ['py', 'pyi'],
+  rust: ['rs'],
+  go: ['golang'],
+  java: [],
+  kotlin: ['kt', 'kts'],
+  scala: ['sc'],
+  swift: [],
+  c: ['h'],
+  cpp: ['c++', 'cc', 'cxx', 'hpp', 'hh', 'hxx'],
+  csharp: ['cs', 'c#'],
+  ruby: ['rb'],
+  php: [],
+  shell: ['sh', 'bash', 'zsh'],
+  sql: [],
+  json: [],
+  yaml: ['yml'],
+  toml: [],
+  markdown: ['md', 'mdx'],
+  html: ['htm'],
+  css: [],
+  scss: ['sass'],
+  less: [],
+};
+
+const LANGUAGE_BY_ALIAS = new Map(
+  Object.entries(LANGUAGE_ALIASES).flatMap(([name, aliases]) => [name, ...aliases].map((a) => [a, name] as const))
+);
+
+function canonicalLanguage(name: string) {
+  return LANGUAGE_BY_ALIAS.get(name) ?? name;
+}
+
+function matchesLanguage(memory: Memory, value: string) {
+  const wanted = canonicalLanguage(value.toLowerCase());
+  if (memory.language && canonicalLanguage(memory.language.toLowerCase()) === wanted) return true;
+  const fileName = memory.file_path?.split('/').pop() ?? '';
+  const extension = fileName.includes('.') ? fileName.split('.').pop()?.toLowerCase() : undefined;
+  return extension !== undefined && canonicalLanguage(extension) === wanted;
+}
+
+function matchesFilter(memory: Memory, filter: QueryFilter): boolean {
+  const value = filter.value.toLowerCase();
+  switch (filter.key) {
+    case 'tag':
+      return (memory.tags || []).some((t) => t.toLowerCase() === value);
+    case 'path':
+      return matchesPath(memory, filter.value);
+    case 'source':
+      return memory.source === filter.value;
+    case 'author':
+      return (memory.author || '').toLowerCase().includes(value);
+    case 'after':
+      return new Date(memory.created_at).getTime() >= Date.parse(filter.value);
+    case 'before':
+      return new Date(memory.created_at).getTime() < Date.parse(filter.value);
+    case 'lang':
+      return matchesLanguage(memory, filter.value);
+  }
+}
+
+/** Every filter must match */
+export function matchesFilters(memory: Memory, filters: QueryFilter[]): boolean {
+  return filters.every((f) => matchesFilter(memory, f));
+}
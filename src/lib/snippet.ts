@@ -0,0 +1,164 @@
+// Best-snippet extraction and term highlighting for search results
+//
+// Results are ranked by embeddings, so the matching part of a memory is often
+// far from its start (past a license header or imports). This picks the window
+// of lines that shares the most terms with the query instead.
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who',
+  'why', 'with',
+]);
+
+// Lines that say little about what a memory is about
+const BOILERPLATE = [
+  /^\s*$/,
+  /^#!/,
+  /^\s*(\/\/|#|--|;|\*|\/\*|\*\/|<!--)/,
+  /^\s*(import|export\s+\*|export\s+\{[^}]*\}\s+from|from\s+\S+\s+import|package|using|use|require|include|#include)\b/,
+  /^\s*(const|let|var)\s+\w+\s*=\s*require\(/,
+  /^\s*['"]use (strict|client|server)['"]/,
+];
+
+export interface Snippet {
+  text: string;
+  // Whether content was cut before or after the snippet
+  before: boolean;
+  after: boolean;
+  // Query terms found in the snippet
+  matched: string[];
+}
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+/** Distinct lower-case words of a query worth matching on. */
+export function queryTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return [...new Set(words.filter((w) => w.length > 1 && !STOP_WORDS.has(w)))];
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Terms match at the start of a word, so "auth" also finds "authentication"
+function termPattern(terms: string[]) {
+  const sorted = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${sorted.join('|')})[\\p{L}\\p{N}_]*`, 'giu');
+}
+
+function termsIn(line: string, pattern: RegExp, terms: string[]): Map<string, number> {
+  const found = new Map<string, number>();
+  for (const match of line.matchAll(pattern)) {
+    const word = match[0].toLowerCase();
+    const term = terms.find((t) => word.startsWith(t));
+    if (term) found.set(term, (found.get(term) ?? 0) + 1);
+  }
+  return found;
+}
+
+function isBoilerplate(line: string) {
+  return BOILERPLATE.some((re) => re.test(line));
+}
+
+/**
+ * Window of whole lines, at most `maxLength` characters, that covers the most
+ * distinct query terms (ties go to more occurrences, then the earlier window).
+ * When no query term appears, `fallbackTerms` (e.g. the memory's keywords) are
+ * tried, and failing that the snippet starts at the first non-boilerplate line.
+ */
+export function bestSnippet(
+  content: string,
+  query: string,
+  maxLength = 300,
+  fallbackTerms: string[] = []
+): Snippet {
+  const lines = content.split('\n');
+  // A single line can still be too long (minified code); cut it around the first match
+  const cut = (start: number, end: number, pattern: RegExp | null): Snippet => {
+    let text = lines.slice(start, end).join('\n');
+    let before = start > 0;
+    let after = end < lines.length;
+    if (text.length > maxLength) {
+      const at = pattern ? Math.max(0, text.search(pattern)) : 0;
+      const from = Math.max(0, Math.min(at - Math.floor(maxLength / 3), text.length - maxLength));
+      before = before || from > 0;
+      after = after || from + maxLength < text.length;
+      text = text.slice(from, from + maxLength);
+    }
+    return { text, before, after, matched: [] };
+  };
+  // End (exclusive) of the longest run of lines from `start` that fits, at least one line
+  const fill = (start: number) => {
+    let end = start;
+    let length = 0;
+    while (end < lines.length && (end === start || length + lines[end].length + 1 <= maxLength)) {
+      length += lines[end].length + 1;
+      end++;
+    }
+    return end;
+  };
+
+  if (content.length <= maxLength) {
+    const terms = queryTerms(query);
+    const matched = terms.length > 0 ? [...termsIn(content, termPattern(terms), terms).keys()] : [];
+    return { text: content, before: false, after: false, matched };
+  }
+
+  const candidates = [queryTerms(query), fallbackTerms.flatMap(queryTerms)];
+  for (const [pass, terms] of candidates.entries()) {
+    if (terms.length === 0) continue;
+    const pattern = termPattern(terms);
+    const perLine = lines.map((line) => termsIn(line, pattern, terms));
+    if (perLine.every((found) => found.size === 0)) continue;
+
+    let best = { start: 0, end: 0, distinct: -1, hits: -1 };
+    for (let start = 0; start < lines.length; start++) {
+      if (perLine[start].size === 0) continue;
+      const end = fill(start);
+      const counts = new Map<string, number>();
+      for (let i = start; i < end; i++) {
+        for (const [term, n] of perLine[i]) counts.set(term, (counts.get(term) ?? 0) + n);
+      }
+      const hits = [...counts.values()].reduce((a, b) => a + b, 0);
+      if (counts.size > best.distinct || (counts.size === best.distinct && hits > best.hits)) {
+        best = { start, end, distinct: counts.size, hits };
+      }
+    }
+
+    // Show a line of lead-in when it fits, so the match is not the very first thing
+    let { start } = best;
+    const length = lines.slice(start, best.end).join('\n').length;
+    if (start > 0 && !isBoilerplate(lines[start - 1]) && length + lines[start - 1].length + 1 <= maxLength) {
+      start--;
+    }
+    const snippet = cut(start, best.end, pattern);
+    // Keyword matches only place the window; they are not query matches
+    if (pass === 0) snippet.matched = [...termsIn(snippet.text, pattern, terms).keys()];
+    return snippet;
+  }
+
+  const first = lines.findIndex((line) => !isBoilerplate(line));
+  const start = first === -1 ? 0 : first;
+  return cut(start, fill(start), null);
+}
+
+/** Split text into plain and matching parts for rendering with <mark>. */
+export function highlightTerms(text: string, query: string): HighlightPart[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const parts: HighlightPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(termPattern(terms))) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ text: text.slice(last, index), match: false });
+    parts.push({ text: match[0], match: true });
+    last = index + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
@@ -0,0 +1,60 @@
+// Tag aggregation and project-wide tag edits
+//
+// Tags only exist as strings on each memory, so renames, merges and deletes are
+// planned client-side and applied as one `updateMemory` call per affected memory.
+
+import type { Memory } from './api';
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+  memories: Memory[];
+}
+
+/** A single memory's tag list before and after an edit */
+export interface TagChange {
+  memory: Memory;
+  before: string[];
+  after: string[];
+}
+
+export function aggregateTags(memories: Memory[]): TagUsage[] {
+  const byTag = new Map<string, Memory[]>();
+  for (const memory of memories) {
+    for (const tag of new Set(memory.tags || [])) {
+      const list = byTag.get(tag);
+      if (list) list.push(memory);
+      else byTag.set(tag, [memory]);
+    }
+  }
+  return [...byTag.entries()]
+    .map(([tag, list]) => ({ tag, count: list.length, memories: list }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Replaces every tag in `from` with `to` (or removes them when `to` is null).
+ * The replacement keeps the position of the first matching tag and is never
+ * duplicated. Memories whose tags would not change are left out.
+ */
+export function planTagChange(memories: Memory[], from: string[], to: string | null): TagChange[] {
+  const sources = new Set(from);
+  const changes: TagChange[] = [];
+
+  for (const memory of memories) {
+    const before = memory.tags || [];
+    if (!before.some((t) => sources.has(t))) continue;
+
+    const after: string[] = [];
+    for (const tag of before) {
+      const next = sources.has(tag) ? to : tag;
+      if (next && !after.includes(next)) after.push(next);
+    }
+
+    if (after.length !== before.length || after.some((t, i) => t !== before[i])) {
+      changes.push({ memory, before, after });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,147 @@
+// Starting points for manually written memories. Each template pre-fills the
+// content and suggests tags; both stay editable before the memory is saved.
+
+export interface MemoryTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Prefix suggested for the title field
+  title: string;
+  tags: string[];
+  content: string;
+}
+
+export const MEMORY_TEMPLATES: MemoryTemplate[] = [
+  {
+    id: 'decision',
+    name: 'Decision record',
+    description: 'An architectural decision, the options considered and why one was chosen',
+    title: 'ADR: ',
+    tags: ['decision', 'architecture'],
+    content: `## Status
+
+Proposed
+
+## Context
+
+What is the issue that motivates this decision?
+
+## Options considered
+
+1. **Option A**: pros / cons
+2. **Option B**: pros / cons
+
+## Decision
+
+What we are going to do.
+
+## Consequences
+
+What becomes easier or harder because of this change.
+`,
+  },
+  {
+    id: 'spec',
+    name: 'Spec',
+    description: 'A feature or interface specification with goals and open questions',
+    title: 'Spec: ',
+    tags: ['spec'],
+    content: `## Summary
+
+One paragraph describing the feature.
+
+## Goals
+
+-
+
+## Non-goals
+
+-
+
+## Design
+
+### API
+
+\`\`\`
+\`\`\`
+
+### Data model
+
+## Open questions
+
+-
+`,
+  },
+  {
+    id: 'postmortem',
+    name: 'Incident postmortem',
+    description: 'What happened, the impact, root cause and follow-up actions',
+    title: 'Postmortem: ',
+    tags: ['incident', 'postmortem'],
+    content: `## Summary
+
+What happened, in two or three sentences.
+
+## Impact
+
+Who was affected, for how long and how badly.
+
+## Timeline
+
+- **Detected** (UTC):
+- **Mitigated** (UTC):
+- **Resolved** (UTC):
+
+## Root cause
+
+## What went well
+
+-
+
+## What went wrong
+
+-
+
+## Action items
+
+-
+`,
+  },
+  {
+    id: 'onboarding',
+    name: 'Onboarding note',
+    description: 'Where things live and how to get productive in an area of the codebase',
+    title: 'Onboarding: ',
+    tags: ['onboarding', 'docs'],
+    content: `## Overview
+
+What this area is responsible for.
+
+## Getting started
+
+\`\`\`bash
+\`\`\`
+
+## Key files
+
+- \`path/to/file\`: what it does
+
+## Gotchas
+
+-
+
+## Who to ask
+
+-
+`,
+  },
+];
+
+// Merge a template's tags into a comma-separated tags field without duplicates
+export function mergeTemplateTags(current: string, template: MemoryTemplate): string {
+  const tags = current.split(',').map((t) => t.trim()).filter(Boolean);
+  for (const tag of template.tags) {
+    if (!tags.includes(tag)) tags.push(tag);
+  }
+  return tags.join(', ');
+}
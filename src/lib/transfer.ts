@@ -0,0 +1,157 @@
+// Memory export/import formats
+//
+// JSONL: one JSON object per line — a full Memory plus its outgoing links.
+// Markdown bundle: a single text file holding one Markdown document per memory,
+// each preceded by a `<!-- fold:file <path> -->` marker and carrying YAML
+// front-matter. Keeps the export readable without needing a zip library.
+
+import type { Memory, MemoryLink, MemoryLinkType } from './api';
+
+export type ExportFormat = 'jsonl' | 'markdown';
+
+export interface ExportedLink {
+  target_id: string;
+  link_type: MemoryLinkType;
+  context?: string;
+}
+
+export interface ExportedMemory extends Memory {
+  links_out?: ExportedLink[];
+}
+
+const FILE_MARKER = /^<!-- fold:file (.+?) -->$/;
+
+function toExportedLinks(links: MemoryLink[] | undefined): ExportedLink[] | undefined {
+  if (!links || links.length === 0) return undefined;
+  return links.map((l) => ({ target_id: l.target_id, link_type: l.link_type, context: l.context || undefined }));
+}
+
+export function buildExportEntries(memories: Memory[], links: Record<string, MemoryLink[]> = {}): ExportedMemory[] {
+  return memories.map((memory) => ({ ...memory, links_out: toExportedLinks(links[memory.id]) }));
+}
+
+// ---------------------------------------------------------------------------
+// Serialisation
+
+export function toJsonl(entries: ExportedMemory[]): string {
+  return entries.map((e) => JSON.stringify(e)).join('\n') + '\n';
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+// JSON scalars and flow collections are valid YAML, so values are written as JSON
+const FRONT_MATTER_KEYS: Array<keyof ExportedMemory> = [
+  'id', 'title', 'source', 'author', 'tags', 'file_path', 'language',
+  'line_start', 'line_end', 'content_hash', 'created_at', 'updated_at', 'links_out',
+];
+
+export function toMarkdownBundle(entries: ExportedMemory[]): string {
+  return entries
+    .map((entry) => {
+      const name = `${slugify(entry.title || entry.file_path || '') || 'memory'}-${entry.id.slice(0, 8)}.md`;
+      const front = FRONT_MATTER_KEYS
+        .filter((key) => entry[key] !== undefined && entry[key] !== null)
+        .map((key) => `${key}: ${JSON.stringify(entry[key])}`)
+        .join('\n');
+      return `<!-- fold:file memories/${name} -->\n---\n${front}\n---\n\n${(entry.content || '').trim()}\n`;
+    })
+    .join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+
+function parseScalar(raw: string): unknown {
+  const value = raw.trim();
+  if (value === '') return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    // Hand-edited files may use bare YAML scalars or simple flow lists
+    if (value.startsWith('[') && value.endsWith(']')) {
+      return value.slice(1, -1).split(',').map((s) => s.trim().replace(/^['"]|['"]$/g, '')).filter(Boolean);
+    }
+    return value.replace(/^'|'$/g, '');
+  }
+}
+
+function parseMarkdownDocument(doc: string): ExportedMemory | null {
+  const match = doc.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) return null;
+
+  const fields: Record<string, unknown> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const idx = line.indexOf(':');
+    if (idx <= 0) continue;
+    fields[line.slice(0, idx).trim()] = parseScalar(line.slice(idx + 1));
+  }
+
+  return {
+    ...(fields as Partial<ExportedMemory>),
+    id: String(fields.id ?? ''),
+    project_id: '',
+    source: (fields.source as Memory['source']) || 'manual',
+    content: match[2].trim(),
+    created_at: String(fields.created_at ?? ''),
+    updated_at: String(fields.updated_at ?? ''),
+  };
+}
+
+export function parseMarkdownBundle(text: string): ExportedMemory[] {
+  const docs: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (FILE_MARKER.test(line.trim())) {
+      if (current) docs.push(current.join('\n'));
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  if (current) docs.push(current.join('\n'));
+
+  // A single document without markers is treated as one memory
+  if (docs.length === 0 && text.trim().startsWith('---')) docs.push(text);
+
+  return docs
+    .map((doc) => parseMarkdownDocument(doc.trim()))
+    .filter((m): m is ExportedMemory => m !== null);
+}
+
+export function parseJsonl(text: string): ExportedMemory[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as ExportedMemory;
+      } catch {
+        throw new Error(`Invalid JSON on line ${i + 1}`);
+      }
+    });
+}
+
+export function parseImportFile(filename: string, text: string): ExportedMemory[] {
+  if (filename.endsWith('.jsonl') || filename.endsWith('.ndjson') || text.trimStart().startsWith('{')) {
+    return parseJsonl(text);
+  }
+  return parseMarkdownBundle(text);
+}
+
+/**
+ * SHA-256 hex digest of imported content, compared with the project's content
+ * hashes. Null outside secure contexts (plain http), where crypto.subtle is missing.
+ */
+export async function sha256Hex(text: string): Promise<string | null> {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
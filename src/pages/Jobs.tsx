@@ -18,6 +18,7 @@ const JOB_TYPE_LABELS: Record<string, string> = {
   sync_metadata: 'Sync Metadata',
   process_webhook: 'Process Webhook',
   generate_summary: 'Generate Summary',
+  regenerate_metadata: 'Regenerate Metadata',
   sync_commits: 'Sync Commits',
   custom: 'Custom',
 };
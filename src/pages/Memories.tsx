@@ -1,13 +1,28 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { useSearchParams } from 'react-router-dom';
-import useSWR, { mutate } from 'swr';
+import useSWR from 'swr';
 import { api } from '../lib/api';
 import { useProject } from '../stores/project';
 import { useAuth } from '../stores/auth';
 import type { Memory, MemorySource } from '../lib/api';
-import { Modal, EmptyState, SourceBadge, Pagination } from '../components/ui';
+import { Modal, EmptyState, SourceBadge, VirtualList } from '../components/ui';
+import type { VirtualListHandle } from '../components/ui';
 import { MemoryDetailModal } from '../components/MemoryDetailModal';
+import { MemoryBulkActions } from '../components/MemoryBulkActions';
+import { MemoryRelocate } from '../components/MemoryRelocate';
+import { MemoryFileTree } from '../components/MemoryFileTree';
+import { MemoryScrubber } from '../components/MemoryScrubber';
+import { ContextPackTray } from '../components/ContextPackTray';
+import { useMemoryPages } from '../hooks/useMemoryPages';
+import { useAddToPack } from '../hooks/useAddToPack';
+import { MarkdownEditor } from '../components/MarkdownEditor';
+import { MEMORY_TEMPLATES, mergeTemplateTags } from '../lib/templates';
+import type { MemoryTemplate } from '../lib/templates';
+import { parseMemoryView, memoryViewParams, memoryViewPath, shareableUrl, sortLabel, findSortedIndex } from '../lib/memoryView';
+import type { MemoryViewState, DatePreset, SortField } from '../lib/memoryView';
+import { useSavedViews } from '../stores/savedViews';
+import { useToast } from '../components/ToastContext';
 import styles from './Memories.module.css';
 
 const SOURCE_TYPES: MemorySource[] = ['file', 'manual', 'generated'];
@@ -16,10 +31,8 @@ const SOURCE_LABELS: Record<MemorySource, string> = {
   manual: 'Manual',
   generated: 'Generated',
 };
-const ITEMS_PER_PAGE = 20;
-
-type SortField = 'created_at' | 'updated_at' | 'title';
-type SortDir = 'asc' | 'desc';
+// Fixed row height of the virtualized list, card plus gap
+const ROW_HEIGHT = 168;
 
 const SORT_OPTIONS: { value: SortField; label: string }[] = [
   { value: 'updated_at', label: 'Updated' },
@@ -28,7 +41,6 @@ const SORT_OPTIONS: { value: SortField; label: string }[] = [
 ];
 
 // Preset date ranges
-type DatePreset = 'all' | 'today' | 'week' | 'month' | 'custom';
 const DATE_PRESETS: { value: DatePreset; label: string }[] = [
   { value: 'all', label: 'All time' },
   { value: 'today', label: 'Today' },
@@ -61,77 +73,121 @@ function getDatePresetRange(preset: DatePreset): { after?: string; before?: stri
   }
 }
 
+// Suggested name for a saved view, e.g. "auth, decision · Past week"
+function describeView(state: MemoryViewState): string {
+  const parts: string[] = [];
+  if (state.tags.length > 0) parts.push(state.tags.join(', '));
+  if (state.source) parts.push(SOURCE_LABELS[state.source]);
+  if (state.datePreset === 'custom') {
+    parts.push([state.after, state.before].filter(Boolean).join(' to ') || 'Custom dates');
+  } else if (state.datePreset !== 'all') {
+    parts.push(DATE_PRESETS.find((p) => p.value === state.datePreset)!.label);
+  }
+  if (state.view === 'files') parts.push('Files');
+  return parts.join(' · ') || 'All memories';
+}
+
 export function Memories() {
   const { selectedProjectId } = useProject();
   const { user } = useAuth();
   const isAdmin = user?.roles?.includes('admin') ?? false;
   const selectedProject = selectedProjectId;
+  const { showToast } = useToast();
+  const pack = useAddToPack();
+  const saveView = useSavedViews((s) => s.saveView);
   const [searchParams, setSearchParams] = useSearchParams();
-  const [selectedSource, setSelectedSource] = useState<MemorySource | null>(null);
-  const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [currentPage, setCurrentPage] = useState(1);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ title: '', content: '', tags: '' });
+  const [templateId, setTemplateId] = useState<string | null>(null);
   const [selectedMemory, setSelectedMemory] = useState<Memory | null>(null);
-
-  // Date and sort filters
-  const [datePreset, setDatePreset] = useState<DatePreset>('all');
-  const [customDateAfter, setCustomDateAfter] = useState<string>('');
-  const [customDateBefore, setCustomDateBefore] = useState<string>('');
-  const [sortBy, setSortBy] = useState<SortField>('updated_at');
-  const [sortDir, setSortDir] = useState<SortDir>('desc');
-  const [showDateFilter, setShowDateFilter] = useState(false);
-
-  // Sync tag filter from URL params
+  const [relocating, setRelocating] = useState<Memory | null>(null);
+  const [isSaveViewOpen, setIsSaveViewOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+
+  // Filters and sort live in the query string so views can be shared
+  const viewState = parseMemoryView(searchParams);
+  const {
+    view,
+    source: selectedSource,
+    tags: selectedTags,
+    datePreset,
+    after: customDateAfter,
+    before: customDateBefore,
+    sortBy,
+    sortDir,
+  } = viewState;
+  const viewQuery = memoryViewParams(viewState).toString();
+  // Filters other than the view mode get their own list and scroll position
+  const listKey = `${selectedProject}?${memoryViewParams({ ...viewState, view: 'list' }).toString()}`;
+
+  const updateView = (patch: Partial<MemoryViewState>) => {
+    setSearchParams(memoryViewParams({ ...viewState, ...patch }));
+  };
+  const setView = (mode: MemoryViewState['view']) => updateView({ view: mode });
+
+  // Bulk selection (scoped to the project it was made in)
+  const [selection, setSelection] = useState<{ projectId: string | null; items: Map<string, Memory> }>({
+    projectId: null,
+    items: new Map(),
+  });
+  const [selectingAll, setSelectingAll] = useState(false);
+  const selectionAnchorRef = useRef<{ query: string; index: number } | null>(null);
+  const selectedItems = selection.projectId === selectedProject ? selection.items : new Map<string, Memory>();
+
+  // Shared links name their project; switch to it and drop the parameter
+  const projectParam = searchParams.get('project');
   useEffect(() => {
-    const tagsParam = searchParams.get('tags');
-    const tagParam = searchParams.get('tag');
-
-    if (tagsParam) {
-      const tags = tagsParam.split(',').filter(Boolean);
-      if (JSON.stringify(tags) !== JSON.stringify(selectedTags)) {
-        setSelectedTags(tags);
-        setCurrentPage(1);
-      }
-    } else if (tagParam) {
-      // Support single tag param for backwards compatibility / incoming links
-      if (selectedTags.length !== 1 || selectedTags[0] !== tagParam) {
-        setSelectedTags([tagParam]);
-        setCurrentPage(1);
-      }
-    } else if (selectedTags.length > 0) {
-      setSelectedTags([]);
-      setCurrentPage(1);
+    if (!projectParam) return;
+    if (projectParam !== useProject.getState().selectedProjectId) {
+      useProject.getState().selectProject(projectParam);
     }
-  }, [searchParams]);
+    setSearchParams((params) => {
+      params.delete('project');
+      return params;
+    }, { replace: true });
+  }, [projectParam, setSearchParams]);
 
   // Helper to add a tag to the selection
   const addTag = (tag: string) => {
     if (selectedTags.includes(tag)) return;
-    const newTags = [...selectedTags, tag];
-    setSelectedTags(newTags);
-    setSearchParams({ tags: newTags.join(',') });
-    setCurrentPage(1);
+    updateView({ tags: [...selectedTags, tag] });
   };
 
   // Helper to remove a tag from the selection
   const removeTag = (tag: string) => {
-    const newTags = selectedTags.filter((t) => t !== tag);
-    setSelectedTags(newTags);
-    if (newTags.length > 0) {
-      setSearchParams({ tags: newTags.join(',') });
-    } else {
-      setSearchParams({});
-    }
-    setCurrentPage(1);
+    updateView({ tags: selectedTags.filter((t) => t !== tag) });
   };
 
   // Helper to clear all tags
   const clearAllTags = () => {
-    setSelectedTags([]);
-    setSearchParams({});
-    setCurrentPage(1);
+    updateView({ tags: [] });
+  };
+
+  const handleCopyLink = async () => {
+    if (!selectedProject) return;
+    try {
+      await navigator.clipboard.writeText(shareableUrl(memoryViewPath(selectedProject, viewQuery)));
+      showToast('Link copied to clipboard', 'success');
+    } catch {
+      showToast('Failed to copy link', 'error');
+    }
+  };
+
+  const openSaveView = () => {
+    setViewName(describeView(viewState));
+    setIsSaveViewOpen(true);
+  };
+
+  const handleSaveView = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const name = viewName.trim();
+    if (!selectedProject || !user || !name) return;
+
+    saveView(user.id, { name, projectId: selectedProject, query: viewQuery });
+    setIsSaveViewOpen(false);
+    showToast(`Saved view "${name}"`, 'success');
   };
 
   // Projects are fetched by ProjectSelector, but we warm the cache here
@@ -161,28 +217,207 @@ export function Memories() {
 
   const dateFilters = getDateFilters();
 
-  const memoriesKey = selectedProject
-    ? ['memories', selectedProject, selectedSource, selectedTags.join(','), currentPage, datePreset, customDateAfter, customDateBefore, sortBy, sortDir]
-    : null;
-
-  const { data: memoriesData, isLoading } = useSWR(
-    memoriesKey,
-    () =>
-      api.listMemories(selectedProject!, {
-        source: selectedSource || undefined,
-        tags: selectedTags.length > 0 ? selectedTags : undefined,
-        created_after: dateFilters.created_after,
-        created_before: dateFilters.created_before,
-        sort_by: sortBy,
-        sort_dir: sortDir,
-        limit: ITEMS_PER_PAGE,
-        offset: (currentPage - 1) * ITEMS_PER_PAGE,
-      }),
-    { refreshInterval: 10000 }
+  const listParams = {
+    source: selectedSource || undefined,
+    tags: selectedTags.length > 0 ? selectedTags : undefined,
+    created_after: dateFilters.created_after,
+    created_before: dateFilters.created_before,
+    sort_by: sortBy,
+    sort_dir: sortDir,
+  };
+
+  const memoryPages = useMemoryPages(selectedProject, listParams, { refreshInterval: 10000 });
+  const { total, ensureRange, fetchAt } = memoryPages;
+
+  // Pages for the visible range are fetched once scrolling settles
+  const listRef = useRef<VirtualListHandle>(null);
+  const rangeTimerRef = useRef<number | undefined>(undefined);
+  const [visibleStart, setVisibleStart] = useState(0);
+  const [jumping, setJumping] = useState(false);
+
+  const handleRangeChange = useCallback(
+    (start: number, end: number) => {
+      setVisibleStart(start);
+      window.clearTimeout(rangeTimerRef.current);
+      rangeTimerRef.current = window.setTimeout(() => ensureRange(start, end), 120);
+    },
+    [ensureRange]
   );
 
-  const memories = memoriesData?.memories || [];
-  const totalPages = Math.ceil((memoriesData?.total || 0) / ITEMS_PER_PAGE);
+  useEffect(() => () => window.clearTimeout(rangeTimerRef.current), []);
+
+  const handleJump = async (target: string) => {
+    if (!total) return;
+    setJumping(true);
+    try {
+      const index = await findSortedIndex(total, fetchAt, sortBy, sortDir, target);
+      listRef.current?.scrollToIndex(index);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to jump', 'error');
+    } finally {
+      setJumping(false);
+    }
+  };
+
+  const updateSelection = (fn: (items: Map<string, Memory>) => void) => {
+    const items = new Map(selectedItems);
+    fn(items);
+    setSelection({ projectId: selectedProject, items });
+  };
+
+  // Toggle a memory; shift-click selects the loaded range from the previous click
+  const toggleSelected = (memory: Memory, index: number, shiftKey: boolean) => {
+    const anchor = selectionAnchorRef.current;
+    updateSelection((items) => {
+      if (shiftKey && anchor && anchor.query === viewQuery) {
+        const [from, to] = anchor.index < index ? [anchor.index, index] : [index, anchor.index];
+        for (let i = from; i <= to; i++) {
+          const m = memoryPages.get(i);
+          if (m) items.set(m.id, m);
+        }
+      } else if (items.has(memory.id)) {
+        items.delete(memory.id);
+      } else {
+        items.set(memory.id, memory);
+      }
+    });
+    selectionAnchorRef.current = { query: viewQuery, index };
+  };
+
+  const loadedMemories = memoryPages.loaded();
+  const allLoadedSelected = loadedMemories.length > 0 && loadedMemories.every((m) => selectedItems.has(m.id));
+
+  const toggleLoadedSelected = () => {
+    updateSelection((items) => {
+      loadedMemories.forEach((m) => (allLoadedSelected ? items.delete(m.id) : items.set(m.id, m)));
+    });
+  };
+
+  // Rows that have not loaded yet render as placeholders of the same height
+  const renderMemoryRow = (index: number) => {
+    const memory = memoryPages.get(index);
+    if (!memory) {
+      return <div className={`${styles.memoryCard} ${styles.placeholderCard}`} aria-hidden />;
+    }
+    const packed = pack.inPack(selectedProject!, memory.id);
+    return (
+      <div
+        className={`${styles.memoryCard} ${selectedItems.has(memory.id) ? styles.selected : ''}`}
+        onClick={() => setSelectedMemory(memory)}
+      >
+        <div className={styles.memoryHeader}>
+          <input
+            type="checkbox"
+            className={styles.selectCheckbox}
+            checked={selectedItems.has(memory.id)}
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleSelected(memory, index, e.shiftKey);
+            }}
+            readOnly
+            title="Select memory"
+          />
+          <span className={styles.memoryTitle}>
+            {memory.title || memory.file_path || memory.id.slice(0, 12)}
+          </span>
+          <div className={styles.memoryMeta}>
+            <span className={styles.memoryDate}>{formatDate(memory.created_at)}</span>
+            <SourceBadge source={memory.source} />
+            <button
+              className={`${styles.iconBtn} ${packed ? styles.inPack : ''}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                pack.add(selectedProject!, memory);
+              }}
+              disabled={packed || pack.isPending(selectedProject!, memory.id)}
+              title={packed ? 'In the context pack' : 'Add to context pack'}
+            >
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M21 16V8a2 2 0 00-1-1.73l-7-4a2 2 0 00-2 0l-7 4A2 2 0 003 8v8a2 2 0 001 1.73l7 4a2 2 0 002 0l7-4A2 2 0 0021 16z" />
+              </svg>
+            </button>
+            {isAdmin && (
+              <button
+                className={styles.iconBtn}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setRelocating(memory);
+                }}
+                title="Copy or move to another project"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M5 12h14M12 5l7 7-7 7" />
+                </svg>
+              </button>
+            )}
+            {isAdmin && (
+              <button
+                className={styles.deleteIconBtn}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(memory);
+                }}
+                title="Delete memory"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
+                </svg>
+              </button>
+            )}
+          </div>
+        </div>
+  
+        {/* Content */}
+        {memory.content && <p className={styles.memoryPreview}>{memory.content.slice(0, 300)}</p>}
+  
+        {/* Tags */}
+        {memory.tags && memory.tags.length > 0 && (
+          <div className={styles.memoryTagsPreview}>
+            {memory.tags.map((tag, i) => {
+              const isSelected = selectedTags.includes(tag);
+              return (
+                <button
+                  key={i}
+                  className={`${styles.tagPreview} ${isSelected ? styles.tagSelected : ''}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (isSelected) {
+                      removeTag(tag);
+                    } else {
+                      addTag(tag);
+                    }
+                  }}
+                >
+                  {tag}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const handleSelectAllMatching = async () => {
+    if (!selectedProject) return;
+    setSelectingAll(true);
+    try {
+      const all = await api.listAllMemories(selectedProject, listParams);
+      setSelection({ projectId: selectedProject, items: new Map(all.map((m) => [m.id, m])) });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to select memories');
+    } finally {
+      setSelectingAll(false);
+    }
+  };
+
+  const handleBulkApplied = ({ updated, deletedIds }: { updated: Memory[]; deletedIds: string[] }) => {
+    updateSelection((items) => {
+      updated.forEach((m) => items.set(m.id, m));
+      deletedIds.forEach((id) => items.delete(id));
+    });
+    memoryPages.refresh();
+  };
 
   const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -205,9 +440,11 @@ export function Memories() {
 
     try {
       await api.createMemory(selectedProject, data);
-      mutate(memoriesKey);
+      memoryPages.refresh();
       setIsCreateOpen(false);
       (e.target as HTMLFormElement).reset();
+      setDraft({ title: '', content: '', tags: '' });
+      setTemplateId(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create memory');
     } finally {
@@ -215,13 +452,24 @@ export function Memories() {
     }
   };
 
+  const applyTemplate = (template: MemoryTemplate | null) => {
+    if (draft.content.trim() && !confirm('Replace the current content with this template?')) return;
+
+    setTemplateId(template?.id ?? null);
+    setDraft({
+      title: template && !draft.title.trim() ? template.title : draft.title,
+      content: template?.content ?? '',
+      tags: template ? mergeTemplateTags(draft.tags, template) : draft.tags,
+    });
+  };
+
   const handleDelete = async (memory: Memory) => {
     if (!selectedProject || !isAdmin) return;
     if (!confirm('Delete this memory? This cannot be undone.')) return;
 
     try {
       await api.deleteMemory(selectedProject, memory.id);
-      mutate(memoriesKey);
+      memoryPages.refresh();
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Failed to delete memory');
     }
@@ -250,27 +498,63 @@ export function Memories() {
           <p className={styles.pageSubtitle}>Browse and manage project memories</p>
         </div>
         {selectedProject && (
-          <button className={styles.addBtn} onClick={() => setIsCreateOpen(true)}>
-            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <path d="M12 5v14M5 12h14" />
-            </svg>
-            Add Memory
-          </button>
+          <div className={styles.headerActions}>
+            <button className={styles.viewActionBtn} onClick={handleCopyLink} title="Copy a link to this view">
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M10 13a5 5 0 007.54.54l3-3a5 5 0 00-7.07-7.07l-1.72 1.71" />
+                <path d="M14 11a5 5 0 00-7.54-.54l-3 3a5 5 0 007.07 7.07l1.71-1.71" />
+              </svg>
+              Copy link
+            </button>
+            {user && (
+              <button className={styles.viewActionBtn} onClick={openSaveView} title="Save this view to the sidebar">
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M19 21l-7-5-7 5V5a2 2 0 012-2h10a2 2 0 012 2z" />
+                </svg>
+                Save view
+              </button>
+            )}
+            <div className={styles.viewToggle}>
+              <button
+                className={`${styles.viewBtn} ${view === 'list' ? styles.active : ''}`}
+                onClick={() => setView('list')}
+                title="List view"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M8 6h13M8 12h13M8 18h13M3 6h.01M3 12h.01M3 18h.01" />
+                </svg>
+                List
+              </button>
+              <button
+                className={`${styles.viewBtn} ${view === 'files' ? styles.active : ''}`}
+                onClick={() => setView('files')}
+                title="Browse file memories by directory"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+                </svg>
+                Files
+              </button>
+            </div>
+            <button className={styles.addBtn} onClick={() => setIsCreateOpen(true)}>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M12 5v14M5 12h14" />
+              </svg>
+              Add Memory
+            </button>
+          </div>
         )}
       </div>
 
       {/* Filters */}
-      {selectedProject && (
+      {selectedProject && view === 'list' && (
         <div className={styles.filters}>
           <div className={styles.filterGroup}>
             <span className={styles.filterLabel}>Source</span>
             <div className={styles.typeFilters}>
               <button
                 className={`${styles.typeChip} ${!selectedSource ? styles.active : ''}`}
-                onClick={() => {
-                  setSelectedSource(null);
-                  setCurrentPage(1);
-                }}
+                onClick={() => updateView({ source: null })}
               >
                 All
               </button>
@@ -278,10 +562,7 @@ export function Memories() {
                 <button
                   key={source}
                   className={`${styles.typeChip} ${selectedSource === source ? styles.active : ''}`}
-                  onClick={() => {
-                    setSelectedSource(source);
-                    setCurrentPage(1);
-                  }}
+                  onClick={() => updateView({ source })}
                 >
                   {SOURCE_LABELS[source]}
                 </button>
@@ -330,31 +611,20 @@ export function Memories() {
                   <button
                     key={preset.value}
                     className={`${styles.typeChip} ${datePreset === preset.value ? styles.active : ''}`}
-                    onClick={() => {
-                      setDatePreset(preset.value);
-                      if (preset.value !== 'custom') {
-                        setShowDateFilter(false);
-                      } else {
-                        setShowDateFilter(true);
-                      }
-                      setCurrentPage(1);
-                    }}
+                    onClick={() => updateView({ datePreset: preset.value })}
                   >
                     {preset.label}
                   </button>
                 ))}
               </div>
-              {showDateFilter && datePreset === 'custom' && (
+              {datePreset === 'custom' && (
                 <div className={styles.customDateInputs}>
                   <div className={styles.dateInputWrapper}>
                     <input
                       type="date"
                       className={styles.dateInput}
                       value={customDateAfter}
-                      onChange={(e) => {
-                        setCustomDateAfter(e.target.value);
-                        setCurrentPage(1);
-                      }}
+                      onChange={(e) => updateView({ after: e.target.value })}
                       placeholder="From"
                     />
                     <svg className={styles.dateInputIcon} width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -370,10 +640,7 @@ export function Memories() {
                       type="date"
                       className={styles.dateInput}
                       value={customDateBefore}
-                      onChange={(e) => {
-                        setCustomDateBefore(e.target.value);
-                        setCurrentPage(1);
-                      }}
+                      onChange={(e) => updateView({ before: e.target.value })}
                       placeholder="To"
                     />
                     <svg className={styles.dateInputIcon} width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -395,10 +662,7 @@ export function Memories() {
               <select
                 className={styles.sortSelect}
                 value={sortBy}
-                onChange={(e) => {
-                  setSortBy(e.target.value as SortField);
-                  setCurrentPage(1);
-                }}
+                onChange={(e) => updateView({ sortBy: e.target.value as SortField })}
               >
                 {SORT_OPTIONS.map((opt) => (
                   <option key={opt.value} value={opt.value}>
@@ -408,10 +672,7 @@ export function Memories() {
               </select>
               <button
                 className={styles.sortDirBtn}
-                onClick={() => {
-                  setSortDir(sortDir === 'desc' ? 'asc' : 'desc');
-                  setCurrentPage(1);
-                }}
+                onClick={() => updateView({ sortDir: sortDir === 'desc' ? 'asc' : 'desc' })}
                 title={sortDir === 'desc' ? 'Newest first' : 'Oldest first'}
               >
                 {sortDir === 'desc' ? (
@@ -440,9 +701,23 @@ export function Memories() {
           title="Select a project"
           description="Choose a project from the dropdown to view its memories"
         />
-      ) : isLoading ? (
+      ) : view === 'files' ? (
+        <MemoryFileTree projectId={selectedProject} onSelectMemory={setSelectedMemory} />
+      ) : memoryPages.error && total === null ? (
+        <EmptyState
+          icon={
+            <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+              <circle cx="12" cy="12" r="10" />
+              <path d="M12 8v4M12 16h.01" />
+            </svg>
+          }
+          title="Failed to load memories"
+          description={memoryPages.error.message}
+          action={{ label: 'Retry', onClick: () => memoryPages.refresh() }}
+        />
+      ) : total === null ? (
         <div className={styles.loading}>Loading memories...</div>
-      ) : memories.length === 0 ? (
+      ) : total === 0 ? (
         <EmptyState
           icon={
             <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
@@ -458,86 +733,72 @@ export function Memories() {
         />
       ) : (
         <>
-          <div className={styles.memoryList}>
-            {memories.map((memory) => (
-              <motion.div
-                key={memory.id}
-                className={styles.memoryCard}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.2 }}
-                onClick={() => setSelectedMemory(memory)}
-              >
-                <div className={styles.memoryHeader}>
-                  <span className={styles.memoryTitle}>
-                    {memory.title || memory.file_path || memory.id.slice(0, 12)}
-                  </span>
-                  <div className={styles.memoryMeta}>
-                    <span className={styles.memoryDate}>{formatDate(memory.created_at)}</span>
-                    <SourceBadge source={memory.source} />
-                    {isAdmin && (
-                      <button
-                        className={styles.deleteIconBtn}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDelete(memory);
-                        }}
-                        title="Delete memory"
-                      >
-                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                          <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
-                        </svg>
-                      </button>
-                    )}
-                  </div>
-                </div>
-
-                {/* Content */}
-                {memory.content && (
-                  <p className={styles.memoryPreview}>
-                    {memory.content.length > 300
-                      ? memory.content.slice(0, 300) + '...'
-                      : memory.content}
-                  </p>
-                )}
+          {selectedItems.size > 0 && (
+            <MemoryBulkActions
+              projectId={selectedProject}
+              selected={[...selectedItems.values()]}
+              totalMatching={total}
+              filters={{
+                source: listParams.source,
+                tags: listParams.tags,
+                created_after: listParams.created_after,
+                created_before: listParams.created_before,
+              }}
+              canEdit={isAdmin}
+              selectingAll={selectingAll}
+              onSelectAll={handleSelectAllMatching}
+              onClear={() => setSelection({ projectId: selectedProject, items: new Map() })}
+              onApplied={handleBulkApplied}
+            />
+          )}
 
-                {/* Tags */}
-                {memory.tags && memory.tags.length > 0 && (
-                  <div className={styles.memoryTagsPreview}>
-                    {memory.tags.map((tag, i) => {
-                      const isSelected = selectedTags.includes(tag);
-                      return (
-                        <button
-                          key={i}
-                          className={`${styles.tagPreview} ${isSelected ? styles.tagSelected : ''}`}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            if (isSelected) {
-                              removeTag(tag);
-                            } else {
-                              addTag(tag);
-                            }
-                          }}
-                        >
-                          {tag}
-                        </button>
-                      );
-                    })}
-                  </div>
-                )}
-              </motion.div>
-            ))}
+          <div className={styles.listToolbar}>
+            <label className={styles.selectPageLabel}>
+              <input
+                type="checkbox"
+                className={styles.selectCheckbox}
+                checked={allLoadedSelected}
+                onChange={toggleLoadedSelected}
+              />
+              Select loaded
+            </label>
+            <span className={styles.listHint}>
+              {loadedMemories.length.toLocaleString()} of {total.toLocaleString()} loaded · Shift-click to select a range
+            </span>
+            {selectedItems.size > 0 && (
+              <button
+                className={styles.packSelectedBtn}
+                onClick={() => pack.addMany(selectedProject, [...selectedItems.values()])}
+              >
+                Add {selectedItems.size} to context pack
+              </button>
+            )}
           </div>
 
-          {totalPages > 1 && (
-            <div className={styles.paginationWrapper}>
-              <Pagination
-                currentPage={currentPage}
-                totalPages={totalPages}
-                onPageChange={setCurrentPage}
-              />
-            </div>
-          )}
+          <div className={styles.listArea}>
+            <VirtualList
+              key={listKey}
+              ref={listRef}
+              scrollKey={listKey}
+              count={total ?? 0}
+              rowHeight={ROW_HEIGHT}
+              renderRow={renderMemoryRow}
+              onRangeChange={handleRangeChange}
+              className={styles.memoryList}
+            />
+            <MemoryScrubber
+              total={total ?? 0}
+              position={visibleStart}
+              sortBy={sortBy}
+              labelAt={(i) => {
+                const memory = memoryPages.get(i);
+                return memory ? sortLabel(memory, sortBy) : undefined;
+              }}
+              onScrub={(i) => listRef.current?.scrollToIndex(i)}
+              onJump={handleJump}
+              jumping={jumping}
+            />
+          </div>
         </>
       )}
 
@@ -546,6 +807,7 @@ export function Memories() {
         isOpen={isCreateOpen}
         onClose={() => setIsCreateOpen(false)}
         title="Add Memory"
+        wide
         footer={
           <div className={styles.formActions}>
             <button className={styles.cancelBtn} onClick={() => setIsCreateOpen(false)}>
@@ -565,6 +827,30 @@ export function Memories() {
         <form id="create-memory-form" className={styles.form} onSubmit={handleCreate}>
           {error && <div className={styles.error}>{error}</div>}
 
+          <div className={styles.formGroup}>
+            <span className={styles.label}>Template</span>
+            <div className={styles.templates}>
+              <button
+                type="button"
+                className={`${styles.templateChip} ${templateId === null ? styles.active : ''}`}
+                onClick={() => applyTemplate(null)}
+              >
+                Blank
+              </button>
+              {MEMORY_TEMPLATES.map((template) => (
+                <button
+                  key={template.id}
+                  type="button"
+                  className={`${styles.templateChip} ${templateId === template.id ? styles.active : ''}`}
+                  onClick={() => applyTemplate(template)}
+                  title={template.description}
+                >
+                  {template.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
           <div className={styles.formGroup}>
             <label className={styles.label} htmlFor="title">
               Title *
@@ -575,6 +861,8 @@ export function Memories() {
               name="title"
               className={styles.input}
               placeholder="Enter a title for this memory..."
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
               required
             />
           </div>
@@ -583,12 +871,12 @@ export function Memories() {
             <label className={styles.label} htmlFor="content">
               Content *
             </label>
-            <textarea
+            <MarkdownEditor
               id="content"
               name="content"
-              className={styles.input}
+              value={draft.content}
+              onChange={(content) => setDraft({ ...draft, content })}
               placeholder="Enter the memory content..."
-              rows={6}
               required
             />
           </div>
@@ -603,6 +891,8 @@ export function Memories() {
               name="tags"
               className={styles.input}
               placeholder="tag1, tag2, tag3 (comma-separated)"
+              value={draft.tags}
+              onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
             />
           </div>
 
@@ -624,6 +914,48 @@ export function Memories() {
         </form>
       </Modal>
 
+      {/* Save View Modal */}
+      <Modal
+        isOpen={isSaveViewOpen}
+        onClose={() => setIsSaveViewOpen(false)}
+        title="Save View"
+        footer={
+          <div className={styles.formActions}>
+            <button className={styles.cancelBtn} onClick={() => setIsSaveViewOpen(false)}>
+              Cancel
+            </button>
+            <button
+              type="submit"
+              form="save-view-form"
+              className={styles.submitBtn}
+              disabled={!viewName.trim()}
+            >
+              Save View
+            </button>
+          </div>
+        }
+      >
+        <form id="save-view-form" className={styles.form} onSubmit={handleSaveView}>
+          <div className={styles.formGroup}>
+            <label className={styles.label} htmlFor="view-name">
+              Name
+            </label>
+            <input
+              type="text"
+              id="view-name"
+              className={styles.input}
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              autoFocus
+              required
+            />
+            <span className={styles.fieldHint}>
+              Saved views appear in the sidebar. Saving under an existing name replaces it.
+            </span>
+          </div>
+        </form>
+      </Modal>
+
       {/* Memory Detail Modal */}
       <MemoryDetailModal
         isOpen={selectedMemory !== null}
@@ -632,6 +964,23 @@ export function Memories() {
         projectId={selectedProject}
         selectedTags={selectedTags}
       />
+
+      {selectedProject && (
+        <MemoryRelocate
+          isOpen={relocating !== null}
+          onClose={() => setRelocating(null)}
+          projectId={selectedProject}
+          memories={relocating ? [relocating] : []}
+          onDone={(result) => {
+            if (result.deleted.length > 0) {
+              updateSelection((items) => result.deleted.forEach((id) => items.delete(id)));
+              memoryPages.refresh();
+            }
+          }}
+        />
+      )}
+
+      <ContextPackTray />
     </motion.div>
   );
 }
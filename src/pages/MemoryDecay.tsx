@@ -0,0 +1,471 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useParams, useNavigate } from 'react-router-dom';
+import useSWR from 'swr';
+import { api } from '../lib/api';
+import type { AlgorithmConfig, Memory, MemorySource } from '../lib/api';
+import { runBatch } from '../lib/batch';
+import type { BatchProgress } from '../lib/batch';
+import { ARCHIVED_TAG, daysUntilThreshold, findFadingMemories } from '../lib/decay';
+import type { FadingMemory } from '../lib/decay';
+import { useAuth } from '../stores/auth';
+import { updateMemoryWithHistory } from '../stores/revisions';
+import { useToast } from '../components/ToastContext';
+import { EmptyState, Modal, SourceBadge } from '../components/ui';
+import { MarkdownEditor } from '../components/MarkdownEditor';
+import { MemoryDetailModal } from '../components/MemoryDetailModal';
+import styles from './MemoryDecay.module.css';
+
+// File memories are refreshed by indexing, so only authored memories can fade unnoticed
+const REVIEW_SOURCES: MemorySource[] = ['manual', 'generated'];
+
+const DEFAULT_CONFIG: AlgorithmConfig = { strength_weight: 0.3, decay_half_life_days: 30 };
+
+type QueueAction = 'reaffirm' | 'archive' | 'delete';
+
+const ACTION_LABELS: Record<QueueAction, string> = {
+  reaffirm: 'Reaffirmed',
+  archive: 'Archived',
+  delete: 'Deleted',
+};
+
+function memoryLabel(memory: Memory) {
+  return memory.title || memory.id.slice(0, 12);
+}
+
+function formatAge(days: number) {
+  if (days < 1) return 'today';
+  if (days < 2) return '1 day ago';
+  if (days < 60) return `${Math.floor(days)} days ago`;
+  if (days < 730) return `${Math.floor(days / 30)} months ago`;
+  return `${Math.floor(days / 365)} years ago`;
+}
+
+function strengthColor(strength: number) {
+  if (strength < 0.1) return 'var(--status-error)';
+  if (strength < 0.25) return 'var(--status-warning)';
+  return 'var(--holo-cyan)';
+}
+
+export function MemoryDecay() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.roles?.includes('admin') ?? false;
+
+  const [threshold, setThreshold] = useState(0.25);
+  const [sources, setSources] = useState<Set<MemorySource>>(new Set(REVIEW_SOURCES));
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<{ action: QueueAction; progress: BatchProgress } | null>(null);
+  const [selectedMemory, setSelectedMemory] = useState<Memory | null>(null);
+  const [editing, setEditing] = useState<Memory | null>(null);
+  const [editForm, setEditForm] = useState({ title: '', tags: '', content: '' });
+  const [saving, setSaving] = useState(false);
+
+  const { data: project } = useSWR(
+    projectId ? `project-${projectId}` : null,
+    () => api.getProject(projectId!)
+  );
+
+  // Shares its cache with the algorithm settings panel
+  const { data: config } = useSWR<AlgorithmConfig>(
+    projectId ? `algorithm-config-${projectId}` : null,
+    () => api.getAlgorithmConfig(projectId!)
+  );
+
+  const {
+    data: memories,
+    error: loadError,
+    isLoading,
+    mutate: mutateMemories,
+  } = useSWR(
+    projectId ? `decay-memories-${projectId}` : null,
+    async () => {
+      const all: Memory[] = [];
+      for (const source of REVIEW_SOURCES) {
+        all.push(...(await api.listAllMemories(projectId!, { source })));
+      }
+      return all;
+    },
+    { revalidateOnFocus: false }
+  );
+
+  const algorithm = config ?? DEFAULT_CONFIG;
+  const queue = findFadingMemories(
+    (memories || []).filter((m) => sources.has(m.source)),
+    algorithm,
+    threshold
+  );
+  const selected = queue.filter((item) => selectedIds.has(item.memory.id));
+
+  // Apply results locally rather than refetching every memory in the project
+  const applyChanges = (updated: Memory[], deletedIds: string[]) => {
+    const byId = new Map(updated.map((m) => [m.id, m]));
+    const deleted = new Set(deletedIds);
+    mutateMemories(
+      (prev) => (prev || []).filter((m) => !deleted.has(m.id)).map((m) => byId.get(m.id) ?? m),
+      { revalidate: false }
+    );
+    setSelectedIds((prev) => new Set([...prev].filter((id) => !deleted.has(id) && !byId.has(id))));
+  };
+
+  const runAction = async (action: QueueAction, items: FadingMemory[]) => {
+    if (!projectId || items.length === 0) return;
+    if (action === 'delete' && !confirm(`Delete ${items.length} memories? This cannot be undone.`)) return;
+
+    setBusy({ action, progress: { done: 0, total: items.length } });
+    const onProgress = (progress: BatchProgress) => setBusy({ action, progress });
+    try {
+      if (action === 'delete') {
+        const result = await runBatch(items, ({ memory }) => api.deleteMemory(projectId, memory.id), { onProgress });
+        applyChanges([], result.succeeded.map((s) => s.item.memory.id));
+        reportResult(action, result.succeeded.length, result.failed.map((f) => f.error));
+        return;
+      }
+
+      // Reaffirming re-saves the memory unchanged, which resets its updated_at
+      const buildTags = (memory: Memory) =>
+        action === 'archive' ? [...(memory.tags || []), ARCHIVED_TAG] : memory.tags || [];
+      const result = await runBatch(
+        items,
+        ({ memory }) => api.updateMemory(projectId, memory.id, { tags: buildTags(memory) }),
+        { onProgress }
+      );
+      applyChanges(
+        // Fall back to a local merge if the API returns an empty body
+        result.succeeded.map(({ item, result: updated }) =>
+          updated?.id
+            ? updated
+            : { ...item.memory, tags: buildTags(item.memory), updated_at: new Date().toISOString() }
+        ),
+        []
+      );
+      reportResult(action, result.succeeded.length, result.failed.map((f) => f.error));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const reportResult = (action: QueueAction, succeeded: number, errors: string[]) => {
+    if (errors.length > 0) {
+      showToast(`${ACTION_LABELS[action]} ${succeeded}, ${errors.length} failed: ${errors[0]}`, 'error');
+    } else {
+      showToast(`${ACTION_LABELS[action]} ${succeeded} ${succeeded === 1 ? 'memory' : 'memories'}`, 'success');
+    }
+  };
+
+  const openEdit = (memory: Memory) => {
+    setEditing(memory);
+    setEditForm({ title: memory.title || '', tags: (memory.tags || []).join(', '), content: memory.content || '' });
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!projectId || !editing) return;
+
+    setSaving(true);
+    try {
+      const update = {
+        title: editForm.title.trim() || undefined,
+        tags: editForm.tags.split(',').map((t) => t.trim()).filter(Boolean),
+        // Only send content when it changed so unchanged memories are not re-embedded
+        ...(editForm.content !== (editing.content || '') && { content: editForm.content }),
+      };
+      const updated = await updateMemoryWithHistory(projectId, editing, update);
+      applyChanges([updated?.id ? updated : { ...editing, ...update, updated_at: new Date().toISOString() }], []);
+      showToast('Memory updated', 'success');
+      setEditing(null);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update memory', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleSource = (source: MemorySource) => {
+    setSources((prev) => {
+      const next = new Set(prev);
+      if (next.has(source)) next.delete(source);
+      else next.add(source);
+      return next;
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = queue.length > 0 && selected.length === queue.length;
+  const toggleAll = () => setSelectedIds(allSelected ? new Set() : new Set(queue.map((item) => item.memory.id)));
+
+  const thresholdDays = Math.round(daysUntilThreshold(threshold, algorithm.decay_half_life_days));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      {/* Header */}
+      <div className={styles.pageHeader}>
+        <button onClick={() => navigate(`/projects/${projectId}`)} className={styles.backBtn}>
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M19 12H5M12 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div>
+          <h1 className={styles.pageTitle}>Decay Review</h1>
+          <p className={styles.pageSubtitle}>
+            {project ? `${project.name} · ` : ''}Memories fading out of search results
+          </p>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className={styles.controls}>
+        <div className={styles.control}>
+          <span className={styles.controlLabel}>Strength below</span>
+          <div className={styles.thresholdRow}>
+            <input
+              type="range"
+              min={0.05}
+              max={0.9}
+              step={0.05}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className={styles.slider}
+            />
+            <span className={styles.thresholdValue}>{(threshold * 100).toFixed(0)}%</span>
+          </div>
+        </div>
+        <div className={styles.control}>
+          <span className={styles.controlLabel}>Sources</span>
+          <div className={styles.chips}>
+            {REVIEW_SOURCES.map((source) => (
+              <button
+                key={source}
+                className={`${styles.chip} ${sources.has(source) ? styles.active : ''}`}
+                onClick={() => toggleSource(source)}
+              >
+                {source}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button className={styles.refreshBtn} onClick={() => mutateMemories()} disabled={isLoading || busy !== null}>
+          Refresh
+        </button>
+      </div>
+
+      <p className={styles.configNote}>
+        Half-life {algorithm.decay_half_life_days} days, strength weight {(algorithm.strength_weight * 100).toFixed(0)}%
+        {config ? '' : ' (defaults)'} · memories not updated for about {thresholdDays} days are listed.
+        Strength here is estimated from when a memory was last edited, not when it was last used in search,
+        so reaffirming simply re-saves it.{' '}
+        <button className={styles.linkBtn} onClick={() => navigate(`/projects/${projectId}`)}>
+          Change on the project's Weights tab
+        </button>
+      </p>
+
+      {loadError && (
+        <div className={styles.error}>{loadError instanceof Error ? loadError.message : 'Failed to load memories'}</div>
+      )}
+
+      {isLoading ? (
+        <div className={styles.loading}>Loading memories...</div>
+      ) : queue.length === 0 ? (
+        <EmptyState
+          icon={
+            <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+              <path d="M20 6L9 17l-5-5" />
+            </svg>
+          }
+          title="Nothing is fading"
+          description={`No ${[...sources].join(' or ')} memories are below ${(threshold * 100).toFixed(0)}% strength`}
+        />
+      ) : (
+        <>
+          <div className={styles.queueToolbar}>
+            {isAdmin && (
+              <label className={styles.selectAll}>
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+                {selected.length > 0 ? `${selected.length} selected` : 'Select all'}
+              </label>
+            )}
+            <span className={styles.resultSummary}>
+              {queue.length} fading {queue.length === 1 ? 'memory' : 'memories'}, weakest first
+            </span>
+            {isAdmin && selected.length > 0 && (
+              <div className={styles.bulkActions}>
+                <button className={styles.actionBtn} onClick={() => runAction('reaffirm', selected)} disabled={busy !== null}>
+                  Reaffirm
+                </button>
+                <button className={styles.actionBtn} onClick={() => runAction('archive', selected)} disabled={busy !== null}>
+                  Archive
+                </button>
+                <button
+                  className={`${styles.actionBtn} ${styles.danger}`}
+                  onClick={() => runAction('delete', selected)}
+                  disabled={busy !== null}
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
+
+          {busy && (
+            <div className={styles.progress}>
+              <div className={styles.progressBar}>
+                <div
+                  className={styles.progressFill}
+                  style={{ width: `${busy.progress.total ? (busy.progress.done / busy.progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <span className={styles.progressText}>
+                {busy.progress.done} / {busy.progress.total}
+              </span>
+            </div>
+          )}
+
+          <ul className={styles.queue}>
+            {queue.map((item) => {
+              const { memory } = item;
+              return (
+                <li key={memory.id} className={`${styles.row} ${selectedIds.has(memory.id) ? styles.selected : ''}`}>
+                  {isAdmin && (
+                    <input
+                      type="checkbox"
+                      className={styles.rowCheckbox}
+                      checked={selectedIds.has(memory.id)}
+                      onChange={() => toggleSelected(memory.id)}
+                      title="Select memory"
+                    />
+                  )}
+                  <div className={styles.rowMain}>
+                    <div className={styles.rowHeader}>
+                      <button className={styles.rowTitle} onClick={() => setSelectedMemory(memory)}>
+                        {memoryLabel(memory)}
+                      </button>
+                      <SourceBadge source={memory.source} />
+                    </div>
+                    <div className={styles.rowMeta}>
+                      <span>Updated {formatAge(item.ageDays)}</span>
+                      <span title="How much decay lowers this memory's search score">
+                        −{(item.penalty * 100).toFixed(0)}% in ranking
+                      </span>
+                      {memory.tags && memory.tags.length > 0 && (
+                        <span className={styles.rowTags}>{memory.tags.join(', ')}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className={styles.strength} title={`Strength ${(item.strength * 100).toFixed(1)}%`}>
+                    <div className={styles.strengthBar}>
+                      <div
+                        className={styles.strengthFill}
+                        style={{ width: `${item.strength * 100}%`, background: strengthColor(item.strength) }}
+                      />
+                    </div>
+                    <span className={styles.strengthValue}>{(item.strength * 100).toFixed(0)}%</span>
+                  </div>
+                  {isAdmin && (
+                    <div className={styles.rowActions}>
+                      <button
+                        className={styles.actionBtn}
+                        onClick={() => runAction('reaffirm', [item])}
+                        disabled={busy !== null}
+                        title="Mark as still current, restoring full strength"
+                      >
+                        Reaffirm
+                      </button>
+                      <button className={styles.actionBtn} onClick={() => openEdit(memory)} disabled={busy !== null}>
+                        Edit
+                      </button>
+                      <button
+                        className={styles.actionBtn}
+                        onClick={() => runAction('archive', [item])}
+                        disabled={busy !== null}
+                        title={`Tag as "${ARCHIVED_TAG}" and remove from this queue`}
+                      >
+                        Archive
+                      </button>
+                      <button
+                        className={`${styles.actionBtn} ${styles.danger}`}
+                        onClick={() => runAction('delete', [item])}
+                        disabled={busy !== null}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+
+      {/* Edit Modal */}
+      <Modal
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        title="Edit Memory"
+        wide
+        footer={
+          <div className={styles.formActions}>
+            <button className={styles.cancelBtn} onClick={() => setEditing(null)}>
+              Cancel
+            </button>
+            <button type="submit" form="decay-edit-form" className={styles.submitBtn} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        }
+      >
+        <form id="decay-edit-form" onSubmit={handleSaveEdit} className={styles.form}>
+          <div className={styles.formGroup}>
+            <label htmlFor="decay-title" className={styles.label}>Title</label>
+            <input
+              id="decay-title"
+              className={styles.input}
+              value={editForm.title}
+              onChange={(e) => setEditForm({ ...editForm, title: e.target.value })}
+            />
+          </div>
+          <div className={styles.formGroup}>
+            <label htmlFor="decay-tags" className={styles.label}>Tags</label>
+            <input
+              id="decay-tags"
+              className={styles.input}
+              value={editForm.tags}
+              onChange={(e) => setEditForm({ ...editForm, tags: e.target.value })}
+              placeholder="Comma-separated"
+            />
+          </div>
+          <div className={styles.formGroup}>
+            <label htmlFor="decay-content" className={styles.label}>Content</label>
+            <MarkdownEditor
+              id="decay-content"
+              value={editForm.content}
+              onChange={(content) => setEditForm({ ...editForm, content })}
+              rows={12}
+            />
+          </div>
+        </form>
+      </Modal>
+
+      <MemoryDetailModal
+        isOpen={selectedMemory !== null}
+        onClose={() => setSelectedMemory(null)}
+        memory={selectedMemory}
+        projectId={projectId || null}
+      />
+    </motion.div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import useSWR from 'swr';
+import { api } from '../lib/api';
+import type { Memory } from '../lib/api';
+import { memoryPath, memoryViewPath, shareableUrl } from '../lib/memoryView';
+import { useAuth } from '../stores/auth';
+import { useRevisions } from '../stores/revisions';
+import { useToast } from '../components/ToastContext';
+import { EmptyState } from '../components/ui';
+import { MemoryContent } from '../components/MemoryDetailModal';
+import { MemoryLinkEditor } from '../components/MemoryLinkEditor';
+import { MemoryHistory } from '../components/MemoryHistory';
+import { MemoryRelocate } from '../components/MemoryRelocate';
+import { MemoryMetadataEditor } from '../components/MemoryMetadataEditor';
+import detailStyles from '../components/MemoryDetailModal.module.css';
+import styles from './MemoryDetail.module.css';
+
+// Memories visited on the way here, passed along in router state
+interface TrailEntry {
+  id: string;
+  title: string;
+}
+
+const MAX_TRAIL = 8;
+
+function memoryTitle(memory: Pick<Memory, 'id' | 'title' | 'file_path'>) {
+  return memory.title || memory.file_path || memory.id.slice(0, 12);
+}
+
+function truncate(text: string, max: number) {
+  return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+export function MemoryDetail() {
+  const { projectId, memoryId } = useParams<{ projectId: string; memoryId: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { showToast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.roles?.includes('admin') ?? false;
+  const [showHistory, setShowHistory] = useState(false);
+  const [relocateOpen, setRelocateOpen] = useState(false);
+  // Where this memory went if it was moved to another project
+  const [movedTo, setMovedTo] = useState<string | null>(null);
+
+  const trail: TrailEntry[] = (location.state as { trail?: TrailEntry[] } | null)?.trail ?? [];
+
+  const { data: project } = useSWR(
+    projectId ? `project-${projectId}` : null,
+    () => api.getProject(projectId!)
+  );
+
+  const { data: context, isLoading, error, mutate: refreshContext } = useSWR(
+    projectId && memoryId ? `memory-context-${projectId}-${memoryId}` : null,
+    () => api.getMemoryContext(projectId!, memoryId!),
+    {
+      revalidateOnFocus: false,
+      // Journal every loaded version so it can be diffed or restored later
+      onSuccess: (next) => {
+        if (next?.memory) useRevisions.getState().record(projectId!, next.memory);
+      },
+    }
+  );
+
+  const memory = context?.memory;
+
+  // Trail to hand to the next memory: extend it, or cut it back when returning to an earlier step
+  const trailTo = (id: string): TrailEntry[] => {
+    const index = trail.findIndex((t) => t.id === id);
+    if (index >= 0) return trail.slice(0, index);
+    if (!memory) return trail;
+    return [...trail, { id: memory.id, title: memoryTitle(memory) }].slice(-MAX_TRAIL);
+  };
+
+  const openMemory = (id: string) => {
+    if (!projectId) return;
+    navigate(memoryPath(projectId, id), { state: { trail: trailTo(id) } });
+  };
+
+  const handleCopyLink = async () => {
+    if (!projectId || !memoryId) return;
+    try {
+      await navigator.clipboard.writeText(shareableUrl(memoryPath(projectId, memoryId)));
+      showToast('Link copied to clipboard', 'success');
+    } catch {
+      showToast('Failed to copy link', 'error');
+    }
+  };
+
+  const handleRelocateClose = () => {
+    setRelocateOpen(false);
+    if (movedTo) navigate(movedTo, { replace: true });
+  };
+
+  const memoriesPath = projectId ? memoryViewPath(projectId, '') : '/memories';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      {/* Breadcrumbs */}
+      <nav className={styles.breadcrumbs}>
+        <Link to="/projects">Projects</Link>
+        <span className={styles.crumbSeparator}>/</span>
+        <Link to={`/projects/${projectId}`}>{project?.name || projectId}</Link>
+        <span className={styles.crumbSeparator}>/</span>
+        <Link to={memoriesPath}>Memories</Link>
+        {trail.map((entry, i) => (
+          <span key={entry.id} className={styles.crumb}>
+            <span className={styles.crumbSeparator}>/</span>
+            <Link to={memoryPath(projectId!, entry.id)} state={{ trail: trail.slice(0, i) }} title={entry.title}>
+              {truncate(entry.title, 32)}
+            </Link>
+          </span>
+        ))}
+        {memory && (
+          <>
+            <span className={styles.crumbSeparator}>/</span>
+            <span className={styles.crumbCurrent}>{truncate(memoryTitle(memory), 48)}</span>
+          </>
+        )}
+      </nav>
+
+      {/* Header */}
+      <div className={styles.pageHeader}>
+        <button onClick={() => navigate(-1)} className={styles.backBtn} title="Back">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M19 12H5M12 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div className={styles.headerText}>
+          <h1 className={styles.pageTitle}>{memory ? memoryTitle(memory) : 'Memory'}</h1>
+          {memory?.author && <p className={styles.pageSubtitle}>by {memory.author}</p>}
+        </div>
+        {memory && (
+          <div className={styles.headerActions}>
+            <button className={styles.actionBtn} onClick={handleCopyLink}>
+              Copy link
+            </button>
+            <Link className={styles.actionBtn} to={`/projects/${projectId}/graph?seed=${encodeURIComponent(memory.id)}`}>
+              View in graph
+            </Link>
+            {isAdmin && (
+              <button className={styles.actionBtn} onClick={() => setRelocateOpen(true)}>
+                Copy / Move
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error ? (
+        <EmptyState
+          title="Memory not found"
+          description={error instanceof Error ? error.message : 'This memory could not be loaded'}
+          action={{ label: 'Back to memories', onClick: () => navigate(memoriesPath) }}
+        />
+      ) : isLoading || !memory ? (
+        <div className={styles.loading}>Loading memory...</div>
+      ) : (
+        <div className={styles.layout}>
+          <div className={`${styles.panel} ${styles.main}`}>
+            <MemoryContent
+              key={memory.id}
+              projectId={projectId!}
+              memory={memory}
+              fullContent={memory.content}
+              expanded
+              onNavigate={openMemory}
+            />
+
+            <div className={detailStyles.section}>
+              <span className={detailStyles.sectionLabel}>Keywords &amp; Context</span>
+              <MemoryMetadataEditor
+                key={memory.id}
+                projectId={projectId!}
+                memory={memory}
+                canEdit={isAdmin}
+                onChange={() => refreshContext()}
+              />
+            </div>
+
+            {memory.tags && memory.tags.length > 0 && (
+              <div className={detailStyles.tags}>
+                {memory.tags.map((tag) => (
+                  <Link
+                    key={tag}
+                    className={detailStyles.tag}
+                    to={memoryViewPath(projectId!, new URLSearchParams({ tags: tag }).toString())}
+                  >
+                    {tag}
+                  </Link>
+                ))}
+              </div>
+            )}
+
+            <div className={detailStyles.section}>
+              <span className={detailStyles.sectionLabel}>Links</span>
+              <MemoryLinkEditor
+                key={memory.id}
+                projectId={projectId!}
+                memoryId={memory.id}
+                titles={Object.fromEntries([
+                  ...context.related.map((r) => [r.id, r.title]),
+                  ...context.similar.map((r) => [r.id, r.title]),
+                ])}
+                canEdit={isAdmin}
+                onNavigate={openMemory}
+                onChange={() => refreshContext()}
+              />
+            </div>
+
+            <div className={detailStyles.section}>
+              <button className={detailStyles.sectionToggle} onClick={() => setShowHistory(!showHistory)}>
+                <svg
+                  className={showHistory ? detailStyles.toggleOpen : ''}
+                  width="10"
+                  height="10"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                >
+                  <path d="M9 18l6-6-6-6" />
+                </svg>
+                History
+              </button>
+              {showHistory && (
+                <MemoryHistory
+                  projectId={projectId!}
+                  memory={memory}
+                  canEdit={isAdmin}
+                  onRestored={() => refreshContext()}
+                />
+              )}
+            </div>
+
+            <div className={detailStyles.meta}>
+              <div className={detailStyles.metaItem}>
+                <span className={detailStyles.metaLabel}>ID</span>
+                <span className={`${detailStyles.metaValue} ${styles.mono}`}>{memory.id}</span>
+              </div>
+              {memory.updated_at && memory.updated_at !== memory.created_at && (
+                <div className={detailStyles.metaItem}>
+                  <span className={detailStyles.metaLabel}>Updated</span>
+                  <span className={detailStyles.metaValue}>{new Date(memory.updated_at).toLocaleString('en-GB')}</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Related and similar memories */}
+          <aside className={styles.sidebar}>
+            <div className={styles.panel}>
+              <span className={detailStyles.sectionLabel}>Related Memories</span>
+              {context.related.length === 0 ? (
+                <p className={styles.sidebarEmpty}>No linked memories</p>
+              ) : (
+                <div className={detailStyles.relatedList}>
+                  {context.related.map((related) => (
+                    <Link
+                      key={related.id}
+                      className={detailStyles.relatedItem}
+                      to={memoryPath(projectId!, related.id)}
+                      state={{ trail: trailTo(related.id) }}
+                    >
+                      <div className={detailStyles.relatedHeader}>
+                        <span className={detailStyles.relatedTitle}>{related.title || related.id.slice(0, 12)}</span>
+                        <span className={detailStyles.relatedType}>{related.link_type}</span>
+                      </div>
+                      <p className={detailStyles.relatedPreview}>{truncate(related.content_preview, 120)}</p>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className={styles.panel}>
+              <span className={detailStyles.sectionLabel}>Similar Memories</span>
+              {context.similar.length === 0 ? (
+                <p className={styles.sidebarEmpty}>No similar memories</p>
+              ) : (
+                <div className={detailStyles.relatedList}>
+                  {context.similar.map((similar) => (
+                    <Link
+                      key={similar.id}
+                      className={detailStyles.relatedItem}
+                      to={memoryPath(projectId!, similar.id)}
+                      state={{ trail: trailTo(similar.id) }}
+                    >
+                      <div className={detailStyles.relatedHeader}>
+                        <span className={detailStyles.relatedTitle}>{similar.title || similar.id.slice(0, 12)}</span>
+                        <span className={detailStyles.relatedScore}>{(similar.score * 100).toFixed(0)}%</span>
+                      </div>
+                      <p className={detailStyles.relatedPreview}>{truncate(similar.content_preview, 120)}</p>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </div>
+          </aside>
+        </div>
+      )}
+
+      {projectId && memory && (
+        <MemoryRelocate
+          isOpen={relocateOpen}
+          onClose={handleRelocateClose}
+          projectId={projectId}
+          memories={[memory]}
+          onDone={(result) => {
+            const copy = result.created[0]?.to;
+            if (copy && result.deleted.includes(memory.id)) setMovedTo(memoryPath(result.targetProjectId, copy.id));
+          }}
+        />
+      )}
+    </motion.div>
+  );
+}
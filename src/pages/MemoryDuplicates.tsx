@@ -0,0 +1,369 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useParams, useNavigate } from 'react-router-dom';
+import useSWR from 'swr';
+import { api } from '../lib/api';
+import type { Memory, MemorySource } from '../lib/api';
+import type { BatchProgress } from '../lib/batch';
+import { findDuplicateClusters, mergeMemories } from '../lib/duplicates';
+import type { DuplicateCluster } from '../lib/duplicates';
+import { useAuth } from '../stores/auth';
+import { useToast } from '../components/ToastContext';
+import { EmptyState, SourceBadge } from '../components/ui';
+import { DiffView } from '../components/DiffView';
+import { MemoryDetailModal } from '../components/MemoryDetailModal';
+import styles from './MemoryDuplicates.module.css';
+
+// File memories are re-created by indexing, so only authored memories are reviewed
+const SCAN_SOURCES: MemorySource[] = ['manual', 'generated'];
+
+function memoryLabel(memory: Memory) {
+  return memory.title || memory.file_path || memory.id.slice(0, 12);
+}
+
+interface ClusterCardProps {
+  projectId: string;
+  cluster: DuplicateCluster;
+  canEdit: boolean;
+  onOpen: (memory: Memory) => void;
+  onMerged: (deletedIds: string[]) => void;
+}
+
+function ClusterCard({ projectId, cluster, canEdit, onOpen, onMerged }: ClusterCardProps) {
+  const { showToast } = useToast();
+
+  // Keep the oldest memory by default; newer ones are usually the rewrites
+  const [keepId, setKeepId] = useState(
+    () => [...cluster.memories].sort((a, b) => a.created_at.localeCompare(b.created_at))[0].id
+  );
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const keep = cluster.memories.find((m) => m.id === keepId)!;
+  const others = cluster.memories.filter((m) => m.id !== keepId);
+  const toMerge = others.filter((m) => !excluded.has(m.id));
+  const compare = others.find((m) => m.id === compareId) || others[0];
+
+  const scoreWith = (id: string) =>
+    cluster.pairs.find((p) => (p.a === keepId && p.b === id) || (p.b === keepId && p.a === id))?.score;
+
+  const toggleExcluded = (id: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleMerge = async () => {
+    if (toMerge.length === 0) return;
+    if (!confirm(`Merge ${toMerge.length} memories into "${memoryLabel(keep)}" and delete them?`)) return;
+
+    setMerging(true);
+    try {
+      const result = await mergeMemories(projectId, keep, toMerge);
+      if (result.errors.length > 0) {
+        showToast(`Merged with ${result.errors.length} problems: ${result.errors[0]}`, 'error');
+      } else {
+        showToast(`Merged ${result.deleted.length} memories, moved ${result.linksMoved} links`, 'success');
+      }
+      onMerged(result.deleted);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Merge failed', 'error');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className={styles.cluster}>
+      <div className={styles.clusterHeader}>
+        <span className={styles.clusterTitle}>
+          {cluster.memories.length} similar memories
+        </span>
+        <span className={styles.clusterScore}>max score {cluster.maxScore.toFixed(3)}</span>
+      </div>
+
+      <ul className={styles.memberList}>
+        {cluster.memories.map((memory) => {
+          const isKeep = memory.id === keepId;
+          const score = isKeep ? undefined : scoreWith(memory.id);
+          return (
+            <li
+              key={memory.id}
+              className={`${styles.member} ${isKeep ? styles.keep : ''} ${
+                compare?.id === memory.id ? styles.comparing : ''
+              }`}
+            >
+              <label className={styles.keepRadio} title="Keep this memory">
+                <input
+                  type="radio"
+                  name={`keep-${cluster.id}`}
+                  checked={isKeep}
+                  onChange={() => setKeepId(memory.id)}
+                  disabled={!canEdit || merging}
+                />
+                Keep
+              </label>
+              {!isKeep && canEdit && (
+                <label className={styles.mergeCheckbox} title="Merge into the kept memory">
+                  <input
+                    type="checkbox"
+                    checked={!excluded.has(memory.id)}
+                    onChange={() => toggleExcluded(memory.id)}
+                    disabled={merging}
+                  />
+                  Merge
+                </label>
+              )}
+              <button className={styles.memberTitle} onClick={() => onOpen(memory)}>
+                {memoryLabel(memory)}
+              </button>
+              <SourceBadge source={memory.source} />
+              {score !== undefined && <span className={styles.memberScore}>{score.toFixed(3)}</span>}
+              {!isKeep && (
+                <button
+                  className={styles.compareBtn}
+                  onClick={() => setCompareId(memory.id)}
+                  disabled={compare?.id === memory.id}
+                >
+                  Compare
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {compare && (
+        <DiffView
+          left={keep.content || ''}
+          right={compare.content || ''}
+          leftLabel={`Keep: ${memoryLabel(keep)}`}
+          rightLabel={memoryLabel(compare)}
+        />
+      )}
+
+      {canEdit && (
+        <div className={styles.clusterActions}>
+          <span className={styles.mergeHint}>
+            Tags are combined and links re-pointed to the kept memory before the others are deleted.
+          </span>
+          <button className={styles.mergeBtn} onClick={handleMerge} disabled={merging || toMerge.length === 0}>
+            {merging ? 'Merging...' : `Merge ${toMerge.length} into kept`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function MemoryDuplicates() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const isAdmin = user?.roles?.includes('admin') ?? false;
+
+  const [threshold, setThreshold] = useState(0.9);
+  const [sources, setSources] = useState<Set<MemorySource>>(new Set(SCAN_SOURCES));
+  const [progress, setProgress] = useState<{ phase: string; done: number; total: number } | null>(null);
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [failedCount, setFailedCount] = useState(0);
+  const [selectedMemory, setSelectedMemory] = useState<Memory | null>(null);
+
+  const { data: project } = useSWR(
+    projectId ? `project-${projectId}` : null,
+    () => api.getProject(projectId!)
+  );
+
+  const toggleSource = (source: MemorySource) => {
+    setSources((prev) => {
+      const next = new Set(prev);
+      if (next.has(source)) next.delete(source);
+      else next.add(source);
+      return next;
+    });
+  };
+
+  const handleScan = async () => {
+    if (!projectId || sources.size === 0) return;
+    setScanError(null);
+    setClusters(null);
+    setFailedCount(0);
+    setProgress({ phase: 'Loading memories', done: 0, total: 0 });
+
+    try {
+      const memories: Memory[] = [];
+      for (const source of sources) {
+        memories.push(
+          ...(await api.listAllMemories(projectId, { source }, (done, total) =>
+            setProgress({ phase: `Loading ${source} memories`, done, total })
+          ))
+        );
+      }
+
+      const result = await findDuplicateClusters(projectId, memories, {
+        threshold,
+        onProgress: ({ done, total }: BatchProgress) => setProgress({ phase: 'Comparing', done, total }),
+      });
+      setClusters(result.clusters);
+      setFailedCount(result.failed);
+    } catch (err) {
+      setScanError(err instanceof Error ? err.message : 'Scan failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // Drop merged memories, and clusters left with nothing to compare
+  const handleMerged = (index: number, deletedIds: string[]) => {
+    const deleted = new Set(deletedIds);
+    setClusters((prev) =>
+      (prev || [])
+        .map((cluster, i) =>
+          i === index
+            ? {
+                ...cluster,
+                memories: cluster.memories.filter((m) => !deleted.has(m.id)),
+                pairs: cluster.pairs.filter((p) => !deleted.has(p.a) && !deleted.has(p.b)),
+              }
+            : cluster
+        )
+        .filter((cluster) => cluster.memories.length > 1 && cluster.pairs.length > 0)
+    );
+  };
+
+  const scanning = progress !== null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      {/* Header */}
+      <div className={styles.pageHeader}>
+        <button onClick={() => navigate(`/projects/${projectId}`)} className={styles.backBtn}>
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M19 12H5M12 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div>
+          <h1 className={styles.pageTitle}>Duplicates</h1>
+          <p className={styles.pageSubtitle}>
+            {project ? `${project.name} · ` : ''}Find near-duplicate memories and merge them
+          </p>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className={styles.controls}>
+        <div className={styles.control}>
+          <span className={styles.controlLabel}>Similarity threshold</span>
+          <div className={styles.thresholdRow}>
+            <input
+              type="range"
+              min={0.7}
+              max={0.99}
+              step={0.01}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className={styles.slider}
+              disabled={scanning}
+            />
+            <span className={styles.thresholdValue}>{threshold.toFixed(2)}</span>
+          </div>
+        </div>
+        <div className={styles.control}>
+          <span className={styles.controlLabel}>Sources</span>
+          <div className={styles.chips}>
+            {SCAN_SOURCES.map((source) => (
+              <button
+                key={source}
+                className={`${styles.chip} ${sources.has(source) ? styles.active : ''}`}
+                onClick={() => toggleSource(source)}
+                disabled={scanning}
+              >
+                {source}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button className={styles.scanBtn} onClick={handleScan} disabled={scanning || sources.size === 0}>
+          {scanning ? 'Scanning...' : clusters ? 'Rescan' : 'Scan for duplicates'}
+        </button>
+      </div>
+
+      {progress && (
+        <div className={styles.progress}>
+          <div className={styles.progressBar}>
+            <div
+              className={styles.progressFill}
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <span className={styles.progressText}>
+            {progress.phase} {progress.done} / {progress.total}
+          </span>
+        </div>
+      )}
+
+      {scanError && <div className={styles.error}>{scanError}</div>}
+      {failedCount > 0 && (
+        <div className={styles.warning}>{failedCount} memories could not be compared and were skipped.</div>
+      )}
+
+      {/* Results */}
+      {clusters === null ? (
+        !scanning && (
+          <EmptyState
+            icon={
+              <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                <rect x="8" y="8" width="12" height="12" rx="2" />
+                <path d="M16 8V6a2 2 0 00-2-2H6a2 2 0 00-2 2v8a2 2 0 002 2h2" />
+              </svg>
+            }
+            title="Scan for duplicates"
+            description="Compares each memory with its most similar neighbours. This makes one request per memory."
+          />
+        )
+      ) : clusters.length === 0 ? (
+        <EmptyState
+          icon={
+            <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+              <path d="M20 6L9 17l-5-5" />
+            </svg>
+          }
+          title="No duplicates found"
+          description={`No memories are more than ${threshold.toFixed(2)} similar to each other`}
+        />
+      ) : (
+        <div className={styles.clusterList}>
+          <p className={styles.resultSummary}>
+            {clusters.length} clusters · {clusters.reduce((sum, c) => sum + c.memories.length, 0)} memories
+          </p>
+          {clusters.map((cluster, index) => (
+            <ClusterCard
+              key={cluster.id}
+              projectId={projectId!}
+              cluster={cluster}
+              canEdit={isAdmin}
+              onOpen={setSelectedMemory}
+              onMerged={(deletedIds) => handleMerged(index, deletedIds)}
+            />
+          ))}
+        </div>
+      )}
+
+      <MemoryDetailModal
+        isOpen={selectedMemory !== null}
+        onClose={() => setSelectedMemory(null)}
+        memory={selectedMemory}
+        projectId={projectId || null}
+      />
+    </motion.div>
+  );
+}
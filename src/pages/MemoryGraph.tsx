@@ -0,0 +1,312 @@
+import { useState, useMemo, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import useSWR from 'swr';
+import { api } from '../lib/api';
+import type { Memory, MemorySource } from '../lib/api';
+import { walkMemoryGraph, layoutGraph } from '../lib/graph';
+import type { Point } from '../lib/graph';
+import { EmptyState } from '../components/ui';
+import { MemoryPicker } from '../components/MemoryPicker';
+import { MemoryDetailModal } from '../components/MemoryDetailModal';
+import styles from './MemoryGraph.module.css';
+
+const WIDTH = 1000;
+const HEIGHT = 640;
+const MAX_NODES = 80;
+const DEPTH_OPTIONS = [1, 2, 3];
+
+const LINK_COLORS: Record<string, string> = {
+  related: '#00d4ff',
+  references: '#8b5cf6',
+  depends_on: '#ffd700',
+  modifies: '#ff00aa',
+};
+const SIMILAR_COLOR = 'rgba(240, 240, 245, 0.35)';
+
+const SOURCE_COLORS: Record<MemorySource, string> = {
+  file: '#00d4ff',
+  manual: '#8b5cf6',
+  generated: '#ff00aa',
+};
+const UNKNOWN_COLOR = '#6b6b80';
+
+// Higher similarity draws longer dashes (closer to a solid line)
+function similarDash(score = 0) {
+  const dash = 2 + score * 10;
+  const gap = Math.max(1, 6 - score * 5);
+  return `${dash.toFixed(1)} ${gap.toFixed(1)}`;
+}
+
+function truncate(text: string, max: number) {
+  return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+export function MemoryGraph() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const seedId = searchParams.get('seed');
+  const depth = Number(searchParams.get('depth')) || 2;
+
+  const [selectedMemory, setSelectedMemory] = useState<Memory | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [dragged, setDragged] = useState<{ key: string; positions: Record<string, Point> }>({ key: '', positions: {} });
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ id: string; moved: boolean } | null>(null);
+
+  const { data: project } = useSWR(
+    projectId ? `project-${projectId}` : null,
+    () => api.getProject(projectId!)
+  );
+
+  const graphKey = projectId && seedId ? ['memory-graph', projectId, seedId, depth] : null;
+  const { data: graph, isLoading, error } = useSWR(
+    graphKey,
+    () => walkMemoryGraph(projectId!, seedId!, { depth, maxNodes: MAX_NODES }),
+    { revalidateOnFocus: false }
+  );
+
+  const layout = useMemo(() => (graph ? layoutGraph(graph, WIDTH, HEIGHT) : {}), [graph]);
+
+  // Manual drags only apply to the graph they were made on
+  const layoutKey = graphKey ? graphKey.join('|') : '';
+  const positions = dragged.key === layoutKey ? { ...layout, ...dragged.positions } : layout;
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) next.delete(key);
+      else next.set(key, value);
+    }
+    setSearchParams(next);
+  };
+
+  const toSvgPoint = (e: React.PointerEvent): Point | null => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const pt = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    return { x: pt.x, y: pt.y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, id: string) => {
+    (e.target as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { id, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toSvgPoint(e);
+    if (!point) return;
+    drag.moved = true;
+    setDragged((prev) => ({
+      key: layoutKey,
+      positions: { ...(prev.key === layoutKey ? prev.positions : {}), [drag.id]: point },
+    }));
+  };
+
+  const handlePointerUp = (id: string) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    // A press without movement is a click: open the memory
+    if (drag && !drag.moved && graph) {
+      const node = graph.nodes.find((n) => n.id === id);
+      if (node) {
+        setSelectedMemory({
+          id: node.id,
+          project_id: projectId!,
+          title: node.title,
+          file_path: node.file_path,
+          source: node.source ?? 'manual',
+          created_at: '',
+          updated_at: '',
+        });
+      }
+    }
+  };
+
+  const highlighted = useMemo(() => {
+    if (!hoveredId || !graph) return null;
+    const ids = new Set([hoveredId]);
+    for (const edge of graph.edges) {
+      if (edge.source === hoveredId) ids.add(edge.target);
+      if (edge.target === hoveredId) ids.add(edge.source);
+    }
+    return ids;
+  }, [hoveredId, graph]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      {/* Header */}
+      <div className={styles.pageHeader}>
+        <button onClick={() => navigate(`/projects/${projectId}`)} className={styles.backBtn}>
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M19 12H5M12 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div>
+          <h1 className={styles.pageTitle}>Memory Graph</h1>
+          <p className={styles.pageSubtitle}>
+            {project ? `${project.name} · ` : ''}Explore how memories connect through links and similarity
+          </p>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className={styles.controls}>
+        <div className={styles.seedPicker}>
+          <span className={styles.controlLabel}>Seed memory</span>
+          {projectId && (
+            <MemoryPicker
+              projectId={projectId}
+              placeholder="Search for a memory to start from..."
+              onSelect={(memory) => updateParams({ seed: memory.id })}
+            />
+          )}
+        </div>
+        <div className={styles.depthControl}>
+          <span className={styles.controlLabel} title="Hops outward from the starting memory">Depth</span>
+          <div className={styles.depthChips}>
+            {DEPTH_OPTIONS.map((d) => (
+              <button
+                key={d}
+                className={`${styles.depthChip} ${depth === d ? styles.active : ''}`}
+                onClick={() => updateParams({ depth: String(d) })}
+              >
+                {d}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Graph */}
+      {!seedId ? (
+        <EmptyState
+          icon={
+            <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+              <circle cx="18" cy="5" r="3" />
+              <circle cx="6" cy="12" r="3" />
+              <circle cx="18" cy="19" r="3" />
+              <line x1="8.59" y1="13.51" x2="15.42" y2="17.49" />
+              <line x1="15.41" y1="6.51" x2="8.59" y2="10.49" />
+            </svg>
+          }
+          title="Pick a starting memory"
+          description="Search for a memory above to explore its neighbourhood"
+        />
+      ) : isLoading ? (
+        <div className={styles.loading}>Walking memory graph...</div>
+      ) : error || !graph ? (
+        <div className={styles.error}>
+          {error instanceof Error ? error.message : 'Failed to load memory graph'}
+        </div>
+      ) : (
+        <div className={styles.canvasWrapper}>
+          <div className={styles.canvasHeader}>
+            <span className={styles.graphStats}>
+              <strong>{graph.nodes.length}</strong> memories · <strong>{graph.edges.length}</strong> connections
+              {graph.truncated && <span className={styles.truncated}> · limited to {MAX_NODES} memories</span>}
+            </span>
+            <div className={styles.legend}>
+              {Object.entries(LINK_COLORS).map(([type, color]) => (
+                <span key={type} className={styles.legendItem}>
+                  <span className={styles.legendLine} style={{ background: color }} />
+                  {type.replace('_', ' ')}
+                </span>
+              ))}
+              <span className={styles.legendItem}>
+                <span className={`${styles.legendLine} ${styles.legendDashed}`} />
+                similar
+              </span>
+            </div>
+          </div>
+
+          <svg
+            ref={svgRef}
+            className={styles.canvas}
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            onPointerMove={handlePointerMove}
+          >
+            <g>
+              {graph.edges.map((edge, i) => {
+                const a = positions[edge.source];
+                const b = positions[edge.target];
+                if (!a || !b) return null;
+                const dimmed = highlighted && !(highlighted.has(edge.source) && highlighted.has(edge.target));
+                return (
+                  <line
+                    key={i}
+                    x1={a.x}
+                    y1={a.y}
+                    x2={b.x}
+                    y2={b.y}
+                    stroke={edge.kind === 'similar' ? SIMILAR_COLOR : LINK_COLORS[edge.link_type || ''] || SIMILAR_COLOR}
+                    strokeWidth={edge.kind === 'similar' ? 1 : 1.75}
+                    strokeDasharray={edge.kind === 'similar' ? similarDash(edge.score) : undefined}
+                    opacity={dimmed ? 0.1 : edge.kind === 'similar' ? 0.4 + (edge.score ?? 0) * 0.6 : 0.9}
+                  >
+                    <title>
+                      {edge.kind === 'similar'
+                        ? `similar · ${((edge.score ?? 0) * 100).toFixed(0)}%`
+                        : edge.link_type}
+                    </title>
+                  </line>
+                );
+              })}
+            </g>
+            <g>
+              {graph.nodes.map((node) => {
+                const p = positions[node.id];
+                if (!p) return null;
+                const isSeed = node.id === graph.seedId;
+                const label = node.title || node.file_path?.split('/').pop() || node.id.slice(0, 8);
+                const dimmed = highlighted && !highlighted.has(node.id);
+                return (
+                  <g
+                    key={node.id}
+                    className={styles.node}
+                    transform={`translate(${p.x}, ${p.y})`}
+                    opacity={dimmed ? 0.25 : 1}
+                    onPointerDown={(e) => handlePointerDown(e, node.id)}
+                    onPointerUp={() => handlePointerUp(node.id)}
+                    onPointerEnter={() => setHoveredId(node.id)}
+                    onPointerLeave={() => setHoveredId(null)}
+                    onDoubleClick={() => updateParams({ seed: node.id })}
+                  >
+                    <circle
+                      r={isSeed ? 11 : 7}
+                      fill={node.source ? SOURCE_COLORS[node.source] : UNKNOWN_COLOR}
+                      stroke={isSeed ? '#f0f0f5' : 'rgba(10, 10, 15, 0.8)'}
+                      strokeWidth={isSeed ? 2.5 : 1.5}
+                    />
+                    <text className={styles.nodeLabel} y={isSeed ? -16 : -12} textAnchor="middle">
+                      {truncate(label, 28)}
+                    </text>
+                    <title>{node.title || node.file_path || node.id}</title>
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+          <p className={styles.hint}>
+            Click a memory to open it · double-click to re-centre the graph on it · drag to rearrange
+          </p>
+        </div>
+      )}
+
+      <MemoryDetailModal
+        isOpen={selectedMemory !== null}
+        onClose={() => setSelectedMemory(null)}
+        memory={selectedMemory}
+        projectId={projectId ?? null}
+      />
+    </motion.div>
+  );
+}
@@ -7,6 +7,8 @@ import type { Project, ProjectStatus, GitHubBranch, FlushResult } from '../lib/a
 import { useAuth } from '../stores/auth';
 import { ProjectSettings } from '../components/ProjectSettings';
 import { ProjectMemberManager } from '../components/ProjectMemberManager';
+import { MemoryTransfer } from '../components/MemoryTransfer';
+import { TagManager } from '../components/TagManager';
 import styles from './ProjectDetail.module.css';
 
 function formatBytes(bytes: number): string {
@@ -953,7 +955,7 @@ function AdvancedSettings({ projectId }: { projectId: string }) {
 export function ProjectDetail() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
-  const [tab, setTab] = useState<'status' | 'info' | 'weights' | 'members' | 'advanced'>('status');
+  const [tab, setTab] = useState<'status' | 'info' | 'weights' | 'members' | 'tags' | 'transfer' | 'advanced'>('status');
   const [indexing, setIndexing] = useState(false);
   const [syncingCommits, setSyncingCommits] = useState(false);
 
@@ -1047,6 +1049,49 @@ export function ProjectDetail() {
             )}
           </div>
         </div>
+        <button
+          className={styles.headerActionBtn}
+          onClick={() => navigate(`/projects/${project.id}/graph`)}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="18" cy="5" r="3" />
+            <circle cx="6" cy="12" r="3" />
+            <circle cx="18" cy="19" r="3" />
+            <line x1="8.59" y1="13.51" x2="15.42" y2="17.49" />
+            <line x1="15.41" y1="6.51" x2="8.59" y2="10.49" />
+          </svg>
+          Graph
+        </button>
+        <button
+          className={styles.headerActionBtn}
+          onClick={() => navigate(`/projects/${project.id}/duplicates`)}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="8" y="8" width="12" height="12" rx="2" />
+            <path d="M16 8V6a2 2 0 00-2-2H6a2 2 0 00-2 2v8a2 2 0 002 2h2" />
+          </svg>
+          Duplicates
+        </button>
+        <button
+          className={styles.headerActionBtn}
+          onClick={() => navigate(`/projects/${project.id}/decay`)}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10" />
+            <polyline points="12 6 12 12 16 14" />
+          </svg>
+          Decay
+        </button>
+        <button
+          className={styles.headerActionBtn}
+          onClick={() => navigate(`/projects/${project.id}/evaluation`)}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M9 11l3 3L22 4" />
+            <path d="M21 12v7a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2h11" />
+          </svg>
+          Evaluation
+        </button>
         <button
           className={styles.headerActionBtn}
           onClick={handleIndex}
@@ -1122,6 +1167,25 @@ export function ProjectDetail() {
           </svg>
           Weights & Bias
         </button>
+        <button
+          className={`${styles.tab} ${tab === 'tags' ? styles.active : ''}`}
+          onClick={() => setTab('tags')}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M20.59 13.41l-7.17 7.17a2 2 0 01-2.83 0L2 12V2h10l8.59 8.59a2 2 0 010 2.82z" />
+            <line x1="7" y1="7" x2="7.01" y2="7" />
+          </svg>
+          Tags
+        </button>
+        <button
+          className={`${styles.tab} ${tab === 'transfer' ? styles.active : ''}`}
+          onClick={() => setTab('transfer')}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M7 10l5-5 5 5M12 5v12M5 21h14" />
+          </svg>
+          Import / Export
+        </button>
         <button
           className={`${styles.tab} ${tab === 'advanced' ? styles.active : ''}`}
           onClick={() => setTab('advanced')}
@@ -1142,6 +1206,8 @@ export function ProjectDetail() {
           <ProjectMemberManager projectId={projectId!} />
         )}
         {tab === 'weights' && <ProjectSettings projectId={projectId!} />}
+        {tab === 'tags' && <TagManager projectId={projectId!} />}
+        {tab === 'transfer' && <MemoryTransfer project={project} />}
         {tab === 'advanced' && <AdvancedSettings projectId={projectId!} />}
       </div>
     </motion.div>
@@ -6,12 +6,15 @@ import { api, API_BASE } from '../lib/api';
 import { useProject } from '../stores/project';
 import type { Project, CreateProjectRequest, ConnectedAccount, GitHubRepo, GitHubBranch, AuthProvider } from '../lib/api';
 import { Modal, EmptyState } from '../components/ui';
+import { RepoImportWizard } from '../components/RepoImportWizard';
 import styles from './Projects.module.css';
 
 export function Projects() {
   const navigate = useNavigate();
   const { selectProject } = useProject();
   const [isCreateOpen, setIsCreateOpen] = useState(false);
+  // Bumped to open the bulk import wizard with fresh state; 0 means closed
+  const [importKey, setImportKey] = useState(0);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -403,12 +406,20 @@ export function Projects() {
           <h1 className={styles.pageTitle}>Projects</h1>
           <p className={styles.pageSubtitle}>Manage your memory projects</p>
         </div>
-        <button className={styles.createBtn} onClick={() => setIsCreateOpen(true)}>
-          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <path d="M12 5v14M5 12h14" />
-          </svg>
-          New Project
-        </button>
+        <div className={styles.headerActions}>
+          <button className={styles.importBtn} onClick={() => setImportKey((k) => k + 1)}>
+            <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+              <path d="M12 0C5.37 0 0 5.37 0 12c0 5.31 3.435 9.795 8.205 11.385.6.105.825-.255.825-.57 0-.285-.015-1.23-.015-2.235-3.015.555-3.795-.735-4.035-1.41-.135-.345-.72-1.41-1.23-1.695-.42-.225-1.02-.78-.015-.795.945-.015 1.62.87 1.845 1.23 1.08 1.815 2.805 1.305 3.495.99.105-.78.42-1.305.765-1.605-2.67-.3-5.46-1.335-5.46-5.925 0-1.305.465-2.385 1.23-3.225-.12-.3-.54-1.53.12-3.18 0 0 1.005-.315 3.3 1.23.96-.27 1.98-.405 3-.405s2.04.135 3 .405c2.295-1.56 3.3-1.23 3.3-1.23.66 1.65.24 2.88.12 3.18.765.84 1.23 1.905 1.23 3.225 0 4.605-2.805 5.625-5.475 5.925.435.375.81 1.095.81 2.22 0 1.605-.015 2.895-.015 3.3 0 .315.225.69.825.57A12.02 12.02 0 0024 12c0-6.63-5.37-12-12-12z"/>
+            </svg>
+            Import Repositories
+          </button>
+          <button className={styles.createBtn} onClick={() => setIsCreateOpen(true)}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M12 5v14M5 12h14" />
+            </svg>
+            New Project
+          </button>
+        </div>
       </div>
 
       {/* Content */}
@@ -522,6 +533,19 @@ export function Projects() {
         </div>
       )}
 
+      {importKey > 0 && (
+        <RepoImportWizard
+          key={importKey}
+          isOpen
+          onClose={() => setImportKey(0)}
+          groups={groupNames}
+          onImported={() => {
+            setAllProjects([]);
+            mutate('projects');
+          }}
+        />
+      )}
+
       {/* Create Modal */}
       <Modal
         isOpen={isCreateOpen}
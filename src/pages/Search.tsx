@@ -1,11 +1,27 @@
-import { useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { api } from '../lib/api';
 import { useProject } from '../stores/project';
-import type { SearchResult, MemorySource } from '../lib/api';
-import { EmptyState, SourceBadge } from '../components/ui';
+import { useAuth } from '../stores/auth';
+import { TOP_RESULT_COUNT, diffTopResults, searchHistoryKey, useSearchHistory } from '../stores/searchHistory';
+import type { SavedSearch, SearchRecord, SearchRequest, TopResultsDiff } from '../stores/searchHistory';
+import type { AlgorithmConfig, SearchResult, MemorySource, Project } from '../lib/api';
+import { federatedSearch, listScopeProjects, mergeResults } from '../lib/federatedSearch';
+import type { ProjectSearchFailure, SearchScope } from '../lib/federatedSearch';
+import { memoryViewPath } from '../lib/memoryView';
+import { FILTER_HINTS, hasPostFilters, matchesFilters, parseSearchQuery, removeFilter, serverSource } from '../lib/searchQuery';
+import type { QueryFilter } from '../lib/searchQuery';
+import { bestSnippet, highlightTerms, queryTerms } from '../lib/snippet';
+import { EmptyState, Modal, SourceBadge } from '../components/ui';
 import { MemoryDetailModal } from '../components/MemoryDetailModal';
+import { SearchQueryInput } from '../components/SearchQueryInput';
+import { SearchHistory } from '../components/SearchHistory';
+import { RankingComparison } from '../components/RankingComparison';
+import { ScoreExplanation } from '../components/ScoreExplanation';
+import { ContextPackTray } from '../components/ContextPackTray';
+import { useToast } from '../components/ToastContext';
+import { useAddToPack } from '../hooks/useAddToPack';
 import useSWR from 'swr';
 import styles from './Search.module.css';
 
@@ -16,60 +32,330 @@ const SOURCE_LABELS: Record<MemorySource, string> = {
   generated: 'Generated',
 };
 
+const SCOPE_LABELS: Record<SearchScope, string> = {
+  project: 'Current Project',
+  all: 'All Projects',
+  group: 'Project Group',
+};
+
+const RESULT_LIMIT = 50;
+const SNIPPET_LENGTH = 300;
+// Hits fetched per project when filters are applied client-side, so enough survive them
+const FILTERED_FETCH_LIMIT = 200;
+
+// Hits from a multi-project search carry the project they came from
+type ScopedResult = SearchResult & { project?: Project };
+
+const EMPTY_HISTORY: SearchRecord[] = [];
+const EMPTY_SAVED: SavedSearch[] = [];
+
+// Identifies a hit across runs; memory ids are only unique within a project
+function resultId(result: ScopedResult) {
+  return result.project ? `${result.project.id}:${result.memory.id}` : result.memory.id;
+}
+
 export function Search() {
   const navigate = useNavigate();
   const { selectedProjectId } = useProject();
   const selectedProject = selectedProjectId;
   const [selectedSource, setSelectedSource] = useState<MemorySource | null>(null);
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [scope, setScope] = useState<SearchScope>('project');
+  const [group, setGroup] = useState('');
+  const [results, setResults] = useState<ScopedResult[] | null>(null);
   const [searching, setSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Multi-project search: projects answered so far, and those that failed
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<ProjectSearchFailure[]>([]);
+  // Responses from a superseded search are dropped
+  const searchRun = useRef(0);
+  // The last search with its parsed filters, reused when retrying failed projects
+  const lastSearch = useRef<{ request: SearchRequest; text: string; filters: QueryFilter[] } | null>(null);
+  // History
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const pack = useAddToPack();
+  const [showHistory, setShowHistory] = useState(false);
+  const [lastRecord, setLastRecord] = useState<SearchRecord | null>(null);
+  const [comparison, setComparison] = useState<(TopResultsDiff & { name: string; previousRunAt: string }) | null>(null);
+  const [saving, setSaving] = useState<SearchRecord | null>(null);
+  const [saveName, setSaveName] = useState('');
   // Advanced search options
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [useRecencyBias, setUseRecencyBias] = useState(false);
   const [strengthWeight, setStrengthWeight] = useState(0.3);
   const [decayHalfLife, setDecayHalfLife] = useState(30);
+  const [includeNeighbours, setIncludeNeighbours] = useState(false);
+  // Score explanations: the overrides the shown results were ranked with, and the expanded hits
+  const [searchedOverrides, setSearchedOverrides] = useState<AlgorithmConfig | null>(null);
+  const [explained, setExplained] = useState<Set<string>>(new Set());
+  // Results showing their full content instead of the best snippet
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  // Compare mode: the same query ranked with the project defaults, next to the overrides
+  const [compareMode, setCompareMode] = useState(false);
+  const [baseline, setBaseline] = useState<{ projectId: string; results: ScopedResult[]; overrides: AlgorithmConfig } | null>(
+    null
+  );
   // Memory detail modal
-  const [selectedResult, setSelectedResult] = useState<SearchResult | null>(null);
+  const [selectedResult, setSelectedResult] = useState<ScopedResult | null>(null);
 
   // Projects are fetched by ProjectSelector, but we warm the cache here
   useSWR('projects', () => api.listProjects());
+  const { data: groupsData } = useSWR(scope === 'group' ? 'project-groups' : null, () => api.getProjectGroups());
+  const groups = groupsData?.groups || [];
+  // Shares its cache with the algorithm settings panel
+  const { data: baselineConfig } = useSWR<AlgorithmConfig>(
+    baseline ? `algorithm-config-${baseline.projectId}` : null,
+    () => api.getAlgorithmConfig(baseline!.projectId)
+  );
 
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!selectedProject || !query.trim()) return;
+  const parsed = useMemo(() => parseSearchQuery(query), [query]);
+
+  const canSearch = parsed.text.trim() !== '' && (scope === 'all' || (scope === 'group' ? group !== '' : !!selectedProject));
+
+  const currentRequest = (): SearchRequest => ({
+    query: query.trim(),
+    scope,
+    projectId: scope === 'project' ? selectedProject : null,
+    group: scope === 'group' ? group : undefined,
+    source: selectedSource,
+    ...(useRecencyBias ? { strength_weight: strengthWeight, decay_half_life_days: decayHalfLife } : {}),
+    ...(includeNeighbours ? { include_neighbours: true } : {}),
+  });
+
+  // History of the project or scope currently selected
+  const historyKey =
+    user && (scope !== 'project' || selectedProject) && (scope !== 'group' || group)
+      ? searchHistoryKey(user.id, { scope, projectId: selectedProject, group })
+      : null;
+  const recentSearches = useSearchHistory((s) => (historyKey ? s.history[historyKey] ?? EMPTY_HISTORY : EMPTY_HISTORY));
+  const savedSearches = useSearchHistory((s) => (historyKey ? s.saved[historyKey] ?? EMPTY_SAVED : EMPTY_SAVED));
+  const recordSearch = useSearchHistory((s) => s.record);
+  const clearHistory = useSearchHistory((s) => s.clearHistory);
+  const saveSearch = useSearchHistory((s) => s.saveSearch);
+  const updateSaved = useSearchHistory((s) => s.updateSaved);
+  const removeSaved = useSearchHistory((s) => s.removeSaved);
+
+  const searchOptions = (request: SearchRequest, filters: QueryFilter[]) => {
+    const options: {
+      source?: MemorySource;
+      limit: number;
+      include_context?: boolean;
+      strength_weight?: number;
+      decay_half_life_days?: number;
+    } = {
+      // An inline `source:` takes precedence over the chips
+      source: serverSource(filters) ?? (request.source || undefined),
+      limit: hasPostFilters(filters) ? FILTERED_FETCH_LIMIT : RESULT_LIMIT,
+      include_context: request.include_neighbours,
+      // Decay overrides are only set when advanced mode was active
+      strength_weight: request.strength_weight,
+      decay_half_life_days: request.decay_half_life_days,
+    };
+    return options;
+  };
+
+  // Fan the query out to `projects`, merging into `base` as each one answers.
+  // Returns the merged results, or null once superseded by another search.
+  const searchProjects = async (projects: Project[], base: ScopedResult[]) => {
+    const run = searchRun.current;
+    const baseResults = base.filter((r): r is ScopedResult & { project: Project } => !!r.project);
+    setProgress({ done: 0, total: projects.length });
+    const { request, text, filters } = lastSearch.current!;
+    const final = await federatedSearch(
+      projects,
+      text,
+      searchOptions(request, filters),
+      (update) => {
+        if (searchRun.current !== run) return;
+        setResults(mergeResults(baseResults, update.results, RESULT_LIMIT));
+        setProgress({ done: update.done, total: update.total });
+      },
+      { accept: (result) => matchesFilters(result.memory, filters) }
+    );
+    if (searchRun.current !== run) return null;
+    setFailures(final.failures);
+    const merged = mergeResults(baseResults, final.results, RESULT_LIMIT);
+    setResults(merged);
+    return merged;
+  };
 
+  // Remember the run, and compare a saved search with its previous run
+  const recordRun = (request: SearchRequest, found: ScopedResult[], saved?: SavedSearch) => {
+    if (!user) return;
+    const key = searchHistoryKey(user.id, request);
+    const entry = recordSearch(key, request, {
+      result_count: found.length,
+      top_ids: found.slice(0, TOP_RESULT_COUNT).map(resultId),
+    });
+    setLastRecord(entry);
+    if (saved) {
+      setComparison({ name: saved.name, previousRunAt: saved.ran_at, ...diffTopResults(saved.top_ids, entry.top_ids) });
+      updateSaved(key, saved.id, entry);
+    }
+  };
+
+  const executeSearch = async (request: SearchRequest, saved?: SavedSearch, compare = false) => {
+    const { text, filters } = parseSearchQuery(request.query);
+    if (!text.trim()) return;
+
+    const run = ++searchRun.current;
+    lastSearch.current = { request, text: text.trim(), filters };
     setSearching(true);
     setError(null);
+    setFailures([]);
+    setProgress(null);
+    setComparison(null);
+    setBaseline(null);
+    setExplained(new Set());
+    setExpanded(new Set());
+    setSearchedOverrides(
+      request.strength_weight !== undefined
+        ? { strength_weight: request.strength_weight, decay_half_life_days: request.decay_half_life_days! }
+        : null
+    );
 
     try {
-      const options: {
-        source?: MemorySource;
-        limit: number;
-        strength_weight?: number;
-        decay_half_life_days?: number;
-      } = {
-        source: selectedSource || undefined,
-        limit: 50,
-      };
-
-      // Add decay overrides if advanced mode is active
-      if (useRecencyBias) {
-        options.strength_weight = strengthWeight;
-        options.decay_half_life_days = decayHalfLife;
+      let found: ScopedResult[] | null;
+      if (request.scope === 'project') {
+        const accepted = (data: { results: SearchResult[] }) =>
+          data.results.filter((result) => matchesFilters(result.memory, filters)).slice(0, RESULT_LIMIT);
+        const withDefaults = { ...request, strength_weight: undefined, decay_half_life_days: undefined };
+        const [data, defaultsData] = await Promise.all([
+          api.searchMemories(request.projectId!, text.trim(), searchOptions(request, filters)),
+          compare && request.strength_weight !== undefined
+            ? api.searchMemories(request.projectId!, text.trim(), searchOptions(withDefaults, filters))
+            : null,
+        ]);
+        if (searchRun.current !== run) return;
+        found = accepted(data);
+        setResults(found);
+        if (defaultsData) {
+          setBaseline({
+            projectId: request.projectId!,
+            results: accepted(defaultsData),
+            overrides: { strength_weight: request.strength_weight!, decay_half_life_days: request.decay_half_life_days! },
+          });
+        }
+      } else {
+        const projects = await listScopeProjects(request.scope === 'group' ? request.group : undefined);
+        if (searchRun.current !== run) return;
+        setResults([]);
+        found = await searchProjects(projects, []);
       }
-
-      const data = await api.searchMemories(selectedProject, query.trim(), options);
-      setResults(data.results);
+      if (found) recordRun(request, found, saved);
     } catch (err) {
+      if (searchRun.current !== run) return;
       setError(err instanceof Error ? err.message : 'Search failed');
       setResults(null);
     } finally {
-      setSearching(false);
+      if (searchRun.current === run) {
+        setSearching(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSearch) return;
+    executeSearch(currentRequest(), undefined, compareMode && useRecencyBias && scope === 'project');
+  };
+
+  // Restore a remembered search into the form and run it again
+  const handleRerun = (record: SearchRecord, saved?: SavedSearch) => {
+    setQuery(record.query);
+    setScope(record.scope);
+    setGroup(record.group ?? '');
+    setSelectedSource(record.source);
+    setUseRecencyBias(record.strength_weight !== undefined);
+    if (record.strength_weight !== undefined) setStrengthWeight(record.strength_weight);
+    if (record.decay_half_life_days !== undefined) setDecayHalfLife(record.decay_half_life_days);
+    setIncludeNeighbours(!!record.include_neighbours);
+    executeSearch(
+      {
+        query: record.query,
+        scope: record.scope,
+        projectId: record.projectId,
+        group: record.group,
+        source: record.source,
+        strength_weight: record.strength_weight,
+        decay_half_life_days: record.decay_half_life_days,
+        include_neighbours: record.include_neighbours,
+      },
+      saved
+    );
+  };
+
+  const openSaveSearch = (record: SearchRecord) => {
+    setSaving(record);
+    setSaveName(parseSearchQuery(record.query).text || record.query);
+  };
+
+  const handleSaveSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const name = saveName.trim();
+    if (!user || !saving || !name) return;
+    saveSearch(searchHistoryKey(user.id, saving), name, saving);
+    setSaving(null);
+    showToast(`Saved search "${name}"`, 'success');
+  };
+
+  const handleRemoveSaved = (search: SavedSearch) => {
+    if (!user || !confirm(`Remove the saved search "${search.name}"?`)) return;
+    removeSaved(historyKey!, search.id);
+  };
+
+  const handleRetryFailed = async () => {
+    const run = ++searchRun.current;
+    const retry = failures.map((f) => f.project);
+    setSearching(true);
+    setFailures([]);
+    try {
+      await searchProjects(retry, results || []);
+    } finally {
+      if (searchRun.current === run) {
+        setSearching(false);
+        setProgress(null);
+      }
     }
   };
 
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExpanded(next);
+  };
+
+  const toggleExplained = (id: string) => {
+    const next = new Set(explained);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExplained(next);
+  };
+
+  const renderPackButton = (result: ScopedResult) => {
+    const projectId = result.project?.id ?? selectedProject;
+    if (!projectId) return null;
+    const inPack = pack.inPack(projectId, result.memory.id);
+    return (
+      <button
+        type="button"
+        className={`${styles.packBtn} ${inPack ? styles.active : ''}`}
+        disabled={inPack || pack.isPending(projectId, result.memory.id)}
+        onClick={(e) => {
+          e.stopPropagation();
+          pack.add(projectId, result.memory, { content: result.content, projectName: result.project?.name });
+        }}
+        title="Collect into the context pack"
+      >
+        {inPack ? 'In pack' : '+ Pack'}
+      </button>
+    );
+  };
+
   const formatRelativeDate = (dateStr: string) => {
     const date = new Date(dateStr);
     const now = new Date();
@@ -87,16 +373,55 @@ export function Search() {
     return `${Math.floor(diffDays / 365)}y ago`;
   };
 
-  const highlightQuery = (text: string | undefined, maxLength = 300) => {
-    if (!text) return <span className={styles.contentUnavailable}>(Content unavailable)</span>;
-    const truncated = text.length > maxLength ? text.slice(0, maxLength) + '...' : text;
-    if (!query.trim()) return truncated;
+  const highlight = (text: string) =>
+    highlightTerms(text, parsed.text).map((part, i) => (part.match ? <mark key={i}>{part.text}</mark> : part.text));
+
+  // The best-matching window of the content, or all of it when expanded
+  const renderContent = (result: ScopedResult) => {
+    const content = result.content;
+    if (!content) return <span className={styles.contentUnavailable}>(Content unavailable)</span>;
 
-    const regex = new RegExp(`(${query.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    const parts = truncated.split(regex);
+    const id = resultId(result);
+    const toggle = (label: string) => (
+      <button
+        type="button"
+        className={styles.expandBtn}
+        onClick={(e) => {
+          e.stopPropagation();
+          toggleExpanded(id);
+        }}
+      >
+        {label}
+      </button>
+    );
+
+    if (expanded.has(id)) {
+      return (
+        <>
+          <div className={styles.fullContent}>{highlight(content)}</div>
+          {toggle('Show less')}
+        </>
+      );
+    }
 
-    return parts.map((part, i) =>
-      regex.test(part) ? <mark key={i}>{part}</mark> : part
+    const snippet = bestSnippet(content, parsed.text, SNIPPET_LENGTH, result.memory.keywords);
+    const lineCount = content.split('\n').length;
+    return (
+      <>
+        {snippet.before && '…'}
+        {highlight(snippet.text)}
+        {snippet.after && '…'}
+        {(snippet.before || snippet.after) && (
+          <div className={styles.snippetFooter}>
+            {queryTerms(parsed.text).length > 0 && snippet.matched.length === 0 && (
+              <span className={styles.semanticHint} title="Ranked by meaning; none of the query words appear here">
+                Semantic match
+              </span>
+            )}
+            {toggle(lineCount > 1 ? `Show all ${lineCount} lines` : 'Show all')}
+          </div>
+        )}
+      </>
     );
   };
 
@@ -128,24 +453,86 @@ export function Search() {
               <circle cx="11" cy="11" r="8" />
               <path d="M21 21l-4.35-4.35" />
             </svg>
-            <input
-              type="text"
+            <SearchQueryInput
               className={styles.searchInput}
-              placeholder="Search for memories..."
+              placeholder="Search for memories... (tag:auth path:src/** to filter)"
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
+              onChange={setQuery}
+              projectId={scope === 'project' ? selectedProject : null}
             />
           </div>
           <button
             type="submit"
             className={styles.searchBtn}
-            disabled={!selectedProject || !query.trim() || searching}
+            disabled={!canSearch || searching}
           >
             {searching ? 'Searching...' : 'Search'}
           </button>
         </div>
 
+        {(parsed.filters.length > 0 || parsed.errors.length > 0) && (
+          <div className={styles.queryFilters}>
+            {parsed.filters.map((filter) => (
+              <span key={`${filter.start}-${filter.key}`} className={styles.filterChip}>
+                <span className={styles.filterChipKey}>{filter.key}</span>
+                {filter.value}
+                <button
+                  type="button"
+                  className={styles.filterChipRemove}
+                  onClick={() => setQuery(removeFilter(query, filter))}
+                  aria-label={`Remove ${filter.key} filter`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            {parsed.errors.map((message) => (
+              <span key={message} className={styles.filterError}>
+                {message}
+              </span>
+            ))}
+            {hasPostFilters(parsed.filters) && (
+              <span className={styles.filterNote}>Filters other than source are applied to the top matches</span>
+            )}
+          </div>
+        )}
+        {query.trim() === '' && (
+          <div className={styles.queryHint}>
+            Filters: {Object.values(FILTER_HINTS).map((hint) => <code key={hint}>{hint}</code>)}
+          </div>
+        )}
+
         <div className={styles.filtersRow}>
+          <div className={styles.filterGroup}>
+            <span className={styles.filterLabel}>Scope</span>
+            <div className={styles.typeFilters}>
+              {(Object.keys(SCOPE_LABELS) as SearchScope[]).map((s) => (
+                <button
+                  key={s}
+                  type="button"
+                  className={`${styles.typeChip} ${scope === s ? styles.active : ''}`}
+                  onClick={() => setScope(s)}
+                >
+                  {SCOPE_LABELS[s]}
+                </button>
+              ))}
+              {scope === 'group' && (
+                <select
+                  className={styles.groupSelect}
+                  value={group}
+                  onChange={(e) => setGroup(e.target.value)}
+                  aria-label="Project group"
+                >
+                  <option value="">Choose a group...</option>
+                  {groups.map((g) => (
+                    <option key={g} value={g}>
+                      {g}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
           <div className={styles.filterGroup}>
             <span className={styles.filterLabel}>Source Filter</span>
             <div className={styles.typeFilters}>
@@ -178,6 +565,18 @@ export function Search() {
             </svg>
             Advanced
           </button>
+          <button
+            type="button"
+            className={`${styles.historyToggle} ${showHistory ? styles.active : ''}`}
+            onClick={() => setShowHistory(!showHistory)}
+            disabled={!historyKey}
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="9" />
+              <path d="M12 7v5l3 3" />
+            </svg>
+            History{savedSearches.length + recentSearches.length > 0 && ` (${savedSearches.length + recentSearches.length})`}
+          </button>
         </div>
 
         {showAdvanced && (
@@ -232,14 +631,79 @@ export function Search() {
                 </div>
               </div>
             )}
+
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={includeNeighbours}
+                onChange={(e) => setIncludeNeighbours(e.target.checked)}
+              />
+              <span>Include linked neighbours of the top hits</span>
+            </label>
+
+            {useRecencyBias && scope === 'project' && (
+              <label className={styles.checkboxLabel}>
+                <input type="checkbox" checked={compareMode} onChange={(e) => setCompareMode(e.target.checked)} />
+                <span>Compare side by side with the project defaults</span>
+              </label>
+            )}
           </div>
         )}
       </form>
 
+      {showHistory && historyKey && (
+        <div className={styles.history}>
+          <SearchHistory
+            saved={savedSearches}
+            recent={recentSearches}
+            onRun={handleRerun}
+            onSave={openSaveSearch}
+            onRemoveSaved={handleRemoveSaved}
+            onClear={() => clearHistory(historyKey)}
+            disabled={searching}
+          />
+        </div>
+      )}
+
       {error && <div className={styles.error}>{error}</div>}
 
+      {comparison && !searching && (
+        <div className={`${styles.comparison} ${comparison.added.length || comparison.removed.length || comparison.reordered ? styles.changed : ''}`}>
+          <strong>{comparison.name}</strong>
+          {comparison.added.length || comparison.removed.length || comparison.reordered ? (
+            <span>
+              Results changed since the last run ({new Date(comparison.previousRunAt).toLocaleString()}):{' '}
+              {comparison.added.length} new, {comparison.removed.length} dropped from the top {TOP_RESULT_COUNT}
+              {comparison.reordered && ', order changed'}
+            </span>
+          ) : (
+            <span>Same top results as the last run ({new Date(comparison.previousRunAt).toLocaleString()})</span>
+          )}
+        </div>
+      )}
+
+      {failures.length > 0 && (
+        <div className={styles.failures}>
+          <div className={styles.failuresHeader}>
+            <span>
+              {failures.length} {failures.length === 1 ? 'project' : 'projects'} could not be searched; results may be incomplete.
+            </span>
+            <button type="button" className={styles.retryBtn} onClick={handleRetryFailed} disabled={searching}>
+              Retry
+            </button>
+          </div>
+          <ul className={styles.failureList}>
+            {failures.map((f) => (
+              <li key={f.project.id}>
+                <strong>{f.project.name}</strong>: {f.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Results */}
-      {!selectedProject ? (
+      {scope === 'project' && !selectedProject ? (
         <EmptyState
           icon={
             <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
@@ -248,7 +712,7 @@ export function Search() {
             </svg>
           }
           title="Select a project"
-          description="Choose a project to search its memories"
+          description="Choose a project to search its memories, or search across all projects"
         />
       ) : results === null ? (
         <EmptyState
@@ -261,7 +725,7 @@ export function Search() {
           title="Search your memories"
           description="Enter a query to find relevant memories using semantic search"
         />
-      ) : results.length === 0 ? (
+      ) : results.length === 0 && !progress ? (
         <EmptyState
           icon={
             <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
@@ -278,114 +742,206 @@ export function Search() {
             <span className={styles.resultsCount}>
               Found <strong>{results.length}</strong> result{results.length !== 1 ? 's' : ''}
             </span>
+            {progress && (
+              <span className={styles.resultsCount}>
+                Searched {progress.done} of {progress.total} projects...
+              </span>
+            )}
+            {lastRecord && !searching && user && (
+              <button type="button" className={styles.saveSearchBtn} onClick={() => openSaveSearch(lastRecord)}>
+                Save search
+              </button>
+            )}
           </div>
 
-          <div className={styles.resultsList}>
-            {results.map((result, index) => (
-              <motion.div
-                key={result.memory.id}
-                className={styles.resultCard}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.2, delay: index * 0.05 }}
-                onClick={() => setSelectedResult(result)}
-                style={{ cursor: 'pointer' }}
-              >
-                <div className={styles.resultHeader}>
-                  <span className={styles.resultTitle}>
-                    {result.memory.title || result.memory.file_path || result.memory.id.slice(0, 12)}
-                  </span>
-                  <div className={styles.resultMeta}>
-                    <div className={styles.resultScore}>
-                      {result.combined_score !== undefined ? (
-                        <div className={styles.scoreBreakdown} title={`Semantic: ${((result.score || result.similarity) * 100).toFixed(0)}% | Recency: ${((result.strength || 0) * 100).toFixed(0)}%`}>
-                          <div className={styles.scoreBar}>
-                            <div
-                              className={styles.scoreFill}
-                              style={{ width: `${result.combined_score * 100}%` }}
-                            />
-                          </div>
-                          <span>{(result.combined_score * 100).toFixed(0)}%</span>
-                        </div>
-                      ) : (
-                        <>
-                          <div className={styles.scoreBar}>
-                            <div
-                              className={styles.scoreFill}
-                              style={{ width: `${result.similarity * 100}%` }}
-                            />
+          {baseline ? (
+            <RankingComparison
+              projectId={baseline.projectId}
+              defaults={baseline.results}
+              defaultsConfig={baselineConfig}
+              overrides={results}
+              overridesConfig={baseline.overrides}
+              onSelect={(result) => setSelectedResult(result)}
+            />
+          ) : (
+            <div className={styles.resultsList}>
+              {results.map((result, index) => (
+                <motion.div
+                  key={resultId(result)}
+                  className={styles.resultCard}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.2, delay: progress ? 0 : index * 0.05 }}
+                  onClick={() => setSelectedResult(result)}
+                  style={{ cursor: 'pointer' }}
+                >
+                  <div className={styles.resultHeader}>
+                    <span className={styles.resultTitle}>
+                      {comparison?.added.includes(resultId(result)) && <span className={styles.newBadge}>New</span>}
+                      {result.memory.title || result.memory.file_path || result.memory.id.slice(0, 12)}
+                    </span>
+                    <div className={styles.resultMeta}>
+                      <div className={styles.resultScore}>
+                        {result.combined_score !== undefined ? (
+                          <div className={styles.scoreBreakdown} title={`Semantic: ${((result.score || result.similarity) * 100).toFixed(0)}% | Recency: ${((result.strength || 0) * 100).toFixed(0)}%`}>
+                            <div className={styles.scoreBar}>
+                              <div
+                                className={styles.scoreFill}
+                                style={{ width: `${result.combined_score * 100}%` }}
+                              />
+                            </div>
+                            <span>{(result.combined_score * 100).toFixed(0)}%</span>
                           </div>
-                          <span>{(result.similarity * 100).toFixed(0)}%</span>
-                        </>
+                        ) : (
+                          <>
+                            <div className={styles.scoreBar}>
+                              <div
+                                className={styles.scoreFill}
+                                style={{ width: `${result.similarity * 100}%` }}
+                              />
+                            </div>
+                            <span>{(result.similarity * 100).toFixed(0)}%</span>
+                          </>
+                        )}
+                      </div>
+                      {result.is_neighbour && (
+                        <span className={styles.neighbourBadge} title="Linked to a direct hit rather than matched by similarity">
+                          via link
+                        </span>
                       )}
+                      {result.project && (
+                        <span className={styles.projectBadge} title={result.project.slug}>
+                          {result.project.name}
+                        </span>
+                      )}
+                      <SourceBadge source={result.memory.source} />
                     </div>
-                    <SourceBadge source={result.memory.source} />
                   </div>
-                </div>
 
-                <div className={styles.resultContent}>
-                  {highlightQuery(result.content)}
-                </div>
-
-                {result.memory.file_path && (
-                  <div className={styles.resultFilePath}>
-                    <code>{result.memory.file_path}</code>
-                    {result.memory.line_start != null && (
-                      <span className={styles.lineRange}>
-                        {result.memory.line_end != null && result.memory.line_end !== result.memory.line_start
-                          ? `lines ${result.memory.line_start}–${result.memory.line_end}`
-                          : `line ${result.memory.line_start}`}
-                      </span>
-                    )}
+                  <div className={styles.resultContent}>
+                    {renderContent(result)}
                   </div>
-                )}
-
-                <div className={styles.resultFooter}>
-                  <span className={styles.resultDate}>{formatRelativeDate(result.memory.created_at)}</span>
-                  {result.memory.tags && result.memory.tags.length > 0 && (
-                    <div className={styles.resultTags}>
-                      {result.memory.tags.slice(0, 3).map((tag, i) => (
-                        <button
-                          key={i}
-                          className={styles.tag}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            navigate(`/memories?tag=${encodeURIComponent(tag)}`);
-                          }}
-                        >
-                          {tag}
-                        </button>
-                      ))}
-                      {result.memory.tags.length > 3 && (
-                        <span className={styles.tagMore}>+{result.memory.tags.length - 3}</span>
-                      )}
-                    </div>
-                  )}
-                  {result.memory.keywords && result.memory.keywords.length > 0 && (
-                    <div className={styles.resultKeywords}>
-                      {result.memory.keywords.slice(0, 4).map((keyword, i) => (
-                        <span key={i} className={styles.keyword}>
-                          {keyword}
+
+                  {result.memory.file_path && (
+                    <div className={styles.resultFilePath}>
+                      <code>{result.memory.file_path}</code>
+                      {result.memory.line_start != null && (
+                        <span className={styles.lineRange}>
+                          {result.memory.line_end != null && result.memory.line_end !== result.memory.line_start
+                            ? `lines ${result.memory.line_start}–${result.memory.line_end}`
+                            : `line ${result.memory.line_start}`}
                         </span>
-                      ))}
-                      {result.memory.keywords.length > 4 && (
-                        <span className={styles.keyword}>+{result.memory.keywords.length - 4}</span>
                       )}
                     </div>
                   )}
-                </div>
-              </motion.div>
-            ))}
-          </div>
+
+                  <div className={styles.resultFooter}>
+                    <span className={styles.resultDate}>{formatRelativeDate(result.memory.created_at)}</span>
+                    {result.memory.tags && result.memory.tags.length > 0 && (
+                      <div className={styles.resultTags}>
+                        {result.memory.tags.slice(0, 3).map((tag, i) => (
+                          <button
+                            key={i}
+                            className={styles.tag}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              navigate(
+                                result.project
+                                  ? memoryViewPath(result.project.id, `tag=${encodeURIComponent(tag)}`)
+                                  : `/memories?tag=${encodeURIComponent(tag)}`
+                              );
+                            }}
+                          >
+                            {tag}
+                          </button>
+                        ))}
+                        {result.memory.tags.length > 3 && (
+                          <span className={styles.tagMore}>+{result.memory.tags.length - 3}</span>
+                        )}
+                      </div>
+                    )}
+                    {result.memory.keywords && result.memory.keywords.length > 0 && (
+                      <div className={styles.resultKeywords}>
+                        {result.memory.keywords.slice(0, 4).map((keyword, i) => (
+                          <span key={i} className={styles.keyword}>
+                            {keyword}
+                          </span>
+                        ))}
+                        {result.memory.keywords.length > 4 && (
+                          <span className={styles.keyword}>+{result.memory.keywords.length - 4}</span>
+                        )}
+                      </div>
+                    )}
+                    {renderPackButton(result)}
+                    <button
+                      type="button"
+                      className={`${styles.explainBtn} ${explained.has(resultId(result)) ? styles.active : ''}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleExplained(resultId(result));
+                      }}
+                    >
+                      Why #{index + 1}?
+                    </button>
+                  </div>
+
+                  {explained.has(resultId(result)) && (result.project?.id ?? selectedProject) && (
+                    <ScoreExplanation
+                      projectId={(result.project?.id ?? selectedProject)!}
+                      result={result}
+                      rank={index + 1}
+                      overrides={searchedOverrides}
+                      anchors={results.filter((r) => !r.is_neighbour && r.project?.id === result.project?.id)}
+                    />
+                  )}
+                </motion.div>
+              ))}
+            </div>
+          )}
         </>
       )}
 
+      <Modal
+        isOpen={saving !== null}
+        onClose={() => setSaving(null)}
+        title="Save Search"
+        footer={
+          <div className={styles.formActions}>
+            <button type="button" className={styles.cancelBtn} onClick={() => setSaving(null)}>
+              Cancel
+            </button>
+            <button type="submit" form="save-search-form" className={styles.submitBtn} disabled={!saveName.trim()}>
+              Save Search
+            </button>
+          </div>
+        }
+      >
+        <form id="save-search-form" className={styles.saveForm} onSubmit={handleSaveSearch}>
+          <label className={styles.filterLabel} htmlFor="search-name">
+            Name
+          </label>
+          <input
+            type="text"
+            id="search-name"
+            className={styles.saveInput}
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            autoFocus
+            required
+          />
+          <span className={styles.saveHint}>
+            Re-running a saved search shows whether its top results changed since the last run. Saving under an
+            existing name replaces it.
+          </span>
+        </form>
+      </Modal>
+
       {/* Memory Detail Modal */}
       <MemoryDetailModal
         isOpen={selectedResult !== null}
         onClose={() => setSelectedResult(null)}
         memory={selectedResult?.memory || null}
-        projectId={selectedProject}
+        projectId={selectedResult?.project?.id ?? selectedProject}
         scoreInfo={
           selectedResult
             ? {
@@ -397,6 +953,8 @@ export function Search() {
             : undefined
         }
       />
+
+      <ContextPackTray />
     </motion.div>
   );
 }
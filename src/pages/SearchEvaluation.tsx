@@ -0,0 +1,504 @@
+import { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import useSWR from 'swr';
+import { api } from '../lib/api';
+import type { MemorySource } from '../lib/api';
+import type { BatchProgress } from '../lib/batch';
+import { newEvalId, parseQuerySet, runEvaluation, serializeQuerySet } from '../lib/evaluation';
+import type { EvalMetrics, EvalOptions, EvalQuery, EvalRun } from '../lib/evaluation';
+import { downloadBlob } from '../lib/files';
+import { memoryPath } from '../lib/memoryView';
+import { useEvaluation } from '../stores/evaluation';
+import { useToast } from '../components/ToastContext';
+import { EmptyState } from '../components/ui';
+import { EvalQueryEditor } from '../components/EvalQueryEditor';
+import styles from './SearchEvaluation.module.css';
+
+const K_OPTIONS = [5, 10, 20];
+const SOURCE_TYPES: MemorySource[] = ['file', 'manual', 'generated'];
+
+const METRICS: Array<{ key: keyof EvalMetrics; label: (k: number) => string; hint: string }> = [
+  { key: 'recall', label: (k) => `Recall@${k}`, hint: 'Share of the relevant memories found in the top k' },
+  { key: 'mrr', label: () => 'MRR', hint: 'Mean of 1 / rank of the first relevant hit' },
+  { key: 'ndcg', label: (k) => `nDCG@${k}`, hint: 'Graded ranking quality of the top k, 1.0 being ideal' },
+];
+
+function formatMetric(value: number) {
+  return value.toFixed(3);
+}
+
+function formatTime(dateStr: string) {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function describeOptions(options: EvalOptions) {
+  const parts = [`k=${options.k}`];
+  if (options.source) parts.push(options.source);
+  if (options.strength_weight !== undefined) {
+    parts.push(`recency ${Math.round(options.strength_weight * 100)}% / ${options.decay_half_life_days}d`);
+  }
+  return parts.join(' · ');
+}
+
+function Delta({ value, previous }: { value: number; previous?: number }) {
+  if (previous === undefined) return null;
+  const delta = value - previous;
+  if (Math.abs(delta) < 0.0005) return <span className={styles.deltaSame}>±0</span>;
+  return (
+    <span className={delta > 0 ? styles.deltaUp : styles.deltaDown}>
+      {delta > 0 ? '▲' : '▼'}
+      {Math.abs(delta).toFixed(3)}
+    </span>
+  );
+}
+
+export function SearchEvaluation() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+
+  const { data: project } = useSWR(
+    projectId ? `project-${projectId}` : null,
+    () => api.getProject(projectId!)
+  );
+
+  const allSets = useEvaluation((s) => s.sets);
+  const createSet = useEvaluation((s) => s.createSet);
+  const renameSet = useEvaluation((s) => s.renameSet);
+  const setQueries = useEvaluation((s) => s.setQueries);
+  const removeSet = useEvaluation((s) => s.removeSet);
+  const addRun = useEvaluation((s) => s.addRun);
+  const removeRun = useEvaluation((s) => s.removeRun);
+  const sets = useMemo(() => allSets.filter((s) => s.projectId === projectId), [allSets, projectId]);
+
+  const [activeSetId, setActiveSetId] = useState<string | null>(null);
+  const [k, setK] = useState(10);
+  const [source, setSource] = useState<MemorySource | null>(null);
+  const [override, setOverride] = useState(false);
+  const [strengthWeight, setStrengthWeight] = useState(0.3);
+  const [decayHalfLife, setDecayHalfLife] = useState(30);
+  const [label, setLabel] = useState('');
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [viewRunId, setViewRunId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<EvalQuery | 'new' | null>(null);
+  const [expandedQuery, setExpandedQuery] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const activeSet = sets.find((s) => s.id === activeSetId) ?? sets[0] ?? null;
+  const runs = activeSet?.runs ?? [];
+  const viewRun = runs.find((r) => r.id === viewRunId) ?? runs[0] ?? null;
+  const previousRun = viewRun ? runs[runs.indexOf(viewRun) + 1] : undefined;
+  const running = progress !== null;
+
+  const selectSet = (id: string | null) => {
+    setActiveSetId(id);
+    setViewRunId(null);
+    setExpandedQuery(null);
+  };
+
+  const handleNewSet = () => {
+    const created = createSet(projectId!, `Query set ${sets.length + 1}`);
+    selectSet(created.id);
+  };
+
+  const handleDeleteSet = () => {
+    if (!activeSet) return;
+    if (!confirm(`Delete "${activeSet.name}" with its ${activeSet.queries.length} queries and ${runs.length} runs?`)) return;
+    removeSet(activeSet.id);
+    selectSet(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const queries = parseQuerySet(await file.text());
+      if (activeSet && activeSet.queries.length === 0) {
+        setQueries(activeSet.id, queries);
+      } else {
+        const created = createSet(projectId!, file.name.replace(/\.json$/i, ''), queries);
+        selectSet(created.id);
+      }
+      showToast(`Imported ${queries.length} ${queries.length === 1 ? 'query' : 'queries'}`, 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Import failed', 'error');
+    }
+  };
+
+  const handleExport = () => {
+    if (!activeSet) return;
+    const blob = new Blob([serializeQuerySet(activeSet.queries)], { type: 'application/json' });
+    downloadBlob(blob, `${activeSet.name.replace(/[^\w.-]+/g, '-').toLowerCase() || 'queries'}.json`);
+  };
+
+  const handleSaveQuery = (query: EvalQuery) => {
+    if (!activeSet) return;
+    const exists = activeSet.queries.some((q) => q.id === query.id);
+    setQueries(
+      activeSet.id,
+      exists ? activeSet.queries.map((q) => (q.id === query.id ? query : q)) : [...activeSet.queries, query]
+    );
+  };
+
+  const handleRemoveQuery = (query: EvalQuery) => {
+    if (!activeSet || !confirm(`Remove the query "${query.query}"?`)) return;
+    setQueries(activeSet.id, activeSet.queries.filter((q) => q.id !== query.id));
+  };
+
+  const handleRun = async () => {
+    if (!activeSet || activeSet.queries.length === 0) return;
+    const setId = activeSet.id;
+    const options: EvalOptions = {
+      k,
+      source: source || undefined,
+      ...(override ? { strength_weight: strengthWeight, decay_half_life_days: decayHalfLife } : {}),
+    };
+
+    setProgress({ done: 0, total: activeSet.queries.length });
+    try {
+      const result = await runEvaluation(projectId!, activeSet.queries, options, setProgress);
+      const run: EvalRun = { ...result, id: newEvalId(), ran_at: new Date().toISOString(), label: label.trim() || undefined };
+      addRun(setId, run);
+      setViewRunId(run.id);
+      setLabel('');
+      const failed = run.queries.filter((q) => q.error).length;
+      if (failed > 0) showToast(`${failed} ${failed === 1 ? 'query' : 'queries'} failed to run`, 'error');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Evaluation failed', 'error');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleRemoveRun = (run: EvalRun) => {
+    if (!activeSet || !confirm(`Delete the run from ${formatTime(run.ran_at)}?`)) return;
+    removeRun(activeSet.id, run.id);
+    if (viewRunId === run.id) setViewRunId(null);
+  };
+
+  const queryResults = new Map(viewRun?.queries.map((q) => [q.queryId, q]));
+  const previousResults = new Map(previousRun?.queries.map((q) => [q.queryId, q]));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      {/* Header */}
+      <div className={styles.pageHeader}>
+        <button onClick={() => navigate(`/projects/${projectId}`)} className={styles.backBtn}>
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M19 12H5M12 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div>
+          <h1 className={styles.pageTitle}>Search Evaluation</h1>
+          <p className={styles.pageSubtitle}>
+            {project ? `${project.name} · ` : ''}Measure retrieval against queries with known answers
+          </p>
+        </div>
+      </div>
+
+      {/* Query sets */}
+      <div className={styles.setBar}>
+        {sets.length > 0 && (
+          <select
+            className={styles.select}
+            value={activeSet?.id ?? ''}
+            onChange={(e) => selectSet(e.target.value)}
+            aria-label="Query set"
+            disabled={running}
+          >
+            {sets.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name} ({s.queries.length})
+              </option>
+            ))}
+          </select>
+        )}
+        <button className={styles.secondaryBtn} onClick={handleNewSet} disabled={running}>
+          New set
+        </button>
+        <button className={styles.secondaryBtn} onClick={() => fileInput.current?.click()} disabled={running}>
+          Import JSON
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+        {activeSet && (
+          <>
+            <button className={styles.secondaryBtn} onClick={handleExport} disabled={activeSet.queries.length === 0}>
+              Export JSON
+            </button>
+            <button className={`${styles.secondaryBtn} ${styles.danger}`} onClick={handleDeleteSet} disabled={running}>
+              Delete set
+            </button>
+          </>
+        )}
+      </div>
+
+      {!activeSet ? (
+        <EmptyState
+          icon={
+            <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+              <path d="M9 11l3 3L22 4" />
+              <path d="M21 12v7a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2h11" />
+            </svg>
+          }
+          title="No query sets yet"
+          description='Create a set of queries with the memories that should come back for them, or import one as JSON: {"queries": [{"query": "...", "relevant": ["memory-id"]}]}'
+          action={{ label: 'New set', onClick: handleNewSet }}
+        />
+      ) : (
+        <div className={styles.layout}>
+          {/* Queries */}
+          <section className={styles.section}>
+            <div className={styles.sectionHeader}>
+              <input
+                className={styles.setName}
+                value={activeSet.name}
+                onChange={(e) => renameSet(activeSet.id, e.target.value)}
+                aria-label="Set name"
+              />
+              <button className={styles.secondaryBtn} onClick={() => setEditing('new')} disabled={running}>
+                Add query
+              </button>
+            </div>
+
+            {activeSet.queries.length === 0 ? (
+              <p className={styles.hint}>Add queries and mark which memories each should return.</p>
+            ) : (
+              <ul className={styles.queryList}>
+                {activeSet.queries.map((query) => {
+                  const result = queryResults.get(query.id);
+                  const before = previousResults.get(query.id);
+                  const expanded = expandedQuery === query.id;
+                  return (
+                    <li key={query.id} className={styles.queryItem}>
+                      <div className={styles.queryRow}>
+                        <button
+                          className={styles.queryText}
+                          onClick={() => setExpandedQuery(expanded ? null : query.id)}
+                          disabled={!result}
+                          title={result ? 'Show the ranking' : undefined}
+                        >
+                          {query.query}
+                        </button>
+                        <span className={styles.queryMeta}>{Object.keys(query.relevant).length} relevant</span>
+                        {result &&
+                          (result.error ? (
+                            <span className={styles.queryError} title={result.error}>
+                              failed
+                            </span>
+                          ) : (
+                            <span className={styles.queryScores}>
+                              {METRICS.map((m) => (
+                                <span key={m.key} title={m.label(viewRun!.options.k)}>
+                                  {formatMetric(result[m.key])}
+                                  <Delta value={result[m.key]} previous={before && !before.error ? before[m.key] : undefined} />
+                                </span>
+                              ))}
+                            </span>
+                          ))}
+                        <div className={styles.rowActions}>
+                          <button className={styles.actionBtn} onClick={() => setEditing(query)} disabled={running}>
+                            Edit
+                          </button>
+                          <button
+                            className={`${styles.actionBtn} ${styles.danger}`}
+                            onClick={() => handleRemoveQuery(query)}
+                            disabled={running}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+
+                      {expanded && result && (
+                        <div className={styles.breakdown}>
+                          <ol className={styles.ranking}>
+                            {result.retrieved.map((id) => (
+                              <li key={id} className={query.relevant[id] ? styles.relevantHit : undefined}>
+                                <Link to={memoryPath(projectId!, id)}>{result.titles[id] || id.slice(0, 12)}</Link>
+                                {query.relevant[id] ? ` · relevant (grade ${query.relevant[id]})` : ''}
+                              </li>
+                            ))}
+                          </ol>
+                          {result.missing.length > 0 && (
+                            <p className={styles.missing}>
+                              Not in the top {viewRun!.options.k}:{' '}
+                              {result.missing.map((id, i) => (
+                                <span key={id}>
+                                  {i > 0 && ', '}
+                                  <Link to={memoryPath(projectId!, id)}>{id.slice(0, 12)}</Link>
+                                </span>
+                              ))}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+
+          {/* Run */}
+          <aside className={styles.sidebar}>
+            <section className={styles.section}>
+              <span className={styles.controlLabel}>Run</span>
+              <div className={styles.control}>
+                <span className={styles.controlLabel}>Cutoff k</span>
+                <div className={styles.chips}>
+                  {K_OPTIONS.map((option) => (
+                    <button
+                      key={option}
+                      className={`${styles.chip} ${k === option ? styles.active : ''}`}
+                      onClick={() => setK(option)}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className={styles.control}>
+                <span className={styles.controlLabel}>Source</span>
+                <div className={styles.chips}>
+                  <button className={`${styles.chip} ${!source ? styles.active : ''}`} onClick={() => setSource(null)}>
+                    All
+                  </button>
+                  {SOURCE_TYPES.map((s) => (
+                    <button
+                      key={s}
+                      className={`${styles.chip} ${source === s ? styles.active : ''}`}
+                      onClick={() => setSource(s)}
+                    >
+                      {s}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <label className={styles.checkbox}>
+                <input type="checkbox" checked={override} onChange={(e) => setOverride(e.target.checked)} />
+                Override decay settings
+              </label>
+              {override && (
+                <div className={styles.overrides}>
+                  <label className={styles.overrideField}>
+                    Recency weight {(strengthWeight * 100).toFixed(0)}%
+                    <input
+                      type="range"
+                      min="0"
+                      max="100"
+                      value={strengthWeight * 100}
+                      onChange={(e) => setStrengthWeight(Number(e.target.value) / 100)}
+                      className={styles.slider}
+                    />
+                  </label>
+                  <label className={styles.overrideField}>
+                    Half-life {decayHalfLife} days
+                    <input
+                      type="range"
+                      min="1"
+                      max="365"
+                      value={decayHalfLife}
+                      onChange={(e) => setDecayHalfLife(Number(e.target.value))}
+                      className={styles.slider}
+                    />
+                  </label>
+                </div>
+              )}
+              <input
+                className={styles.input}
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Label, e.g. after reindex"
+              />
+              <button
+                className={styles.runBtn}
+                onClick={handleRun}
+                disabled={running || activeSet.queries.length === 0}
+              >
+                {running ? `Running ${progress.done} / ${progress.total}...` : `Run ${activeSet.queries.length} queries`}
+              </button>
+            </section>
+
+            {viewRun && (
+              <section className={styles.section}>
+                <span className={styles.controlLabel}>
+                  {viewRun.label || formatTime(viewRun.ran_at)} · {describeOptions(viewRun.options)}
+                </span>
+                <div className={styles.metrics}>
+                  {METRICS.map((m) => (
+                    <div key={m.key} className={styles.metric} title={m.hint}>
+                      <span className={styles.metricLabel}>{m.label(viewRun.options.k)}</span>
+                      <span className={styles.metricValue}>{formatMetric(viewRun.metrics[m.key])}</span>
+                      <Delta value={viewRun.metrics[m.key]} previous={previousRun?.metrics[m.key]} />
+                    </div>
+                  ))}
+                </div>
+                {previousRun && <span className={styles.hint}>Changes are against the run before it.</span>}
+              </section>
+            )}
+
+            {runs.length > 0 && (
+              <section className={styles.section}>
+                <span className={styles.controlLabel}>History</span>
+                <ul className={styles.runList}>
+                  {runs.map((run, i) => (
+                    <li key={run.id} className={`${styles.run} ${run.id === viewRun?.id ? styles.active : ''}`}>
+                      <button className={styles.runSelect} onClick={() => setViewRunId(run.id)}>
+                        <span className={styles.runTitle}>{run.label || formatTime(run.ran_at)}</span>
+                        <span className={styles.runMeta}>
+                          {run.label ? `${formatTime(run.ran_at)} · ` : ''}
+                          {describeOptions(run.options)}
+                        </span>
+                        <span className={styles.runScores}>
+                          {METRICS.map((m) => (
+                            <span key={m.key}>
+                              {m.label(run.options.k)} {formatMetric(run.metrics[m.key])}
+                              <Delta value={run.metrics[m.key]} previous={runs[i + 1]?.metrics[m.key]} />
+                            </span>
+                          ))}
+                        </span>
+                      </button>
+                      <button className={styles.removeBtn} onClick={() => handleRemoveRun(run)} title="Delete run">
+                        ×
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </aside>
+        </div>
+      )}
+
+      {activeSet && editing !== null && (
+        <EvalQueryEditor
+          key={editing === 'new' ? 'new' : editing.id}
+          isOpen
+          onClose={() => setEditing(null)}
+          projectId={projectId!}
+          query={editing === 'new' ? null : editing}
+          onSave={handleSaveQuery}
+        />
+      )}
+    </motion.div>
+  );
+}
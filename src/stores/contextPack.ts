@@ -0,0 +1,65 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_TOKEN_BUDGET } from '../lib/contextPack';
+import type { PackFormat, PackItem } from '../lib/contextPack';
+
+// Memories collected for pasting into a chat tool, shared by the Search and Memories pages
+
+interface ContextPackState {
+  items: PackItem[];
+  budget: number;
+  format: PackFormat;
+
+  // Actions
+  // Returns false when the memory is already in the pack
+  addItem: (item: PackItem) => boolean;
+  removeItem: (key: string) => void;
+  moveItem: (key: string, offset: number) => void;
+  updateContent: (key: string, content: string) => void;
+  setItems: (items: PackItem[]) => void;
+  clear: () => void;
+  setBudget: (budget: number) => void;
+  setFormat: (format: PackFormat) => void;
+}
+
+export const useContextPack = create<ContextPackState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      budget: DEFAULT_TOKEN_BUDGET,
+      format: 'markdown',
+
+      addItem: (item) => {
+        if (get().items.some((i) => i.key === item.key)) return false;
+        set({ items: [...get().items, item] });
+        return true;
+      },
+
+      removeItem: (key) => set({ items: get().items.filter((i) => i.key !== key) }),
+
+      moveItem: (key, offset) => {
+        const items = [...get().items];
+        const from = items.findIndex((i) => i.key === key);
+        const to = from + offset;
+        if (from === -1 || to < 0 || to >= items.length) return;
+        const [moved] = items.splice(from, 1);
+        items.splice(to, 0, moved);
+        set({ items });
+      },
+
+      updateContent: (key, content) =>
+        set({ items: get().items.map((i) => (i.key === key ? { ...i, content, trimmed: true } : i)) }),
+
+      setItems: (items) => set({ items }),
+
+      clear: () => set({ items: [] }),
+
+      setBudget: (budget) => set({ budget }),
+
+      setFormat: (format) => set({ format }),
+    }),
+    {
+      name: 'fold-context-pack',
+    }
+  )
+);
@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { newEvalId } from '../lib/evaluation';
+import type { EvalQuery, EvalRun } from '../lib/evaluation';
+
+// Relevance query sets and their evaluation runs, stored in this browser per project
+
+const MAX_RUNS_PER_SET = 25;
+
+export interface EvalSet {
+  id: string;
+  projectId: string;
+  name: string;
+  queries: EvalQuery[];
+  created_at: string;
+  // Newest first
+  runs: EvalRun[];
+}
+
+interface EvaluationState {
+  sets: EvalSet[];
+
+  // Actions
+  createSet: (projectId: string, name: string, queries?: EvalQuery[]) => EvalSet;
+  renameSet: (setId: string, name: string) => void;
+  setQueries: (setId: string, queries: EvalQuery[]) => void;
+  removeSet: (setId: string) => void;
+  addRun: (setId: string, run: EvalRun) => void;
+  removeRun: (setId: string, runId: string) => void;
+}
+
+export const useEvaluation = create<EvaluationState>()(
+  persist(
+    (set, get) => {
+      const update = (setId: string, patch: (s: EvalSet) => Partial<EvalSet>) =>
+        set({ sets: get().sets.map((s) => (s.id === setId ? { ...s, ...patch(s) } : s)) });
+
+      return {
+        sets: [],
+
+        createSet: (projectId, name, queries = []) => {
+          const created: EvalSet = {
+            id: newEvalId(),
+            projectId,
+            name,
+            queries,
+            created_at: new Date().toISOString(),
+            runs: [],
+          };
+          set({ sets: [...get().sets, created] });
+          return created;
+        },
+
+        renameSet: (setId, name) => update(setId, () => ({ name })),
+
+        setQueries: (setId, queries) => update(setId, () => ({ queries })),
+
+        removeSet: (setId) => set({ sets: get().sets.filter((s) => s.id !== setId) }),
+
+        addRun: (setId, run) => update(setId, (s) => ({ runs: [run, ...s.runs].slice(0, MAX_RUNS_PER_SET) })),
+
+        removeRun: (setId, runId) => update(setId, (s) => ({ runs: s.runs.filter((r) => r.id !== runId) })),
+      };
+    },
+    {
+      name: 'fold-evaluation',
+    }
+  )
+);
@@ -0,0 +1,171 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { api } from '../lib/api';
+import type { Memory, UpdateMemoryRequest } from '../lib/api';
+
+// The server keeps only the current content of a memory, so history is a
+// local journal of every version this browser has seen or overwritten.
+
+export const MAX_REVISIONS_PER_MEMORY = 20;
+export const MAX_MEMORIES = 300;
+// Larger contents are not journalled to stay within localStorage limits
+const MAX_CONTENT_LENGTH = 50_000;
+// Total size of the journal in characters. localStorage allows about 5 MB per
+// origin, which the token and the other persisted stores share.
+const MAX_JOURNAL_LENGTH = 1_500_000;
+
+export interface MemoryRevision {
+  hash: string;
+  content: string;
+  title?: string;
+  author?: string;
+  // Server timestamp of this version
+  updated_at?: string;
+  // When this browser first saw it
+  recorded_at: string;
+}
+
+// FNV-1a, for memories that arrive without a content_hash
+function hashContent(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `local-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+export function revisionHash(memory: Pick<Memory, 'content' | 'content_hash'>): string | null {
+  if (memory.content_hash) return memory.content_hash;
+  return memory.content != null ? hashContent(memory.content) : null;
+}
+
+export function revisionKey(projectId: string, memoryId: string) {
+  return `${projectId}:${memoryId}`;
+}
+
+function revisionLength(revision: MemoryRevision) {
+  // Rough allowance for the hash, timestamps and JSON punctuation
+  return revision.content.length + (revision.title?.length ?? 0) + (revision.author?.length ?? 0) + 150;
+}
+
+// Drop the oldest revisions, across all memories, until the journal fits in `budget`
+function fitJournal(revisions: Record<string, MemoryRevision[]>, budget: number) {
+  const all = Object.entries(revisions).flatMap(([key, list]) => list.map((revision) => ({ key, revision })));
+  let total = all.reduce((sum, { revision }) => sum + revisionLength(revision), 0);
+  if (total <= budget) return revisions;
+
+  const dropped = new Set<MemoryRevision>();
+  all.sort((a, b) => a.revision.recorded_at.localeCompare(b.revision.recorded_at));
+  for (const { revision } of all) {
+    if (total <= budget) break;
+    dropped.add(revision);
+    total -= revisionLength(revision);
+  }
+
+  const fitted: Record<string, MemoryRevision[]> = {};
+  for (const [key, list] of Object.entries(revisions)) {
+    const kept = list.filter((r) => !dropped.has(r));
+    if (kept.length > 0) fitted[key] = kept;
+  }
+  return fitted;
+}
+
+function isQuotaError(err: unknown) {
+  return (
+    err instanceof DOMException &&
+    (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  );
+}
+
+interface RevisionState {
+  // Newest first, keyed by revisionKey()
+  revisions: Record<string, MemoryRevision[]>;
+
+  // Actions
+  record: (projectId: string, memory: Memory) => void;
+}
+
+export const useRevisions = create<RevisionState>()(
+  persist(
+    (set, get) => ({
+      revisions: {},
+
+      record: (projectId: string, memory: Memory) => {
+        const hash = revisionHash(memory);
+        if (!hash || memory.content == null || memory.content.length > MAX_CONTENT_LENGTH) return;
+
+        const key = revisionKey(projectId, memory.id);
+        const existing = get().revisions[key] || [];
+        if (existing.some((r) => r.hash === hash)) return;
+
+        const revision: MemoryRevision = {
+          hash,
+          content: memory.content,
+          title: memory.title,
+          author: memory.author,
+          updated_at: memory.updated_at,
+          recorded_at: new Date().toISOString(),
+        };
+        const revisions = { ...get().revisions, [key]: [revision, ...existing].slice(0, MAX_REVISIONS_PER_MEMORY) };
+
+        // Forget the memories that were least recently changed once over the cap
+        const keys = Object.keys(revisions);
+        if (keys.length > MAX_MEMORIES) {
+          keys
+            .sort((a, b) => revisions[a][0].recorded_at.localeCompare(revisions[b][0].recorded_at))
+            .slice(0, keys.length - MAX_MEMORIES)
+            .forEach((k) => delete revisions[k]);
+        }
+
+        // Persisting is synchronous, so a full localStorage throws out of set().
+        // The journal is a convenience: shrink it rather than fail the caller.
+        try {
+          set({ revisions: fitJournal(revisions, MAX_JOURNAL_LENGTH) });
+        } catch (err) {
+          if (!isQuotaError(err)) throw err;
+          try {
+            set({ revisions: fitJournal(revisions, MAX_JOURNAL_LENGTH / 4) });
+          } catch (retryErr) {
+            if (!isQuotaError(retryErr)) throw retryErr;
+          }
+        }
+      },
+    }),
+    {
+      name: 'fold-revisions',
+    }
+  )
+);
+
+/**
+ * Update a memory, journalling the version it replaces first when the content
+ * changes. Lists may carry only a preview of the content, so the current
+ * version is read unless the journal already holds it. Content edits go through
+ * here so history does not depend on the memory having been opened before;
+ * updates that leave the content alone should call api.updateMemory directly.
+ */
+export async function updateMemoryWithHistory(
+  projectId: string,
+  memory: Memory,
+  data: UpdateMemoryRequest
+): Promise<Memory> {
+  if (data.content === undefined) return api.updateMemory(projectId, memory.id, data);
+
+  const { record, revisions } = useRevisions.getState();
+  const journalled =
+    memory.content_hash != null &&
+    (revisions[revisionKey(projectId, memory.id)] || []).some((r) => r.hash === memory.content_hash);
+  if (!journalled) {
+    try {
+      const context = await api.getMemoryContext(projectId, memory.id, 1);
+      if (context?.memory) record(projectId, context.memory);
+    } catch {
+      // History is best effort and must not block the save
+    }
+  }
+
+  const updated = await api.updateMemory(projectId, memory.id, data);
+  if (updated?.content != null) record(projectId, updated);
+  return updated;
+}
@@ -0,0 +1,56 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// Named Memories page views, stored in this browser per signed-in user
+
+const MAX_VIEWS_PER_USER = 50;
+
+export interface SavedView {
+  id: string;
+  name: string;
+  projectId: string;
+  // Query string produced by memoryViewParams(), without the project
+  query: string;
+  created_at: string;
+}
+
+interface SavedViewState {
+  // Keyed by user ID
+  views: Record<string, SavedView[]>;
+
+  // Actions
+  saveView: (userId: string, view: Pick<SavedView, 'name' | 'projectId' | 'query'>) => SavedView;
+  removeView: (userId: string, viewId: string) => void;
+}
+
+export const useSavedViews = create<SavedViewState>()(
+  persist(
+    (set, get) => ({
+      views: {},
+
+      saveView: (userId, view) => {
+        const saved: SavedView = {
+          ...view,
+          id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+          created_at: new Date().toISOString(),
+        };
+        // Saving under an existing name replaces that view
+        const existing = (get().views[userId] || []).filter((v) => v.name !== view.name);
+        set({
+          views: { ...get().views, [userId]: [...existing, saved].slice(-MAX_VIEWS_PER_USER) },
+        });
+        return saved;
+      },
+
+      removeView: (userId, viewId) => {
+        const existing = get().views[userId] || [];
+        set({
+          views: { ...get().views, [userId]: existing.filter((v) => v.id !== viewId) },
+        });
+      },
+    }),
+    {
+      name: 'fold-saved-views',
+    }
+  )
+);
@@ -0,0 +1,143 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { MemorySource } from '../lib/api';
+import type { SearchScope } from '../lib/federatedSearch';
+
+// Recent and saved searches of the Search page, stored in this browser per
+// signed-in user and per project (or per multi-project scope)
+
+const MAX_HISTORY_PER_KEY = 30;
+const MAX_SAVED_PER_KEY = 50;
+// Result ids kept per run to tell whether a re-run returns the same hits
+export const TOP_RESULT_COUNT = 20;
+
+export interface SearchRequest {
+  // Raw input, inline filters included
+  query: string;
+  scope: SearchScope;
+  projectId: string | null;
+  group?: string;
+  source: MemorySource | null;
+  // Decay overrides, when the project defaults were overridden
+  strength_weight?: number;
+  decay_half_life_days?: number;
+  // Also return memories linked to the direct hits
+  include_neighbours?: boolean;
+}
+
+export interface SearchRecord extends SearchRequest {
+  id: string;
+  ran_at: string;
+  result_count: number;
+  top_ids: string[];
+}
+
+export interface SavedSearch extends SearchRecord {
+  name: string;
+  created_at: string;
+}
+
+export interface TopResultsDiff {
+  added: string[];
+  removed: string[];
+  // Same hits, different order
+  reordered: boolean;
+}
+
+export function searchHistoryKey(userId: string, request: Pick<SearchRequest, 'scope' | 'projectId' | 'group'>) {
+  const target =
+    request.scope === 'project' ? request.projectId : request.scope === 'group' ? `group:${request.group}` : 'all';
+  return `${userId}:${target}`;
+}
+
+export function diffTopResults(previous: string[], current: string[]): TopResultsDiff {
+  const before = new Set(previous);
+  const after = new Set(current);
+  const added = current.filter((id) => !before.has(id));
+  const removed = previous.filter((id) => !after.has(id));
+  const keptNow = current.filter((id) => before.has(id));
+  const keptBefore = previous.filter((id) => after.has(id));
+  const reordered = keptNow.some((id, i) => id !== keptBefore[i]);
+  return { added, removed, reordered };
+}
+
+function sameRequest(a: SearchRequest, b: SearchRequest) {
+  return (
+    a.query === b.query &&
+    a.scope === b.scope &&
+    a.projectId === b.projectId &&
+    a.group === b.group &&
+    a.source === b.source &&
+    a.strength_weight === b.strength_weight &&
+    a.decay_half_life_days === b.decay_half_life_days &&
+    !!a.include_neighbours === !!b.include_neighbours
+  );
+}
+
+function newId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+interface SearchHistoryState {
+  // Newest first, keyed by searchHistoryKey()
+  history: Record<string, SearchRecord[]>;
+  saved: Record<string, SavedSearch[]>;
+
+  // Actions
+  record: (key: string, request: SearchRequest, outcome: Pick<SearchRecord, 'result_count' | 'top_ids'>) => SearchRecord;
+  clearHistory: (key: string) => void;
+  saveSearch: (key: string, name: string, record: SearchRecord) => SavedSearch;
+  updateSaved: (key: string, savedId: string, record: SearchRecord) => void;
+  removeSaved: (key: string, savedId: string) => void;
+}
+
+export const useSearchHistory = create<SearchHistoryState>()(
+  persist(
+    (set, get) => ({
+      history: {},
+      saved: {},
+
+      record: (key, request, outcome) => {
+        const entry: SearchRecord = { ...request, ...outcome, id: newId(), ran_at: new Date().toISOString() };
+        // Running the same search again moves it to the top
+        const existing = (get().history[key] || []).filter((r) => !sameRequest(r, request));
+        set({ history: { ...get().history, [key]: [entry, ...existing].slice(0, MAX_HISTORY_PER_KEY) } });
+        return entry;
+      },
+
+      clearHistory: (key) => {
+        const history = { ...get().history };
+        delete history[key];
+        set({ history });
+      },
+
+      saveSearch: (key, name, record) => {
+        const saved: SavedSearch = { ...record, id: newId(), name, created_at: new Date().toISOString() };
+        // Saving under an existing name replaces that search
+        const existing = (get().saved[key] || []).filter((s) => s.name !== name);
+        set({ saved: { ...get().saved, [key]: [...existing, saved].slice(-MAX_SAVED_PER_KEY) } });
+        return saved;
+      },
+
+      updateSaved: (key, savedId, record) => {
+        const existing = get().saved[key] || [];
+        set({
+          saved: {
+            ...get().saved,
+            [key]: existing.map((s) =>
+              s.id === savedId ? { ...s, ran_at: record.ran_at, result_count: record.result_count, top_ids: record.top_ids } : s
+            ),
+          },
+        });
+      },
+
+      removeSaved: (key, savedId) => {
+        const existing = get().saved[key] || [];
+        set({ saved: { ...get().saved, [key]: existing.filter((s) => s.id !== savedId) } });
+      },
+    }),
+    {
+      name: 'fold-search-history',
+    }
+  )
+);